@@ -0,0 +1,18 @@
+// app/api/jobs/worker/route.ts
+import { NextResponse, after } from "next/server";
+import { kickWorker } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Wake the job worker: picks up queued jobs and re-queues running jobs whose
+// worker died. Routes only kick it in after(), so nothing resumes a job after a
+// redeploy or a crashed instance unless this is called on a schedule — the
+// cron in vercel.json does (GET); elsewhere, point an external scheduler here.
+export async function POST() {
+  after(() => kickWorker());
+  return NextResponse.json({ success: true, data: { message: "Worker started." } }, { status: 202 });
+}
+
+// Vercel Cron calls GET
+export const GET = POST;
@@ -0,0 +1,24 @@
+// app/api/migrations/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { runMigrations } from "@/lib/migrations";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Upgrade stored records to the current schemas. Body: { dryRun?, profileId? }.
+// Records that can't be fixed are listed under data.failed and left as they are.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const data = await runMigrations({
+      dryRun: body?.dryRun === true,
+      profileId: typeof body?.profileId === "string" && body.profileId ? body.profileId : undefined,
+    });
+    return NextResponse.json({ success: true, data });
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 }
+    );
+  }
+}
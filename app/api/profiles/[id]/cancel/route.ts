@@ -0,0 +1,25 @@
+// app/api/profiles/[id]/cancel/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { cancelAuditJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+// Stop a running (or queued) audit. Body: { by?: string } — who cancelled.
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const body = await req.json().catch(() => ({}));
+    const by = typeof body?.by === "string" && body.by.trim() ? body.by.trim() : "unknown";
+    const data = await cancelAuditJob(id, by);
+    return NextResponse.json({ success: true, data }, { status: 202 });
+  } catch (err: any) {
+    const status = err?.message === "Profile not found" ? 404 : 500;
+    return NextResponse.json(
+      { success: false, error: err?.message ?? "Internal error" },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// app/api/profiles/[id]/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { exportProfileBundle } from "@/lib/bundle";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Download one profile as a versioned JSON bundle (see lib/bundle.ts):
+// profile + scrape metadata, prompts with volume, results, reports, run history.
+export async function GET(
+  _req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const bundle = await exportProfileBundle(id);
+    const name = String(bundle.profile.companyName || id)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    const date = new Date(bundle.exportedAt).toISOString().slice(0, 10);
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${name || "profile"}-audit-${date}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message === "Profile not found" ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/profiles/[id]/fact-check/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { runFactCheckForProfile } from "@/lib/fact-check";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  _req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const data = await runFactCheckForProfile(id);
+    return NextResponse.json({ success: true, data: { summary: data.summary, total: data.claims.length } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { success: false, error: err?.message ?? "Internal error" },
+      { status: 500 }
+    );
+  }
+}
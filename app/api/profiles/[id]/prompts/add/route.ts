@@ -1,27 +1,17 @@
 // app/api/profiles/[id]/prompts/add/route.ts
-import { NextRequest, NextResponse } from "next/server";
-import { initializeApp, getApps } from "firebase/app";
-import { getDatabase, ref, get, set, child } from "firebase/database";
+import { NextRequest, NextResponse, after } from "next/server";
 import { runSerpForPrompt } from "@/lib/serp-runner";
+import { endRunLog, startRunLog } from "@/lib/run-log";
+import { kickWorker } from "@/lib/jobs";
+import { acquireRunLock } from "@/lib/run-lock";
+import { getProfile, nextPromptKeys, savePrompt, setPromptVolume } from "@/lib/repository";
+import { PROMPT_CATEGORIES, PromptCategory } from "@/lib/pipeline";
 
 // 🔸 reuse the same logic as /api/volume by importing its handler directly
 import { POST as volumePOST } from "@/app/api/volume/route";
 
 export const runtime = "nodejs";
 
-if (!getApps().length) {
-  initializeApp({
-    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-    databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL!,
-    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-    storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-    messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
-  });
-}
-const db = getDatabase();
-
 // ---- helpers
 function resolveLocationCode(profile: any): number {
   const c = String(profile?.country || profile?.region || "").toLowerCase();
@@ -29,13 +19,16 @@ function resolveLocationCode(profile: any): number {
   return 2840; // USA default
 }
 
+// Add one prompt (with its volume) and check it on every engine. Runs under
+// the profile's run lock; refused with 409 while another run holds it.
 export async function POST(
   req: NextRequest,
   ctx: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await ctx.params;
-    const { category, text } = await req.json();
+    const { category, text, by } = await req.json();
+    const owner = typeof by === "string" && by.trim() ? by.trim() : "unknown";
 
     if (!category || !text) {
       return NextResponse.json(
@@ -43,82 +36,82 @@ export async function POST(
         { status: 400 }
       );
     }
+    if (!PROMPT_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        { success: false, error: "Unknown category" },
+        { status: 400 }
+      );
+    }
 
-    const profileRef = ref(db, `profiles/${id}`);
-
-    // Load profile and current category to compute key + locale
-    const [profileSnap, catSnap] = await Promise.all([
-      get(profileRef),
-      get(child(profileRef, `prompts/${category}`)),
-    ]);
-    if (!profileSnap.exists()) {
+    // Load profile to compute the locale
+    const profile = await getProfile(id);
+    if (!profile) {
       return NextResponse.json(
         { success: false, error: "Profile not found" },
         { status: 404 }
       );
     }
-    const profile = profileSnap.val();
     const location_code = resolveLocationCode(profile);
     const language_name = "English";
 
-    // Assign next key in the category (00, 01, 02, …)
-    const existing = (catSnap.val() || {}) as Record<string, any>;
-    const used = Object.keys(existing)
-      .map((k) => parseInt(k, 10))
-      .filter((n) => !isNaN(n))
-      .sort((a, b) => a - b);
-    const nextIndex = used.length ? used[used.length - 1] + 1 : 0;
-    const key = String(nextIndex).padStart(2, "0");
-
-    // Create the prompt row
-    const promptPath = `prompts/${category}/${key}`;
-    await set(child(profileRef, promptPath), {
-      id: key,
-      category,
-      text: String(text).trim(),
-      createdAt: Date.now(),
-    });
+    const runId = `add-prompt-${Date.now()}`;
+    const lock = await acquireRunLock(id, { runId, kind: "add-prompt", owner });
+    if (!lock.acquired) {
+      return NextResponse.json(
+        { success: false, error: "Another run is in progress; add the prompt when it finishes", data: { run: lock.lock } },
+        { status: 409 }
+      );
+    }
 
-    // ----- CALL /api/volume (server-side) and persist under this prompt
+    startRunLog(id, "add-prompt", runId);
     try {
-      const volReq = new Request("http://local/api/volume", {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({
-          keywords: [String(text).trim()],
-          language_name,
-          location_code,
-        }),
-      });
-      const volRes = await volumePOST(volReq);
-      const volJson: any = await volRes.json();
-      const item = volJson?.items?.[0];
+      // Create the prompt row (next key in the category: 00, 01, 02, …)
+      const [key] = await nextPromptKeys(id, category as PromptCategory);
+      const promptId = await savePrompt(id, category, key, String(text).trim());
 
-      // Always write something so we don't re-hit the endpoint on next load
-      await set(child(profileRef, `${promptPath}/volume`), {
-        value: typeof item?.volume === "number" ? item.volume : 0,
-        monthly: Array.isArray(item?.monthly) ? item.monthly : [],
-        language_name,
-        location_code,
-        updatedAt: Date.now(),
-      });
-    } catch {
-      // Fallback: write zero volume on failure
-      await set(child(profileRef, `${promptPath}/volume`), {
-        value: 0,
-        monthly: [],
-        language_name,
-        location_code,
-        updatedAt: Date.now(),
-      });
-    }
+      // ----- CALL /api/volume (server-side) and persist under this prompt
+      try {
+        const volReq = new Request("http://local/api/volume", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({
+            keywords: [String(text).trim()],
+            language_name,
+            location_code,
+          }),
+        });
+        const volRes = await volumePOST(volReq);
+        const volJson: any = await volRes.json();
+        const item = volJson?.items?.[0];
 
-    const promptId = `${category}:${key}`;
+        // Always write something so we don't re-hit the endpoint on next load
+        await setPromptVolume(id, promptId, {
+          value: typeof item?.volume === "number" ? item.volume : 0,
+          monthly: Array.isArray(item?.monthly) ? item.monthly : [],
+          language_name,
+          location_code,
+          updatedAt: Date.now(),
+        });
+      } catch {
+        // Fallback: write zero volume on failure
+        await setPromptVolume(id, promptId, {
+          value: 0,
+          monthly: [],
+          language_name,
+          location_code,
+          updatedAt: Date.now(),
+        });
+      }
 
-    // Run SERP ONLY for this new prompt
-    await runSerpForPrompt(id, promptId);
+      // Run SERP ONLY for this new prompt
+      await runSerpForPrompt(id, promptId);
 
-    return NextResponse.json({ success: true, data: { promptId } });
+      return NextResponse.json({ success: true, data: { promptId } });
+    } finally {
+      await endRunLog(id, runId);
+      await lock.release();
+      after(() => kickWorker()); // audits deferred by the lock
+    }
   } catch (err: any) {
     return NextResponse.json(
       { success: false, error: err?.message ?? "Internal error" },
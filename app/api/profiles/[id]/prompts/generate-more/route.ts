@@ -1,28 +1,24 @@
 // app/api/profiles/[id]/prompts/generate-more/route.ts
-import { NextRequest, NextResponse } from "next/server";
-import { initializeApp, getApps } from "firebase/app";
-import { getDatabase, ref, get, child, set } from "firebase/database";
+import { NextRequest, NextResponse, after } from "next/server";
 import { generateMorePromptsForCategory } from "@/lib/prompt-gen";
 import { runSerpForPrompt } from "@/lib/serp-runner";
+import { endRunLog, startRunLog } from "@/lib/run-log";
+import { kickWorker } from "@/lib/jobs";
+import { getProfile, getPrompt, setPromptVolume } from "@/lib/repository";
+import {
+  acquireRunLock,
+  IdempotencyKeyConflictError,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  idempotencyKeyFrom,
+  releaseIdempotencyKey,
+} from "@/lib/run-lock";
 
 // 🔸 Reuse the same logic as /api/volume by importing its POST handler directly
 import { POST as volumePOST } from "@/app/api/volume/route";
 
 export const runtime = "nodejs";
 
-if (!getApps().length) {
-  initializeApp({
-    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-    databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL!,
-    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-    storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-    messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
-  });
-}
-const db = getDatabase();
-
 /* ---------- helpers ---------- */
 function normalizeSpaces(s: string = "") {
   return s.trim().replace(/\s+/g, " ");
@@ -46,13 +42,25 @@ function resolveLocationCode(profile: any): number {
 }
 
 /* ---------- route ---------- */
+// Header Idempotency-Key: a retried request returns the prompts created by the first one.
+// Runs under the profile's run lock; refused with 409 while another run holds it.
 export async function POST(
   req: NextRequest,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const { id } = await ctx.params;
+  const key = idempotencyKeyFrom(req);
+  let claimed: string | null = null;
+
   try {
-    const { id } = await ctx.params;
-    const { category, count, remarks } = await req.json();
+    if (key) {
+      const prior = await claimIdempotencyKey(id, key, "generate-more");
+      if (prior) {
+        return NextResponse.json({ success: true, data: prior.data ?? null, duplicate: true, pending: prior.status === "pending" });
+      }
+      claimed = key;
+    }
+    const { category, count, remarks, by } = await req.json();
 
     if (!category || !count) {
       return NextResponse.json(
@@ -61,101 +69,123 @@ export async function POST(
       );
     }
 
-    // 1) Generate prompts (writes them into RTDB and returns their ids)
-    const { createdPromptIds } = await generateMorePromptsForCategory(
-      id,
-      category,
-      Math.min(10, Number(count)),
-      remarks
-    );
-
-    if (!createdPromptIds || createdPromptIds.length === 0) {
-      return NextResponse.json({ success: true, data: { createdPromptIds: [] } });
-    }
-
-    // 2) Load profile + fetch the text of each new prompt so we can compute volume
-    const profileRef = ref(db, `profiles/${id}`);
-    const profileSnap = await get(profileRef);
-    if (!profileSnap.exists()) {
+    const owner = typeof by === "string" && by.trim() ? by.trim() : "unknown";
+    const runId = `generate-more-${Date.now()}`;
+    const lock = await acquireRunLock(id, { runId, kind: "generate-more", owner });
+    if (!lock.acquired) {
       return NextResponse.json(
-        { success: false, error: "Profile not found" },
-        { status: 404 }
+        { success: false, error: "Another run is in progress; generate prompts when it finishes", data: { run: lock.lock } },
+        { status: 409 }
       );
     }
-    const profile = profileSnap.val();
-    const location_code = resolveLocationCode(profile);
-    const language_name = "English";
-
-    type NewP = { pid: string; cat: string; key: string; text: string };
-    const newPrompts: NewP[] = [];
-    for (const pid of createdPromptIds as string[]) {
-      const [cat, key] = pid.split(":");
-      const nodeSnap = await get(child(profileRef, `prompts/${cat}/${key}`));
-      const text = String(nodeSnap.val()?.text || "");
-      if (text) newPrompts.push({ pid, cat, key, text });
-    }
 
-    // 3) Call /api/volume ONCE for all unique texts (server-side, no extra HTTP hop)
-    const uniqueKeywords = dedupeStrings(newPrompts.map((p) => p.text));
-    if (uniqueKeywords.length > 0) {
-      try {
-        const volReq = new Request("http://local/api/volume", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          body: JSON.stringify({
-            keywords: uniqueKeywords,
-            language_name,
-            location_code,
-          }),
-        });
-        const volRes = await volumePOST(volReq);
-        const volJson: any = await volRes.json();
-
-        const byKw = new Map<string, any>(
-          (volJson?.items || []).map((it: any) => [normalizeSpaces(it.keyword), it])
-        );
-        const now = Date.now();
-
-        // 4) Persist the volume under each newly-created prompt
-        await Promise.all(
-          newPrompts.map(async (np) => {
-            const item = byKw.get(normalizeSpaces(np.text));
-            await set(child(profileRef, `prompts/${np.cat}/${np.key}/volume`), {
-              value: typeof item?.volume === "number" ? item.volume : 0,
-              monthly: Array.isArray(item?.monthly) ? item.monthly : [],
-              language_name,
-              location_code,
-              updatedAt: now,
-            });
-          })
+    startRunLog(id, "generate-more", runId);
+    try {
+      // 1) Generate prompts (writes them into RTDB and returns their ids)
+      const { createdPromptIds } = await generateMorePromptsForCategory(
+        id,
+        category,
+        Math.min(10, Number(count)),
+        remarks
+      );
+
+      if (!createdPromptIds || createdPromptIds.length === 0) {
+        return NextResponse.json({ success: true, data: { createdPromptIds: [] } });
+      }
+
+      // 2) Load profile + fetch the text of each new prompt so we can compute volume
+      const profile = await getProfile(id);
+      if (!profile) {
+        return NextResponse.json(
+          { success: false, error: "Profile not found" },
+          { status: 404 }
         );
-      } catch {
-        // On failure, stamp zeros to avoid repeated re-calls
-        const now = Date.now();
-        await Promise.all(
-          newPrompts.map(async (np) => {
-            await set(child(profileRef, `prompts/${np.cat}/${np.key}/volume`), {
-              value: 0,
-              monthly: [],
+      }
+      const location_code = resolveLocationCode(profile);
+      const language_name = "English";
+
+      type NewP = { pid: string; text: string };
+      const newPrompts: NewP[] = [];
+      for (const pid of createdPromptIds as string[]) {
+        const text = String((await getPrompt(id, pid))?.text || "");
+        if (text) newPrompts.push({ pid, text });
+      }
+
+      // 3) Call /api/volume ONCE for all unique texts (server-side, no extra HTTP hop)
+      const uniqueKeywords = dedupeStrings(newPrompts.map((p) => p.text));
+      if (uniqueKeywords.length > 0) {
+        try {
+          const volReq = new Request("http://local/api/volume", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({
+              keywords: uniqueKeywords,
               language_name,
               location_code,
-              updatedAt: now,
-            });
-          })
-        );
+            }),
+          });
+          const volRes = await volumePOST(volReq);
+          const volJson: any = await volRes.json();
+
+          const byKw = new Map<string, any>(
+            (volJson?.items || []).map((it: any) => [normalizeSpaces(it.keyword), it])
+          );
+          const now = Date.now();
+
+          // 4) Persist the volume under each newly-created prompt
+          await Promise.all(
+            newPrompts.map(async (np) => {
+              const item = byKw.get(normalizeSpaces(np.text));
+              await setPromptVolume(id, np.pid, {
+                value: typeof item?.volume === "number" ? item.volume : 0,
+                monthly: Array.isArray(item?.monthly) ? item.monthly : [],
+                language_name,
+                location_code,
+                updatedAt: now,
+              });
+            })
+          );
+        } catch {
+          // On failure, stamp zeros to avoid repeated re-calls
+          const now = Date.now();
+          await Promise.all(
+            newPrompts.map(async (np) => {
+              await setPromptVolume(id, np.pid, {
+                value: 0,
+                monthly: [],
+                language_name,
+                location_code,
+                updatedAt: now,
+              });
+            })
+          );
+        }
       }
-    }
 
-    // 5) Run SERP ONLY for the newly created prompts
-    for (const pid of createdPromptIds) {
-      await runSerpForPrompt(id, pid);
-    }
+      // 5) Run SERP ONLY for the newly created prompts (one run in the history)
+      for (const pid of createdPromptIds) {
+        await runSerpForPrompt(id, pid);
+      }
 
-    return NextResponse.json({ success: true, data: { createdPromptIds } });
+      if (claimed) {
+        await completeIdempotencyKey(id, claimed, "generate-more", { createdPromptIds });
+        claimed = null;
+      }
+      return NextResponse.json({ success: true, data: { createdPromptIds } });
+    } finally {
+      await endRunLog(id, runId);
+      await lock.release();
+      after(() => kickWorker()); // audits deferred by the lock
+    }
   } catch (err: any) {
+    if (err instanceof IdempotencyKeyConflictError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 409 });
+    }
     return NextResponse.json(
       { success: false, error: err?.message ?? "Internal error" },
       { status: 500 }
     );
+  } finally {
+    if (claimed) await releaseIdempotencyKey(id, claimed).catch(() => {});
   }
 }
@@ -1,46 +1,42 @@
 // app/api/profiles/[id]/report/overall/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { initializeApp, getApps } from "firebase/app";
-import {
-  getDatabase,
-  ref,
-  get,
-  set,
-  child,
-} from "firebase/database";
 import OpenAI from "openai";
+import {
+  EngineId,
+  ReportChannel,
+  StoredEngineResult,
+  enginePresence,
+  resolveEngines,
+} from "@/lib/engines";
+import type { BrandFraming, BrandRole, BrandSentiment } from "@/lib/framing";
+import { brandMatchesDomain, hostnameFromUrl } from "@/lib/serp";
+import { SourceType, classifySource, resultSourceUrls } from "@/lib/sources";
+import {
+  IdempotencyKeyConflictError,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  idempotencyKeyFrom,
+  releaseIdempotencyKey,
+} from "@/lib/run-lock";
+import {
+  ReportInputs,
+  getLatestRun,
+  getProfile,
+  getResults,
+  listPrompts,
+  newReportVersionId,
+  saveReportVersion,
+} from "@/lib/repository";
 
 export const runtime = "nodejs";
 
-// Init Firebase (client SDK env keys)
-if (!getApps().length) {
-  initializeApp({
-    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-    databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL!,
-    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-    storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-    messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
-  });
-}
-const db = getDatabase();
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+const REPORT_MODEL = "gpt-4.1";
 
 // ---------- Types ----------
 type PromptCategory = "brainstorming" | "identified_problem" | "solution_comparing" | "info_seeking";
 
-type EngineResult = {
-  status?: "checking" | "done" | "error";
-  top10?: string[];
-  hasCompany?: boolean;
-  competitorsHit?: string[];
-};
-
-type PromptResult = {
-  google?: EngineResult; // used as Perplexity + Google AI Overview
-  bing?: EngineResult;   // used as ChatGPT
-};
+type PromptResult = Partial<Record<EngineId, StoredEngineResult>>;
 
 type PromptItem = {
   id: string;            // "category:key"
@@ -234,119 +230,177 @@ function outlineFor(category: PromptCategory, promptText: string) {
   }
 }
 
-// ===== Added helpers for brand→domain matching (do not change anything else) =====
-const hostnameFromUrl = (u?: string) => {
-  if (!u) return "";
-  try {
-    const h = new URL(u).hostname.toLowerCase();
-    return h.startsWith("www.") ? h.slice(4) : h;
-  } catch {
-    return String(u).toLowerCase().replace(/^https?:\/\//, "").replace(/^www\./, "").split("/")[0];
-  }
-};
-const normalizeBrand = (s: string) =>
-  (s || "")
-    .toLowerCase()
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^a-z0-9]+/g, " ")
-    .trim();
-const brandMatchesDomain = (brand?: string, domain?: string) => {
-  if (!brand || !domain) return false;
-  const b = normalizeBrand(brand).replace(/\s+/g, ""); // "vera bradley" -> "verabradley"
-  const d = (domain || "").toLowerCase();
-  return b.length > 1 && d.includes(b); // brand string is contained in domain
-};
-
 // ---------- Route ----------
+// Header Idempotency-Key: a repeated request replays the first result instead of regenerating.
 export async function POST(
-  _req: NextRequest,
+  req: NextRequest,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const { id } = await ctx.params;
+  const key = idempotencyKeyFrom(req);
+  let claimed: string | null = null;
+
   try {
-    const { id } = await ctx.params;
+    if (key) {
+      const prior = await claimIdempotencyKey(id, key, "report-overall");
+      if (prior) {
+        return NextResponse.json({ success: true, data: prior.data ?? null, duplicate: true, pending: prior.status === "pending" });
+      }
+      claimed = key;
+    }
 
     // Load profile
-    const profileRef = ref(db, `profiles/${id}`);
-    const profSnap = await get(profileRef);
-    if (!profSnap.exists()) {
+    const profile = await getProfile(id);
+    if (!profile) {
       return NextResponse.json({ success: false, error: "Profile not found" }, { status: 404 });
     }
-    const profile = profSnap.val() as {
-      companyName: string;
-      websiteUrl: string;
-      competitorUrls?: string[];
-    };
 
-    // Load prompts
-    const promptsSnap = await get(child(profileRef, "prompts"));
-    const promptsVal = promptsSnap.val() || {};
-
-    // Flatten prompts
-    const prompts: PromptItem[] = [];
-    (["brainstorming", "identified_problem", "solution_comparing", "info_seeking"] as PromptCategory[]).forEach(
-      (cat) => {
-        const items = promptsVal?.[cat] || {};
-        Object.entries(items).forEach(([k, v]: [string, any]) => {
-          prompts.push({ id: `${cat}:${k}`, text: v?.text ?? "", category: cat });
-        });
-      }
-    );
+    // Engines that feed a report channel (registry order)
+    const enabledEngines = resolveEngines(profile);
+    const channelEngines = enabledEngines.filter((e) => e.channel);
+    // Full presence on every enabled channel (missingPresence is measured against it)
+    const maxPresenceScore = channelEngines.reduce((sum, e) => sum + e.weight, 0);
+
+    // Our own + competitor hosts are excluded from the third-party source leaderboard
+    const ownHosts = [profile.websiteUrl, ...(profile.competitorUrls || [])].map(hostnameFromUrl).filter(Boolean);
+    const isOwnHost = (h: string) => ownHosts.some((d) => h === d || h.endsWith("." + d));
+    const companyDomain = hostnameFromUrl(profile.websiteUrl || "");
+    const competitorHosts = (profile.competitorUrls || []).map(hostnameFromUrl).filter(Boolean);
+    // Organic engines (google page 1 + shopping + immersive, bing page 1) are not AI channels
+    const organicEngines = enabledEngines.filter((e) => e.id === "google" || e.id === "bing");
+
+    // Load prompts (flattened, category order)
+    const prompts: PromptItem[] = (await listPrompts(id)).map((p) => ({
+      id: p.promptId,
+      text: p.text ?? "",
+      category: p.category,
+    }));
 
     // Read SERP results (already computed elsewhere)
-    const resultSnap = await get(child(profileRef, "results"));
-    const resultsVal = (resultSnap.exists() ? resultSnap.val() : {}) as Record<string, PromptResult>;
+    const resultsVal: Record<string, PromptResult> = await getResults(id);
 
     // ---------- Compute metrics (numbers only, no LLM) ----------
     type Computed = {
       promptId: string;
       prompt: string;
       category: PromptCategory;
-      googleHas: boolean;    // treated as Perplexity + Google AI Overview
-      bingHas: boolean;      // treated as ChatGPT
+      anyHas: boolean;         // present in at least one channel (presenceRate >= 0.5)
+      presenceRate: number;    // P(present in at least one channel), from sampled rates
+      competitorRate: number;  // P(at least one competitor hit in any channel)
       competitorDomains: string[];
       competitorHitsCount: number;
-      presenceScore: number;           // 2*googleHas + 1.2*bingHas
-      missingPresence: number;         // 2 - presenceScore (>=0)
+      presenceScore: number;           // Σ engine weight × presence rate (registry)
+      missingPresence: number;         // Σ enabled channel weights - presenceScore (>=0)
       competitorPressure: number;      // min(1, competitorHits/4)
       categoryWeight: number;
       opportunityScore: number;        // Missing * (1 + 0.6*Pressure) * Weight
-      channels: { chatgpt: boolean; perplexity: boolean; googleAIO: boolean };
+      channels: Record<ReportChannel, boolean>;
+      channelRates: Record<ReportChannel, number>;
+      organic: boolean;                // company on Google page 1 / shopping / immersive or Bing page 1 (not in presenceScore)
+      mentioned: boolean;              // company named in at least one answer text
+      cited: boolean;                  // company URL cited by at least one answer engine / AIO
+      firstMentionRank?: number;       // best (lowest) order of first mention across engines
+      competitorMentions: string[];    // competitors named in any answer text
     };
 
     const computed: Computed[] = [];
-
-    // ===== Added: derive normalized domains once (before loop) =====
-    const companyDomain = hostnameFromUrl(profile.websiteUrl);
-    const competitorDomainList = (profile.competitorUrls || [])
-      .map(hostnameFromUrl)
-      .filter(Boolean) as string[];
+    // Third-party hosts cited across all prompts × enabled engines
+    const sourceRows = new Map<string, {
+      host: string;
+      type: SourceType;
+      citations: number;
+      prompts: Set<string>;
+      engines: Set<string>;
+      byCategory: Partial<Record<PromptCategory, number>>;
+    }>();
+    // Company framing per engine answer ("How AI talks about you")
+    const framings: Array<{ promptId: string; prompt: string; engine: string; framing: BrandFraming }> = [];
 
     for (const p of prompts) {
       const r = resultsVal?.[p.id] || {};
-      const g = r.google || {};
-      const b = r.bing || {};
-
-      const googleHas =
-  !!g.hasCompany ||
-  !!(g as any).immersive?.hasCompany ||
-  (Array.isArray((g as any).immersive?.brands) &&
-    (g as any).immersive!.brands.some((br: string) => brandMatchesDomain(br, companyDomain)));
-
-      const bingHas = !!b.hasCompany;
-
-      // ===== Replaced: competitor domains now include brand-driven hits from immersive
-      const gHits = Array.isArray(g.competitorsHit) ? g.competitorsHit : [];
-      const bHits = Array.isArray(b.competitorsHit) ? b.competitorsHit : [];
-      const brands = Array.isArray((g as any).immersive?.brands) ? ((g as any).immersive!.brands as string[]) : [];
-      const brandHitDomains = competitorDomainList.filter(cd =>
-        brands.some(br => brandMatchesDomain(br, cd))
-      );
-      const competitorDomains = Array.from(new Set([...gHits, ...bHits, ...brandHitDomains]));
+
+      // Presence probability + competitor hits per channel, from each enabled engine's result
+      const channelRates: Record<ReportChannel, number> = { chatgpt: 0, perplexity: 0, googleAIO: 0 };
+      const hits: string[] = [];
+      let presenceScore = 0;
+      let absentAll = 1;      // Π(1 - rate): no channel shows the company
+      let noCompetitorAll = 1; // Π(1 - competitorRate)
+      let mentioned = false;
+      let firstMentionRank: number | undefined;
+      const mentionedCompetitors = new Set<string>();
+      for (const e of channelEngines) {
+        const pres = enginePresence(e.id, r[e.id]);
+        const rate = pres.rate ?? 0;
+        channelRates[e.channel!] = rate;
+        presenceScore += e.weight * rate;
+        absentAll *= 1 - rate;
+        noCompetitorAll *= 1 - pres.competitorRate;
+        hits.push(...pres.competitorsHit);
+
+        // Mentions (answer text) are tracked separately from citations (URLs)
+        const m = r[e.id]?.mentions;
+        if (m?.company?.mentioned) {
+          mentioned = true;
+          const rank = m.company.firstRank;
+          if (rank > 0 && (firstMentionRank === undefined || rank < firstMentionRank)) firstMentionRank = rank;
+        }
+        for (const cm of m?.competitors || []) if (cm.mentioned) mentionedCompetitors.add(cm.domain);
+
+        const f = r[e.id]?.framing?.company;
+        if (f) framings.push({ promptId: p.id, prompt: p.text, engine: e.label, framing: f });
+      }
+      const channels: Record<ReportChannel, boolean> = {
+        chatgpt: channelRates.chatgpt >= 0.5,
+        perplexity: channelRates.perplexity >= 0.5,
+        googleAIO: channelRates.googleAIO >= 0.5,
+      };
+      // Organic results don't move presence, but competitors found there still add pressure
+      let organic = false;
+      for (const e of organicEngines) {
+        const o = r[e.id];
+        if (!o) continue;
+        const brands = o.immersive?.brands || [];
+        organic ||=
+          o.hasCompany === true ||
+          o.shopping?.hasCompany === true ||
+          o.immersive?.hasCompany === true ||
+          (!!companyDomain && brands.some((b) => brandMatchesDomain(b, companyDomain)));
+        hits.push(
+          ...(o.competitorsHit || []),
+          ...(o.shopping?.competitorsHit || []),
+          ...(o.immersive?.competitorsHit || []),
+          ...competitorHosts.filter((cd) => brands.some((b) => brandMatchesDomain(b, cd)))
+        );
+      }
+      const presenceRate = 1 - absentAll;
+      const competitorRate = 1 - noCompetitorAll;
+      const anyHas = presenceRate >= 0.5;
+
+      for (const e of enabledEngines) {
+        const hosts = new Set(resultSourceUrls(r[e.id]).map(hostnameFromUrl));
+        for (const host of hosts) {
+          if (!host || isOwnHost(host)) continue;
+          const row = sourceRows.get(host) || {
+            host,
+            type: classifySource(host),
+            citations: 0,
+            prompts: new Set<string>(),
+            engines: new Set<string>(),
+            byCategory: {},
+          };
+          row.citations += 1;
+          if (!row.prompts.has(p.id)) row.byCategory[p.category] = (row.byCategory[p.category] || 0) + 1;
+          row.prompts.add(p.id);
+          row.engines.add(e.label);
+          sourceRows.set(host, row);
+        }
+      }
+
+      const competitorDomains = Array.from(new Set(hits));
       const competitorHitsCount = competitorDomains.length;
 
-      const presenceScore = (googleHas ? 2 : 0) + (bingHas ? 1.2 : 0);
-      const missingPresence = Math.max(0, 2 - presenceScore);
+      presenceScore = +presenceScore.toFixed(3);
+      const missingPresence = +Math.max(0, maxPresenceScore - presenceScore).toFixed(3);
       const competitorPressure = Math.min(1, competitorHitsCount / 4);
       const categoryWeight = CAT_WEIGHT[p.category];
       const opportunityScore = +(missingPresence * (1 + 0.6 * competitorPressure) * categoryWeight).toFixed(3);
@@ -355,8 +409,9 @@ export async function POST(
         promptId: p.id,
         prompt: p.text,
         category: p.category,
-        googleHas,
-        bingHas,
+        anyHas,
+        presenceRate,
+        competitorRate,
         competitorDomains,
         competitorHitsCount,
         presenceScore,
@@ -364,28 +419,106 @@ export async function POST(
         competitorPressure,
         categoryWeight,
         opportunityScore,
-        channels: {
-          chatgpt: bingHas,                   // rename Bing -> ChatGPT
-          perplexity: googleHas,              // our mapping: Google -> Perplexity
-          googleAIO: googleHas,               // also show as Google AI Overview
-        },
+        channels,
+        channelRates,
+        organic,
+        mentioned,
+        cited: anyHas,
+        firstMentionRank,
+        competitorMentions: [...mentionedCompetitors],
       });
     }
 
     const total = computed.length || 1;
 
-    // Share of Voice: at least one channel present
+    // Share of Voice: expected share of prompts where at least one channel shows you
     const sov = toPct(
-      computed.filter(c => c.googleHas || c.bingHas).length,
+      computed.reduce((s, c) => s + c.presenceRate, 0),
       total
     );
 
-    // Whitespace: nobody (you or competitors) appears
+    // Whitespace: expected share where nobody (you or competitors) appears
     const whiteSpacePct = toPct(
-      computed.filter(c => !c.googleHas && !c.bingHas && c.competitorHitsCount === 0).length,
+      computed.reduce((s, c) => s + (1 - c.presenceRate) * (1 - c.competitorRate), 0),
       total
     );
 
+    // Mentioned vs cited: named in the answer text vs linked as a source
+    const mentionedPct = toPct(computed.filter(c => c.mentioned).length, total);
+    const citedPct = toPct(computed.filter(c => c.cited).length, total);
+    const mentionedNotCitedPct = toPct(computed.filter(c => c.mentioned && !c.cited).length, total);
+    const citedNotMentionedPct = toPct(computed.filter(c => c.cited && !c.mentioned).length, total);
+    const ranks = computed.map(c => c.firstMentionRank).filter((n): n is number => typeof n === "number");
+    const avgFirstMentionRank = ranks.length ? +(ranks.reduce((s, n) => s + n, 0) / ranks.length).toFixed(2) : 0;
+
+    // Competitors most often named in answers (prompt count)
+    const competitorMentionCounts = new Map<string, number>();
+    computed.forEach(c => c.competitorMentions.forEach(d =>
+      competitorMentionCounts.set(d, (competitorMentionCounts.get(d) || 0) + 1)
+    ));
+    const topCompetitorMentions = [...competitorMentionCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([domain, prompts]) => ({ domain, prompts }));
+
+    // Source leaderboard: overall, by source type and by prompt category
+    const rankedSources = [...sourceRows.values()].sort(
+      (a, b) => b.prompts.size - a.prompts.size || b.citations - a.citations
+    );
+    const typeTotals = new Map<SourceType, { type: SourceType; citations: number; hosts: number; top: Array<{ host: string; prompts: number }> }>();
+    for (const row of rankedSources) {
+      const t = typeTotals.get(row.type) || { type: row.type, citations: 0, hosts: 0, top: [] };
+      t.citations += row.citations;
+      t.hosts += 1;
+      if (t.top.length < 5) t.top.push({ host: row.host, prompts: row.prompts.size });
+      typeTotals.set(row.type, t);
+    }
+    const sourceLeaderboard = {
+      top: rankedSources.slice(0, 20).map(row => ({
+        host: row.host,
+        type: row.type,
+        prompts: row.prompts.size,
+        citations: row.citations,
+        engines: [...row.engines],
+      })),
+      byType: [...typeTotals.values()].sort((a, b) => b.citations - a.citations),
+      byCategory: Object.fromEntries(
+        (["brainstorming", "identified_problem", "solution_comparing", "info_seeking"] as PromptCategory[]).map(cat => [
+          cat,
+          rankedSources
+            .filter(row => row.byCategory[cat])
+            .sort((a, b) => (b.byCategory[cat] || 0) - (a.byCategory[cat] || 0))
+            .slice(0, 5)
+            .map(row => ({ host: row.host, type: row.type, prompts: row.byCategory[cat] || 0 })),
+        ])
+      ) as Record<PromptCategory, Array<{ host: string; type: SourceType; prompts: number }>>,
+    };
+
+    // How AI talks about you: sentiment/role mix + recurring claims across answers
+    const sentimentMix: Record<BrandSentiment, number> = { positive: 0, neutral: 0, negative: 0 };
+    const roleMix: Record<BrandRole, number> = { top_pick: 0, alternative: 0, warning: 0 };
+    const claimCounts = new Map<string, { claim: string; count: number }>();
+    for (const { framing } of framings) {
+      sentimentMix[framing.sentiment] += 1;
+      roleMix[framing.role] += 1;
+      for (const claim of framing.claims || []) {
+        const key = claim.trim().toLowerCase();
+        const prev = claimCounts.get(key);
+        if (prev) prev.count += 1;
+        else claimCounts.set(key, { claim: claim.trim(), count: 1 });
+      }
+    }
+    const howAiTalks = {
+      answers: framings.length,
+      sentiment: sentimentMix,
+      roles: roleMix,
+      topClaims: [...claimCounts.values()].sort((a, b) => b.count - a.count).slice(0, 8),
+      cautions: framings
+        .filter(x => x.framing.role === "warning" || x.framing.sentiment === "negative")
+        .slice(0, 5)
+        .map(x => ({ promptId: x.promptId, prompt: x.prompt, engine: x.engine, claims: x.framing.claims || [] })),
+    };
+
     // Competitor Pressure Index: avg competitorPressure across prompts
     const competitorPressureIdx =
       computed.reduce((s, c) => s + c.competitorPressure, 0) / total;
@@ -416,7 +549,7 @@ export async function POST(
       .forEach(cat => {
         const arr = computed.filter(c => c.category === cat);
         const denom = arr.length || 1;
-        const presencePct = arr.filter(c => c.googleHas || c.bingHas).length / denom;
+        const presencePct = arr.reduce((s, c) => s + c.presenceRate, 0) / denom;
         const pressure = arr.reduce((s, c) => s + c.competitorPressure, 0) / denom;
         const topGaps = arr.sort((a, b) => b.opportunityScore - a.opportunityScore)
           .slice(0, 5)
@@ -430,6 +563,8 @@ export async function POST(
       prompt: c.prompt,
       category: c.category,
       channels: { ...c.channels },
+      channelRates: { ...c.channelRates },
+      organic: c.organic,
       competitorCount: c.competitorHitsCount,
     }));
 
@@ -446,9 +581,9 @@ export async function POST(
       .map(cat => {
         const arr = computed.filter(c => c.category === cat);
         const denom = arr.length || 1;
-        const present = arr.filter(c => c.googleHas || c.bingHas).length / denom;
-        const competitorOnly = arr.filter(c => !c.googleHas && !c.bingHas && c.competitorHitsCount > 0).length / denom;
-        const white = arr.filter(c => !c.googleHas && !c.bingHas && c.competitorHitsCount === 0).length / denom;
+        const present = arr.reduce((s, c) => s + c.presenceRate, 0) / denom;
+        const competitorOnly = arr.reduce((s, c) => s + (1 - c.presenceRate) * c.competitorRate, 0) / denom;
+        const white = arr.reduce((s, c) => s + (1 - c.presenceRate) * (1 - c.competitorRate), 0) / denom;
         return { category: cat, presentPct: present, competitorOnlyPct: competitorOnly, whiteSpacePct: white };
       });
 
@@ -456,7 +591,7 @@ export async function POST(
       .map(cat => {
         const arr = computed.filter(c => c.category === cat);
         const denom = arr.length || 1;
-        const presence = arr.filter(c => c.googleHas || c.bingHas).length / denom;
+        const presence = arr.reduce((s, c) => s + c.presenceRate, 0) / denom;
         const pressure = arr.reduce((s, c) => s + c.competitorPressure, 0) / denom;
         return { category: cat, presence, pressure };
       });
@@ -465,12 +600,17 @@ export async function POST(
     const llmInput = {
       company: { name: profile.companyName, website: profile.websiteUrl },
       competitors: (profile.competitorUrls || []),
+      aiFraming: { sentiment: howAiTalks.sentiment, roles: howAiTalks.roles, topClaims: howAiTalks.topClaims },
+      thirdPartySources: sourceLeaderboard.top.slice(0, 10).map(s => ({ host: s.host, type: s.type, prompts: s.prompts })),
       prompts: computed.map(c => ({
         id: c.promptId,
         text: c.prompt,
         category: c.category,
         channels: { chatgpt: c.channels.chatgpt, perplexity: c.channels.perplexity, googleAIO: c.channels.googleAIO },
+        presenceRate: +c.presenceRate.toFixed(2),
         competitorDomains: c.competitorDomains,
+        mentioned: c.mentioned,
+        cited: c.cited,
         scores: {
           missingPresence: c.missingPresence,
           competitorPressure: c.competitorPressure,
@@ -479,7 +619,6 @@ export async function POST(
       })),
       rules: {
         wording: [
-          "DO NOT mention 'Bing' anywhere. Say 'ChatGPT' instead.",
           "DO NOT mention 'Google Page 1' or 'page rank'. Say 'Google AI Overview' instead.",
           "Avoid the words 'SERP' or 'rank'. Use 'visible', 'present', or 'discovered via AI'.",
           "Use AI-centric lingo: channels are ChatGPT, Perplexity, Google AI Overview.",
@@ -517,6 +656,7 @@ export async function POST(
       [
         "You are a GEO (Generative Engine Optimization) strategist.",
         "You will receive prompts, their categories, channel visibility booleans, competitor domains, and precomputed scores.",
+        "'mentioned' means the brand is named in the answer text; 'cited' means its website is linked as a source.",
         "Your job is to GROUP (clusters) and WRITE (insights narrative).",
         "DO NOT mention 'Bing', 'Google Page 1', 'rank', or 'SERP'.",
         "Use 'ChatGPT', 'Perplexity', and 'Google AI Overview' terminology.",
@@ -528,7 +668,7 @@ export async function POST(
 
     try {
       const resp = await openai.responses.create({
-        model: "gpt-4.1",
+        model: REPORT_MODEL,
         instructions,
         input: JSON.stringify(llmInput),
         temperature: 0.5,
@@ -596,6 +736,12 @@ export async function POST(
       missingPresence: c.missingPresence,
       competitorPressure: c.competitorPressure,
       channels: { ...c.channels },
+      channelRates: { ...c.channelRates },
+      organic: c.organic,
+      presenceRate: +c.presenceRate.toFixed(3),
+      mentioned: c.mentioned,
+      cited: c.cited,
+      ...(c.firstMentionRank ? { firstMentionRank: c.firstMentionRank } : {}),
     }));
 
     // ---------- Next 10 Actions (detailed) ----------
@@ -621,6 +767,7 @@ export async function POST(
           scoreBreakdown: {
             formula: "opportunity = missingPresence × (1 + 0.6×competitorPressure) × categoryWeight",
             missingPresence: c.missingPresence,
+            maxMissingPresence: +maxPresenceScore.toFixed(3),
             competitorPressure: c.competitorPressure,
             categoryWeight: c.categoryWeight,
             categoryWeightReason: wReason,
@@ -651,14 +798,46 @@ export async function POST(
         };
       });
 
+    // Inputs the report was generated from (kept with the version)
+    const latestRun = await getLatestRun(id);
+    const usedResults: Record<string, Partial<Record<EngineId, number>>> = {};
+    for (const p of prompts) {
+      for (const e of enabledEngines) {
+        const at = resultsVal[p.id]?.[e.id]?.updatedAt;
+        if (typeof at === "number") (usedResults[p.id] ||= {})[e.id] = at;
+      }
+    }
+    const resultsAsOf = Math.max(0, ...Object.values(usedResults).flatMap((r) => Object.values(r)));
+    const inputs: ReportInputs = {
+      ...(latestRun ? { runId: latestRun.runId } : {}),
+      ...(resultsAsOf ? { resultsAsOf } : {}),
+      promptIds: prompts.map((p) => p.id),
+      results: usedResults,
+      prompts: computed.length,
+      engines: enabledEngines.map((e) => e.id),
+      companyName: profile.companyName,
+      websiteUrl: profile.websiteUrl,
+      competitorUrls: profile.competitorUrls || [],
+      model: REPORT_MODEL,
+    };
+    const versionId = newReportVersionId(id);
+
     // Assemble final report object
     const report = {
+      versionId,
+      inputs,
       generatedAt: Date.now(),
       metrics: {
         sov, // 0..1
         whiteSpacePct, // 0..1
         competitorPressureIdx, // 0..1
         topMoneyPrompts,
+        mentionedPct, // 0..1 — company named in answer text
+        citedPct, // 0..1 — company URL cited
+        mentionedNotCitedPct, // 0..1
+        citedNotMentionedPct, // 0..1
+        avgFirstMentionRank, // 0 = never mentioned
+        topCompetitorMentions,
       },
       categorySummaries,
       clusters,
@@ -670,23 +849,34 @@ export async function POST(
         bubbleMatrix,
         funnelSov,
         radarCategory,
+        sourceLeaderboard,
       },
       _meta: {
         companyName: profile.companyName,
         websiteUrl: profile.websiteUrl,
         totalPrompts: computed.length,
       },
-      insights: llmInsights,
+      insights: { ...llmInsights, howAiTalks },
     };
 
-    // Persist at /reports/overall
-    await set(child(profileRef, "reports/overall"), report);
+    // Persist as a new version (also the latest at /reports/overall)
+    await saveReportVersion(id, { versionId, generatedAt: report.generatedAt, sov, inputs }, report);
 
-    return NextResponse.json({ success: true, data: { report: "overall" } });
+    const data = { report: "overall", versionId };
+    if (claimed) {
+      await completeIdempotencyKey(id, claimed, "report-overall", data);
+      claimed = null;
+    }
+    return NextResponse.json({ success: true, data });
   } catch (err: any) {
+    if (err instanceof IdempotencyKeyConflictError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 409 });
+    }
     return NextResponse.json(
       { success: false, error: err?.message ?? "Internal error" },
       { status: 500 }
     );
+  } finally {
+    if (claimed) await releaseIdempotencyKey(id, claimed).catch(() => {});
   }
 }
@@ -1,64 +1,67 @@
 // app/api/profiles/[id]/report/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { initializeApp, getApps } from "firebase/app";
-import { getDatabase, ref, get, set, child } from "firebase/database";
 import OpenAI from "openai";
+import { getProfile, getPrompt, getPromptResults, savePromptReport } from "@/lib/repository";
+import type { StoredEngineResult } from "@/lib/engines";
+import {
+  IdempotencyKeyConflictError,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  idempotencyKeyFrom,
+  releaseIdempotencyKey,
+} from "@/lib/run-lock";
 
 export const runtime = "nodejs";
 
-if (!getApps().length) {
-  initializeApp({
-    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-    databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL!,
-    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-    storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-    messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
-  });
-}
-const db = getDatabase();
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
 
+// Header Idempotency-Key: a repeated request replays the first result instead of regenerating.
 export async function POST(
   req: NextRequest,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const { id } = await ctx.params;
+  const idemKey = idempotencyKeyFrom(req);
+  let claimed: string | null = null;
+
   try {
-    const { id } = await ctx.params;
+    if (idemKey) {
+      const prior = await claimIdempotencyKey(id, idemKey, "report-prompt");
+      if (prior) {
+        return NextResponse.json({ success: true, data: prior.data ?? null, duplicate: true, pending: prior.status === "pending" });
+      }
+      claimed = idemKey;
+    }
+
     const { promptId } = await req.json();
     if (!promptId) {
       return NextResponse.json({ success: false, error: "Missing promptId" }, { status: 400 });
     }
 
-    const profileRef = ref(db, `profiles/${id}`);
-    const profSnap = await get(profileRef);
-    if (!profSnap.exists()) {
+    const profile = await getProfile(id);
+    if (!profile) {
       return NextResponse.json({ success: false, error: "Profile not found" }, { status: 404 });
     }
-    const profile = profSnap.val() as {
-      companyName: string;
-      websiteUrl: string;
-      competitorUrls?: string[];
-    };
 
-    const [category, key] = String(promptId).split(":");
-    const pSnap = await get(child(profileRef, `prompts/${category}/${key}`));
-    if (!pSnap.exists()) {
+    const prompt = await getPrompt(id, String(promptId));
+    if (!prompt) {
       return NextResponse.json({ success: false, error: "Prompt not found" }, { status: 404 });
     }
-    const promptText = (pSnap.val() as any)?.text as string;
+    const promptText = prompt.text;
 
-    const rSnap = await get(child(profileRef, `results/${promptId}`));
-    const results = rSnap.val() || {};
-    const g = results.google || {};
-    const b = results.bing || {};
+    const results = await getPromptResults(id, String(promptId));
+    const g: StoredEngineResult = results.google || {};
+    const b: StoredEngineResult = results.bing || {};
+    const bingChecked = results.bing?.status === "done"; // Bing can be switched off per profile
+    const cg: StoredEngineResult = results.chatgpt || {};
+    const px: StoredEngineResult = results.perplexity || {};
+    const aio: Partial<NonNullable<StoredEngineResult["aiOverview"]>> = g.aiOverview || {};
 
     const competitors = (profile.competitorUrls || []).join(", ") || "None provided";
 
     const instructions = [
       "You are a strategic content & SEO/GEO analyst.",
-      "Create an opportunity report based on one search prompt and its SERP presence on Google and Bing.",
+      `Create an opportunity report based on one search prompt, its SERP presence on Google${bingChecked ? " and Bing" : ""}, the Google AI Overview, and the answers ChatGPT and Perplexity give for it.`,
       "Be concise but insightful; use markdown headings and bullet points.",
       "",
       "Sections to include:",
@@ -79,15 +82,47 @@ export async function POST(
       "Google Top 10 URLs:",
       ...(Array.isArray(g.top10) ? g.top10.map((u: string, i: number) => `${i + 1}. ${u}`) : ["(none)"]),
       "",
-      "Bing Top 10 URLs:",
-      ...(Array.isArray(b.top10) ? b.top10.map((u: string, i: number) => `${i + 1}. ${u}`) : ["(none)"]),
+      ...(bingChecked
+        ? ["Bing Top 10 URLs:", ...(Array.isArray(b.top10) ? b.top10.map((u: string, i: number) => `${i + 1}. ${u}`) : ["(none)"]), ""]
+        : []),
+      "Google AI Overview:",
+      ...(aio.present && Array.isArray(aio.textBlocks) && aio.textBlocks.length
+        ? aio.textBlocks.map((t: string) => `- ${t}`)
+        : ["(not shown for this query)"]),
+      "",
+      "Google AI Overview references:",
+      ...(Array.isArray(aio.references) && aio.references.length
+        ? aio.references.map((r: any, i: number) => `${i + 1}. ${r.link}`)
+        : ["(none)"]),
+      "",
+      "ChatGPT answer:",
+      typeof cg.answer === "string" && cg.answer ? cg.answer : "(none)",
+      "",
+      "ChatGPT cited URLs:",
+      ...(Array.isArray(cg.citations) && cg.citations.length
+        ? cg.citations.map((u: string, i: number) => `${i + 1}. ${u}`)
+        : ["(none)"]),
+      "",
+      "Perplexity answer:",
+      typeof px.answer === "string" && px.answer ? px.answer : "(none)",
+      "",
+      "Perplexity cited URLs:",
+      ...(Array.isArray(px.citations) && px.citations.length
+        ? px.citations.map((u: string, i: number) => `${i + 1}. ${u}`)
+        : ["(none)"]),
       "",
       `Company present on Google page 1: ${g.hasCompany ? "Yes" : "No"}`,
-      `Company present on Bing page 1: ${b.hasCompany ? "Yes" : "No"}`,
+      ...(bingChecked ? [`Company present on Bing page 1: ${b.hasCompany ? "Yes" : "No"}`] : []),
+      `Company cited in Google AI Overview: ${aio.hasCompany ? "Yes" : "No"}`,
+      `Company cited by ChatGPT: ${cg.hasCompany ? "Yes" : "No"}`,
+      `Company cited by Perplexity: ${px.hasCompany ? "Yes" : "No"}`,
       "",
       `Competitors list: ${competitors}`,
       `Competitors appearing (Google): ${(g.competitorsHit || []).join(", ") || "none"}`,
-      `Competitors appearing (Bing): ${(b.competitorsHit || []).join(", ") || "none"}`,
+      ...(bingChecked ? [`Competitors appearing (Bing): ${(b.competitorsHit || []).join(", ") || "none"}`] : []),
+      `Competitors cited (Google AI Overview): ${(aio.competitorsHit || []).join(", ") || "none"}`,
+      `Competitors cited (ChatGPT): ${(cg.competitorsHit || []).join(", ") || "none"}`,
+      `Competitors cited (Perplexity): ${(px.competitorsHit || []).join(", ") || "none"}`,
       "",
       "Write the report in markdown.",
     ].join("\n");
@@ -110,15 +145,24 @@ export async function POST(
             .join("")
         : "");
 
-    await set(child(profileRef, `reports/${promptId}`), {
+    await savePromptReport(id, {
       promptId,
       prompt: promptText,
       markdown,
       createdAt: Date.now(),
     });
 
+    if (claimed) {
+      await completeIdempotencyKey(id, claimed, "report-prompt", { promptId });
+      claimed = null;
+    }
     return NextResponse.json({ success: true, data: { promptId } });
   } catch (err: any) {
+    if (err instanceof IdempotencyKeyConflictError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 409 });
+    }
     return NextResponse.json({ success: false, error: err?.message ?? "Internal error" }, { status: 500 });
+  } finally {
+    if (claimed) await releaseIdempotencyKey(id, claimed).catch(() => {});
   }
 }
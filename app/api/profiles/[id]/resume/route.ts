@@ -0,0 +1,26 @@
+// app/api/profiles/[id]/resume/route.ts
+import { NextRequest, NextResponse, after } from "next/server";
+import { kickWorker, resumeAuditJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+// Re-queue a failed or cancelled audit from its last completed step.
+export async function POST(
+  _req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const job = await resumeAuditJob(id);
+    if (!job) {
+      return NextResponse.json({ success: false, error: "No failed or cancelled job to resume" }, { status: 409 });
+    }
+    after(() => kickWorker());
+    return NextResponse.json({ success: true, data: { jobId: job.id, steps: job.steps } }, { status: 202 });
+  } catch (err: any) {
+    return NextResponse.json(
+      { success: false, error: err?.message ?? "Internal error" },
+      { status: 500 }
+    );
+  }
+}
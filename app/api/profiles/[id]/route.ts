@@ -0,0 +1,135 @@
+// app/api/profiles/[id]/route.ts
+import { NextRequest, NextResponse, after } from "next/server";
+import { serverTimestamp } from "@/lib/store";
+import { getProfile, updateProfile } from "@/lib/repository";
+import { EDITABLE_FIELDS, REQUIRED_FIELDS, planProfileEdit } from "@/lib/profile-edit";
+import { resolvePipeline } from "@/lib/pipeline";
+import { SchemaError } from "@/lib/schema";
+import { rematchStoredResults, rerunSerpSubset } from "@/lib/serp-runner";
+import { saveManualSiteContent, scrapeProfileSite } from "@/lib/firecrawl";
+import { enrichPromptVolumes } from "@/lib/volume";
+import { clearCancel, watchCancel } from "@/lib/cancel";
+import { classifyError, endRunLog, logEvent, startRunLog, timed } from "@/lib/run-log";
+import { kickWorker } from "@/lib/jobs";
+import { acquireRunLock } from "@/lib/run-lock";
+
+export const runtime = "nodejs";
+
+// Edit a profile in place: body { patch: { companyName?, websiteUrl?, … }, by? }.
+// Only fields that changed are written; prompts, results and reports stay.
+// Follow-up runs in the background under the run lock:
+//   website → re-scrape; company/competitors → re-match stored results;
+//   region/samples → re-check every pair; newly enabled engines → check those;
+//   volume turned on / region → fetch missing or other-location volumes.
+// Required fields (company name, website) can't be cleared (400).
+// While another run holds the lock, edits that need follow-up are refused (409).
+export async function PATCH(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const body = await req.json().catch(() => ({}));
+    const raw = (body?.patch && typeof body.patch === "object" ? body.patch : {}) as Record<string, unknown>;
+    const owner = typeof body?.by === "string" && body.by.trim() ? body.by.trim() : "unknown";
+
+    const before = await getProfile(id);
+    if (!before) return NextResponse.json({ success: false, error: "Profile not found" }, { status: 404 });
+
+    const patch = Object.fromEntries(EDITABLE_FIELDS.filter((f) => f in raw).map((f) => [f, raw[f] ?? null]));
+    const cleared = REQUIRED_FIELDS.filter((f) => f in patch && (typeof patch[f] !== "string" || !patch[f].trim()));
+    if (cleared.length) {
+      return NextResponse.json({ success: false, error: `${cleared.join(", ")} can't be empty` }, { status: 400 });
+    }
+    const plan = planProfileEdit(before, patch);
+    if (!plan.changed.length) return NextResponse.json({ success: true, data: { plan } });
+
+    const changes = Object.fromEntries(plan.changed.map((f) => [f, patch[f]]));
+    const followUp = plan.rescrape || plan.rematch || plan.recheck !== null || plan.revolume;
+    if (!followUp) {
+      await updateProfile(id, { ...changes, updatedAt: serverTimestamp() });
+      return NextResponse.json({ success: true, data: { plan } });
+    }
+
+    const runId = `edit-${Date.now()}`;
+    const lock = await acquireRunLock(id, { runId, kind: "edit", owner });
+    if (!lock.acquired) {
+      return NextResponse.json(
+        { success: false, error: "Another run is in progress; try the edit again when it finishes", data: { run: lock.lock } },
+        { status: 409 }
+      );
+    }
+
+    try {
+      await updateProfile(id, { ...changes, updatedAt: serverTimestamp() });
+    } catch (err) {
+      await lock.release();
+      throw err;
+    }
+
+    after(async () => {
+      startRunLog(id, "edit", runId);
+      await clearCancel(id);
+      const cancel = watchCancel(id);
+      try {
+        await logEvent(id, { step: "edit", message: `Profile edited: ${plan.changed.join(", ")}` });
+        if (plan.rescrape) {
+          // The scrape steps set status/progress for the audit view; put them back afterwards
+          const pipeline = resolvePipeline({ ...before, ...changes });
+          try {
+            await timed(id, { step: "scrape", message: "Re-scrape after edit", provider: pipeline.scrape ? "firecrawl" : undefined }, () =>
+              pipeline.scrape ? scrapeProfileSite(id) : saveManualSiteContent(id, pipeline.positioningText || "")
+            );
+          } finally {
+            await updateProfile(id, { status: before.status ?? null, progress: before.progress ?? null });
+          }
+        }
+        if (plan.rematch) {
+          const { rematched, samplesKept } = await rematchStoredResults(id);
+          await logEvent(id, {
+            step: "edit",
+            status: "ok",
+            message:
+              `Re-matched ${rematched} stored result(s)` +
+              (samplesKept ? `; ${samplesKept} kept their sampled rates (older samples can't be re-judged; re-check to refresh)` : ""),
+          });
+        }
+        if (plan.revolume) {
+          // Optional like the audit's volume step: a failure is logged, the edit goes on
+          await timed(id, { step: "volume", message: "Volume after edit", provider: "dataforseo" }, () =>
+            enrichPromptVolumes(id)
+          ).catch(() => {});
+        }
+        if (plan.recheck) {
+          const filter = plan.recheck === "all" ? {} : { engines: plan.recheck };
+          await rerunSerpSubset(id, filter, runId, cancel.signal);
+        }
+        await logEvent(id, { step: "edit", status: "ok", message: "Edit follow-up finished" });
+      } catch (err) {
+        const errorClass = classifyError(err);
+        await logEvent(id, {
+          step: "edit",
+          level: errorClass === "cancelled" ? "warn" : "error",
+          status: errorClass === "cancelled" ? "cancelled" : "error",
+          errorClass,
+          message: `Edit follow-up stopped: ${err instanceof Error ? err.message : String(err)}`,
+        });
+      } finally {
+        cancel.dispose();
+        await endRunLog(id, runId);
+        await lock.release();
+        await kickWorker(); // audits deferred by the lock
+      }
+    });
+
+    return NextResponse.json({ success: true, data: { plan, runId } }, { status: 202 });
+  } catch (err) {
+    if (err instanceof SchemaError) {
+      return NextResponse.json({ success: false, error: err.message, issues: err.issues }, { status: 400 });
+    }
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
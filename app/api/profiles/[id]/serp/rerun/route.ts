@@ -0,0 +1,73 @@
+// app/api/profiles/[id]/serp/rerun/route.ts
+import { NextRequest, NextResponse, after } from "next/server";
+import { RerunFilter, rerunSerpSubset } from "@/lib/serp-runner";
+import { clearCancel, isCancelError, watchCancel } from "@/lib/cancel";
+import { endRunLog, startRunLog } from "@/lib/run-log";
+import { kickWorker } from "@/lib/jobs";
+import { acquireRunLock } from "@/lib/run-lock";
+import { isEngineId } from "@/lib/engines";
+
+export const runtime = "nodejs";
+
+const CATEGORIES = ["brainstorming", "identified_problem", "solution_comparing", "info_seeking"];
+
+/** Keep only well-formed criteria (RTDB rejects undefined, so absent keys are omitted). */
+function parseFilter(body: Record<string, unknown>): RerunFilter {
+  const filter: RerunFilter = {};
+  if (typeof body.category === "string" && CATEGORIES.includes(body.category)) filter.category = body.category;
+  if (Array.isArray(body.engines)) {
+    const engines = body.engines.filter(isEngineId);
+    if (engines.length) filter.engines = engines;
+  }
+  if (typeof body.text === "string" && body.text.trim()) filter.text = body.text.trim();
+  const days = Number(body.olderThanDays);
+  if (Number.isFinite(days) && days > 0) filter.olderThanDays = days;
+  if (Array.isArray(body.promptIds)) {
+    const ids = body.promptIds.filter((x): x is string => typeof x === "string" && x.includes(":"));
+    if (ids.length) filter.promptIds = ids;
+  }
+  if (body.forceRefresh === true) filter.forceRefresh = true;
+  return filter;
+}
+
+// Targeted rerun: body { category?, engines?, text?, olderThanDays?, promptIds?, forceRefresh?, by? }.
+// Progress is written to profiles/{id}/rerun; the profile status is not reset.
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const body = await req.json().catch(() => ({}));
+    const filter = parseFilter(body || {});
+    const owner = typeof body?.by === "string" && body.by.trim() ? body.by.trim() : "unknown";
+
+    const runId = `rerun-${Date.now()}`;
+    const lock = await acquireRunLock(id, { runId, kind: "rerun", owner });
+    if (!lock.acquired) {
+      return NextResponse.json({ success: true, data: { run: lock.lock }, duplicate: true });
+    }
+
+    startRunLog(id, "rerun", runId);
+    await clearCancel(id);
+    const cancel = watchCancel(id);
+    try {
+      const data = await rerunSerpSubset(id, filter, runId, cancel.signal);
+      return NextResponse.json({ success: true, data });
+    } finally {
+      cancel.dispose();
+      await endRunLog(id, runId);
+      await lock.release();
+      after(() => kickWorker()); // audits deferred by the lock
+    }
+  } catch (err: any) {
+    if (isCancelError(err)) {
+      return NextResponse.json({ success: false, error: "Cancelled" }, { status: 409 });
+    }
+    const status = err?.message === "Profile not found" ? 404 : 500;
+    return NextResponse.json(
+      { success: false, error: err?.message ?? "Internal error" },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+// app/api/profiles/[id]/serp/retry-failed/route.ts
+import { NextRequest, NextResponse, after } from "next/server";
+import { retryFailedSerpForProfile } from "@/lib/serp-runner";
+import { clearCancel, isCancelError, watchCancel } from "@/lib/cancel";
+import { endRunLog, startRunLog } from "@/lib/run-log";
+import { kickWorker } from "@/lib/jobs";
+import { acquireRunLock } from "@/lib/run-lock";
+
+export const runtime = "nodejs";
+
+// Re-run only the engine/prompt pairs that ended in error. Skipped (returns the
+// active run, duplicate: true) while another run holds the profile lock.
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const body = await req.json().catch(() => ({}));
+    const owner = typeof body?.by === "string" && body.by.trim() ? body.by.trim() : "unknown";
+    const runId = `retry-failed-${Date.now()}`;
+    const lock = await acquireRunLock(id, { runId, kind: "retry-failed", owner });
+    if (!lock.acquired) {
+      return NextResponse.json({ success: true, data: { run: lock.lock }, duplicate: true });
+    }
+
+    startRunLog(id, "retry-failed", runId);
+    await clearCancel(id);
+    const cancel = watchCancel(id);
+    try {
+      const data = await retryFailedSerpForProfile(id, cancel.signal);
+      return NextResponse.json({ success: true, data });
+    } finally {
+      cancel.dispose();
+      await endRunLog(id, runId);
+      await lock.release();
+      after(() => kickWorker()); // audits deferred by the lock
+    }
+  } catch (err: any) {
+    if (isCancelError(err)) {
+      return NextResponse.json({ success: false, error: "Cancelled" }, { status: 409 });
+    }
+    const status = err?.message === "Profile not found" ? 404 : 500;
+    return NextResponse.json(
+      { success: false, error: err?.message ?? "Internal error" },
+      { status }
+    );
+  }
+}
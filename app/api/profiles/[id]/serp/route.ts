@@ -1,21 +1,75 @@
 // app/api/profiles/[id]/serp/route.ts
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { runSerpChecksForProfile } from "@/lib/serp-runner";
+import { clearCancel, isCancelError, watchCancel } from "@/lib/cancel";
+import { endRunLog, startRunLog } from "@/lib/run-log";
+import { kickWorker } from "@/lib/jobs";
+import {
+  acquireRunLock,
+  IdempotencyKeyConflictError,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  idempotencyKeyFrom,
+  releaseIdempotencyKey,
+} from "@/lib/run-lock";
 
 export const runtime = "nodejs";
 
+// Runs every engine for every prompt. Holds the profile run lock: while another
+// run is active, that run is returned instead (duplicate: true).
 export async function POST(
-  _req: NextRequest,
+  req: NextRequest,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const { id } = await ctx.params;
+  const key = idempotencyKeyFrom(req);
+  let claimed: string | null = null;
+
   try {
-    const { id } = await ctx.params;
-    const data = await runSerpChecksForProfile(id);
-    return NextResponse.json({ success: true, data });
+    if (key) {
+      const prior = await claimIdempotencyKey(id, key, "serp");
+      if (prior) {
+        return NextResponse.json({ success: true, data: prior.data ?? null, duplicate: true, pending: prior.status === "pending" });
+      }
+      claimed = key;
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const owner = typeof body?.by === "string" && body.by.trim() ? body.by.trim() : "unknown";
+    const runId = `serp-${Date.now()}`;
+    const lock = await acquireRunLock(id, { runId, kind: "serp", owner });
+    if (!lock.acquired) {
+      return NextResponse.json({ success: true, data: { run: lock.lock }, duplicate: true });
+    }
+
+    startRunLog(id, "serp", runId);
+    await clearCancel(id);
+    const cancel = watchCancel(id);
+    try {
+      const data = await runSerpChecksForProfile(id, cancel.signal);
+      if (claimed) {
+        await completeIdempotencyKey(id, claimed, "serp", data);
+        claimed = null;
+      }
+      return NextResponse.json({ success: true, data });
+    } finally {
+      cancel.dispose();
+      await endRunLog(id, runId);
+      await lock.release();
+      after(() => kickWorker()); // audits deferred by the lock
+    }
   } catch (err: any) {
+    if (err instanceof IdempotencyKeyConflictError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 409 });
+    }
+    if (isCancelError(err)) {
+      return NextResponse.json({ success: false, error: "Cancelled" }, { status: 409 });
+    }
     return NextResponse.json(
       { success: false, error: err?.message ?? "Internal error" },
       { status: 500 }
     );
+  } finally {
+    if (claimed) await releaseIdempotencyKey(id, claimed).catch(() => {});
   }
 }
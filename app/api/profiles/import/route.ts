@@ -0,0 +1,28 @@
+// app/api/profiles/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { BundleError, importProfileBundle } from "@/lib/bundle";
+import { SchemaError } from "@/lib/schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Recreate an exported profile bundle under the importing user: body { bundle, by }.
+// The profile gets a new id; invalid bundles are rejected whole (400 + issues).
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const owner = typeof body?.by === "string" ? body.by.trim() : "";
+    if (!owner) return NextResponse.json({ success: false, error: "by (importing user) is required" }, { status: 400 });
+
+    const data = await importProfileBundle(body?.bundle, owner);
+    return NextResponse.json({ success: true, data }, { status: 201 });
+  } catch (err) {
+    if (err instanceof BundleError || err instanceof SchemaError) {
+      return NextResponse.json({ success: false, error: err.message, issues: err.issues }, { status: 400 });
+    }
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
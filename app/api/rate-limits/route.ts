@@ -0,0 +1,11 @@
+// app/api/rate-limits/route.ts
+import { NextResponse } from "next/server";
+import { rateLimitStatus } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Shared provider token buckets (queue depth for the dashboard).
+export async function GET() {
+  return NextResponse.json({ success: true, data: await rateLimitStatus() });
+}
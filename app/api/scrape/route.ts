@@ -16,14 +16,11 @@ export async function POST(req: NextRequest) {
     // Single page scrape (or when blogUrl not provided)
     if (onlyMarkdown || mode === "page" || !blogUrl) {
       const markdown = await scrapePage(url);
-      // Log the markdown to server console
-      console.log("──── Firecrawl Markdown (page) ────\n", markdown);
       return NextResponse.json({ success: true, data: { markdown } });
     }
 
     // Product + blog scrape
     const scraped = await scrapeSite(url, blogUrl);
-    console.log("──── Firecrawl Markdown (product) ────\n", scraped.productMarkdown);
     return NextResponse.json({
       success: true,
       data: { productMarkdown: scraped.productMarkdown, blogTitles: scraped.blogTitles },
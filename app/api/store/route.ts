@@ -0,0 +1,76 @@
+// app/api/store/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getStore, storageBackendName } from "@/lib/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Browser access to the local store (lib/client-store.ts). With the Firebase
+// backend the browser talks to the database directly, so this route is off.
+const ALLOWED_ROOTS = ["profiles", "history", "jobs"];
+
+function pathFrom(req: NextRequest): string | null {
+  const path = (req.nextUrl.searchParams.get("path") || "").replace(/^\/+|\/+$/g, "");
+  const root = path.split("/")[0];
+  if (!ALLOWED_ROOTS.includes(root) || path.split("/").some((s) => !s || s === "." || s === "..")) return null;
+  return path;
+}
+
+function guard(req: NextRequest): { path: string } | NextResponse {
+  if (storageBackendName() !== "local") {
+    return NextResponse.json({ success: false, error: "Local store is not enabled" }, { status: 404 });
+  }
+  const path = pathFrom(req);
+  if (!path) {
+    return NextResponse.json({ success: false, error: "Invalid path" }, { status: 400 });
+  }
+  return { path };
+}
+
+async function valueFrom(req: NextRequest): Promise<unknown> {
+  const body = await req.json().catch(() => ({}));
+  return body?.value ?? null;
+}
+
+// ?path=profiles/abc[&limit=50] → value at path (limit: last n children by key)
+export async function GET(req: NextRequest) {
+  const g = guard(req);
+  if (g instanceof NextResponse) return g;
+  let value = await getStore().get(g.path);
+  const limit = Number(req.nextUrl.searchParams.get("limit") || 0);
+  if (limit > 0 && value && typeof value === "object" && !Array.isArray(value)) {
+    const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    value = Object.fromEntries(entries.slice(-limit));
+  }
+  return NextResponse.json({ success: true, data: value });
+}
+
+export async function PUT(req: NextRequest) {
+  const g = guard(req);
+  if (g instanceof NextResponse) return g;
+  try {
+    await getStore().set(g.path, await valueFrom(req));
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return NextResponse.json({ success: false, error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+  }
+}
+
+// Push a child with a new time-ordered key → { key }
+export async function POST(req: NextRequest) {
+  const g = guard(req);
+  if (g instanceof NextResponse) return g;
+  try {
+    const key = await getStore().push(g.path, await valueFrom(req));
+    return NextResponse.json({ success: true, data: { key } });
+  } catch (err) {
+    return NextResponse.json({ success: false, error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const g = guard(req);
+  if (g instanceof NextResponse) return g;
+  await getStore().remove(g.path);
+  return NextResponse.json({ success: true });
+}
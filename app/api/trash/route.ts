@@ -0,0 +1,71 @@
+// app/api/trash/route.ts
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  listTrash,
+  purgePrompt,
+  purgeProfile,
+  restorePrompt,
+  restoreProfile,
+  sweepExpiredTrash,
+  trashPrompt,
+  trashProfile,
+} from "@/lib/trash";
+import { cancelAuditJob } from "@/lib/jobs";
+import { getProfile } from "@/lib/repository";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ACTIVE = ["creating", "queued", "scraping", "generating_prompts", "serp_check"];
+const NOT_FOUND = ["Profile not found", "Prompt not found"];
+
+// One user's trash: GET ?owner=<username> → { retentionDays, profiles, prompts }.
+export async function GET(req: NextRequest) {
+  const owner = req.nextUrl.searchParams.get("owner")?.trim();
+  if (!owner) return NextResponse.json({ success: false, error: "owner is required" }, { status: 400 });
+  try {
+    after(() => sweepExpiredTrash());
+    const data = await listTrash(owner);
+    return NextResponse.json({ success: true, data });
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { action: "trash" | "restore" | "purge", profileId, promptId?, by? }.
+// Without promptId the action applies to the whole profile; trashing a profile
+// also stops its running audit. "purge" only deletes what is already in the trash.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action;
+    const profileId = typeof body?.profileId === "string" ? body.profileId : "";
+    const promptId = typeof body?.promptId === "string" && body.promptId.includes(":") ? body.promptId : null;
+    const by = typeof body?.by === "string" && body.by.trim() ? body.by.trim() : "unknown";
+    if (!profileId || !["trash", "restore", "purge"].includes(action)) {
+      return NextResponse.json({ success: false, error: "action and profileId are required" }, { status: 400 });
+    }
+
+    if (action === "trash") {
+      if (promptId) {
+        await trashPrompt(profileId, promptId, by);
+      } else {
+        const status = (await getProfile(profileId))?.status;
+        if (status && ACTIVE.includes(status)) await cancelAuditJob(profileId, by);
+        await trashProfile(profileId, by);
+      }
+    } else if (action === "restore") {
+      await (promptId ? restorePrompt(profileId, promptId) : restoreProfile(profileId));
+    } else {
+      await (promptId ? purgePrompt(profileId, promptId) : purgeProfile(profileId));
+    }
+    return NextResponse.json({ success: true, data: { action, profileId, promptId } });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const status = NOT_FOUND.includes(message) ? 404 : message.endsWith("is not in the trash") ? 409 : 500;
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+}
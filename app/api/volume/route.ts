@@ -1,6 +1,7 @@
 // app/api/volume/route.ts
 import { NextResponse } from "next/server";
 import OpenAI from "openai";
+import { acquire } from "@/lib/rate-limit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -195,6 +196,7 @@ async function fetchDFS(
       },
     ];
 
+    await acquire("dataforseo");
     const resp = await fetch(
       "https://api.dataforseo.com/v3/ai_optimization/ai_keyword_data/keywords_search_volume/live",
       {
@@ -248,6 +250,7 @@ async function expandWithLLM(originals: string[]): Promise<ExpansionItem[] | nul
     ].join("\n");
 
     const userText = JSON.stringify({ prompts: originals }, null, 2);
+    await acquire("openai");
     const response = await client.responses.create({
       model: "gpt-4.1",
       temperature: 0,
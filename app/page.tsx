@@ -4,7 +4,7 @@
 import * as React from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { Plus, Loader2, Globe, Building2, Users, X, Lock } from 'lucide-react';
+import { Plus, Loader2, Globe, Building2, Users, X, Lock, Upload, Trash2 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
@@ -16,36 +16,24 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 
-// --- Firebase (Client SDK, API-key based) ---
-import { initializeApp, getApps } from 'firebase/app';
-import {
-  getDatabase,
-  ref,
-  onValue,
-  off,
-  push,
-  set,
-  serverTimestamp,
-  DataSnapshot,
-  remove, // <-- NEW: for deleting profiles
-} from 'firebase/database';
+// --- Storage (Firebase or the local store, see lib/client-store.ts) ---
+import { clientStore, serverTimestamp } from '@/lib/client-store';
 
 // NEW: Accounts lib (username -> password)
 import { accounts } from '@/lib/accounts';
+import { DEFAULT_SAMPLES, ENGINES, EngineId, MAX_SAMPLES, resolveEngines, resolveSamples } from '@/lib/engines';
+import {
+  MAX_POSITIONING_CHARS,
+  PipelineSettings,
+  countFixedPrompts,
+  formatFixedPrompts,
+  parseFixedPrompts,
+  resolvePipeline,
+} from '@/lib/pipeline';
+import { EditPlan, describeEditPlan } from '@/lib/profile-edit';
+import type { TrashList } from '@/lib/trash';
 
-// Initialize Firebase (client)
-const firebaseConfig = {
-  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-  databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL!,
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
-};
-
-const app = getApps().length ? getApps()[0] : initializeApp(firebaseConfig);
-const db = getDatabase(app);
+const DEFAULT_ENGINE_IDS: EngineId[] = resolveEngines(null).map((e) => e.id);
 
 // Types
 type ProfileStatus =
@@ -55,7 +43,8 @@ type ProfileStatus =
   | 'generating_prompts'
   | 'serp_check'
   | 'done'
-  | 'error';
+  | 'error'
+  | 'cancelled';
 
 type Profile = {
   id: string;
@@ -69,10 +58,34 @@ type Profile = {
   createdAt: number | { '.sv': 'timestamp' };
   updatedAt: number | { '.sv': 'timestamp' };
   region?: 'sg' | 'us';           // NEW: search region (default 'sg')
+  engines?: EngineId[];           // answer engines to check (registry defaults when absent)
+  samples?: number;               // runs per engine/prompt pair (presence probability)
+  brandAliases?: string[];        // other names the company goes by (mention detection)
+  competitorNames?: Array<{ domain: string; names: string[] }>; // competitor brand names by domain
+  pipeline?: PipelineSettings;    // which audit stages run (full pipeline when absent)
+  deletedAt?: number;             // in the trash (see lib/trash.ts)
 };
 
 type Banner = { type: 'info' | 'success' | 'error'; message: string } | null;
 
+// "hubspot.com: HubSpot, Hub Spot" per line → [{ domain, names }]
+function parseCompetitorNames(text: string): Array<{ domain: string; names: string[] }> {
+  return text
+    .split('\n')
+    .map((line) => {
+      const i = line.indexOf(':');
+      if (i === -1) return null;
+      const domain = line.slice(0, i).trim();
+      const names = line.slice(i + 1).split(',').map((s) => s.trim()).filter(Boolean);
+      return domain && names.length ? { domain, names } : null;
+    })
+    .filter((x): x is { domain: string; names: string[] } => x !== null);
+}
+
+function formatCompetitorNames(rows?: Array<{ domain: string; names?: string[] }>): string {
+  return (rows || []).map((r) => `${r.domain}: ${(r.names || []).join(', ')}`).join('\n');
+}
+
 function classNames(...s: (string | false | undefined)[]) {
   return s.filter(Boolean).join(' ');
 }
@@ -96,6 +109,7 @@ function StatusBadge({ status }: { status: ProfileStatus }) {
     serp_check: { label: 'SERP Check', className: 'bg-stone-300 text-stone-950' },
     done: { label: 'Ready', className: 'bg-emerald-200 text-emerald-950' },
     error: { label: 'Error', className: 'bg-rose-200 text-rose-950' },
+    cancelled: { label: 'Cancelled', className: 'bg-stone-300 text-stone-700' },
   };
   return <Badge className={classNames('rounded-full', map[status].className)}>{map[status].label}</Badge>;
 }
@@ -217,6 +231,13 @@ export default function HomePage() {
 
   const [dialogOpen, setDialogOpen] = React.useState(false);
   const [saving, setSaving] = React.useState(false);
+  const [importing, setImporting] = React.useState(false);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
+
+  // Trash (soft-deleted profiles and prompts)
+  const [trashOpen, setTrashOpen] = React.useState(false);
+  const [trash, setTrash] = React.useState<TrashList | null>(null);
+  const [trashBusy, setTrashBusy] = React.useState<string | null>(null); // item being restored/purged
 
   // Inline banner (replaces toast)
   const [banner, setBanner] = React.useState<Banner>(null);
@@ -228,6 +249,16 @@ export default function HomePage() {
   const [competitors, setCompetitors] = React.useState<string[]>([]);
   const [topicsInput, setTopicsInput] = React.useState(''); // NEW: comma-separated topics
   const [region, setRegion] = React.useState<'sg' | 'us'>('sg'); // NEW: search region
+  const [engineIds, setEngineIds] = React.useState<EngineId[]>(DEFAULT_ENGINE_IDS);
+  const [samples, setSamples] = React.useState<number>(DEFAULT_SAMPLES);
+  const [aliasesInput, setAliasesInput] = React.useState(''); // comma-separated brand aliases
+  const [competitorNamesInput, setCompetitorNamesInput] = React.useState(''); // "domain: Name, Alias" per line
+  // Pipeline stages (see lib/pipeline.ts)
+  const [scrapeEnabled, setScrapeEnabled] = React.useState(true);
+  const [positioningText, setPositioningText] = React.useState('');
+  const [generateEnabled, setGenerateEnabled] = React.useState(true);
+  const [fixedPromptsInput, setFixedPromptsInput] = React.useState(''); // "category: prompt" per line
+  const [volumeEnabled, setVolumeEnabled] = React.useState(true);
 
   // Track a profile being created to show progress inline
   const [creatingProfileId, setCreatingProfileId] = React.useState<string | null>(null);
@@ -240,49 +271,46 @@ export default function HomePage() {
   // Load profiles only after login
   React.useEffect(() => {
     if (!authUser) return;
-    const r = ref(db, 'profiles');
-    const unsub = onValue(
-      r,
-      (snap: DataSnapshot) => {
-        const val = snap.val() || {};
+    return clientStore().watch<Record<string, Profile>>(
+      'profiles',
+      (value) => {
+        const val = value || {};
         const list: Profile[] = Object.entries(val)
           .map(([id, p]: [string, any]) => ({ ...p, id })) // preserve doc id even if DB also has an 'id' field
-          .filter((p: any) => p.owner === authUser); // show only current user's profiles
+          .filter((p: any) => p.owner === authUser && !p.deletedAt); // current user's profiles, trash excluded
         // Sort newest first
         list.sort((a, b) => Number(b.createdAt || 0) - Number(a.createdAt || 0));
         setProfiles(list);
         setLoading(false);
       },
-      (err) => {
-        console.error(err);
-        setLoading(false);
-        setBanner({ type: 'error', message: `Failed to load profiles: ${String(err)}` });
+      {
+        onError: (err) => {
+          console.error(err);
+          setLoading(false);
+          setBanner({ type: 'error', message: `Failed to load profiles: ${String(err)}` });
+        },
       }
     );
-    return () => off(r, 'value', unsub as any);
   }, [authUser]);
 
   // When we’re creating, subscribe to that profile’s progress
   React.useEffect(() => {
     if (!creatingProfileId) return;
-    const r = ref(db, `profiles/${creatingProfileId}`);
-    const unsub = onValue(
-      r,
-      (snap) => {
-        const p = snap.val();
+    return clientStore().watch<Profile>(
+      `profiles/${creatingProfileId}`,
+      (p) => {
         if (!p) return;
         setCreatingProgress(Number(p.progress ?? 0));
         setCreatingStatus(p.status as ProfileStatus);
-        if (p.status === 'done' || p.status === 'error') {
+        if (p.status === 'done' || p.status === 'error' || p.status === 'cancelled') {
           setTimeout(() => {
             setCreatingProfileId(null);
             setCreatingProgress(0);
           }, 600);
         }
       },
-      (err) => console.error(err)
+      { onError: (err) => console.error(err) }
     );
-    return () => off(r, 'value', unsub as any);
   }, [creatingProfileId]);
 
   function addCompetitorFromInput() {
@@ -301,17 +329,40 @@ export default function HomePage() {
     setCompetitors((prev) => prev.filter((c) => c !== u));
   }
 
+  function toggleEngine(id: EngineId) {
+    setEngineIds((prev) => (prev.includes(id) ? prev.filter((e) => e !== id) : [...prev, id]));
+  }
+
   const canSubmit =
     companyName.trim().length > 0 &&
     websiteUrl.trim().length > 0 &&
     competitors.length > 0 &&
-    topicsInput.trim().length > 0;
+    topicsInput.trim().length > 0 &&
+    engineIds.length > 0 &&
+    (scrapeEnabled || positioningText.trim().length > 0) &&
+    (generateEnabled || countFixedPrompts(parseFixedPrompts(fixedPromptsInput)) > 0);
+
+  // Substitute inputs are kept while their stage is on, so toggling back and forth loses nothing
+  function pipelineFromForm(): PipelineSettings {
+    const text = positioningText.trim().slice(0, MAX_POSITIONING_CHARS);
+    const fixed = parseFixedPrompts(fixedPromptsInput);
+    return {
+      scrape: scrapeEnabled,
+      generatePrompts: generateEnabled,
+      volume: volumeEnabled,
+      ...(text ? { positioningText: text } : {}),
+      ...(countFixedPrompts(fixed) ? { fixedPrompts: fixed } : {}),
+    };
+  }
 
   async function handleCreateProfile(e: React.FormEvent) {
     e.preventDefault();
 
     if (!canSubmit) {
-      setBanner({ type: 'error', message: 'Please fill in all required fields (including at least one competitor and topics).' });
+      setBanner({
+        type: 'error',
+        message: 'Please fill in all required fields (including at least one competitor, topics, and the text/prompts for any skipped stage).',
+      });
       return;
     }
     if (!authUser) {
@@ -327,34 +378,37 @@ export default function HomePage() {
         .split(',')
         .map((s) => s.trim())
         .filter(Boolean);
+      const brandAliases = aliasesInput
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean);
+      const competitorNames = parseCompetitorNames(competitorNamesInput);
 
-      // EDIT MODE: update & regenerate
+      // EDIT MODE: save the changed fields; the server works out the follow-up (lib/profile-edit.ts)
       if (editingProfileId) {
-        const existing = profiles.find((pr) => pr.id === editingProfileId);
-        const nodeRef = ref(db, `profiles/${editingProfileId}`);
-        const updated: Omit<Profile, 'id'> & { id: string } = {
-          companyName: companyName.trim(),
-          websiteUrl: normalizedSite,
-          competitorUrls: competitors.map(normalizeUrl),
-          topics,
-          owner: authUser,
-          status: 'creating',
-          progress: 4,
-          createdAt: (existing?.createdAt as any) ?? (serverTimestamp() as any),
-          updatedAt: serverTimestamp() as any,
-          id: authUser, // keep same behavior as create
-          region, // NEW
-        };
-        await set(nodeRef, updated);
-
-        // Kick off backend pipeline again (regenerate)
-        fetch(`/api/profiles/${editingProfileId}/bootstrap`, {
-          method: 'POST',
+        const res = await fetch(`/api/profiles/${editingProfileId}`, {
+          method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ profileId: editingProfileId }),
-        }).catch(() => {});
+          body: JSON.stringify({
+            by: authUser,
+            patch: {
+              companyName: companyName.trim(),
+              websiteUrl: normalizedSite,
+              competitorUrls: competitors.map(normalizeUrl),
+              topics,
+              region,
+              engines: engineIds,
+              samples,
+              brandAliases,
+              competitorNames,
+              pipeline: pipelineFromForm(),
+            },
+          }),
+        });
+        const json = await res.json().catch(() => null);
+        if (!res.ok || !json?.success) throw new Error(json?.error || `Update failed (${res.status})`);
+        const plan = json.data.plan as EditPlan;
 
-        setCreatingProfileId(editingProfileId);
         setDialogOpen(false);
         setEditingProfileId(null);
 
@@ -364,8 +418,17 @@ export default function HomePage() {
         setCompetitors([]);
         setTopicsInput('');
         setRegion('sg');
+        setEngineIds(DEFAULT_ENGINE_IDS);
+        setSamples(DEFAULT_SAMPLES);
+        setAliasesInput('');
+        setCompetitorNamesInput('');
+        setScrapeEnabled(true);
+        setPositioningText('');
+        setGenerateEnabled(true);
+        setFixedPromptsInput('');
+        setVolumeEnabled(true);
 
-        setBanner({ type: 'success', message: 'Profile updated. We restarted the audit pipeline.' });
+        setBanner({ type: 'success', message: describeEditPlan(plan) });
         return;
       }
 
@@ -381,17 +444,20 @@ export default function HomePage() {
         createdAt: serverTimestamp() as any,
         updatedAt: serverTimestamp() as any,
         region, // NEW
+        engines: engineIds,
+        samples,
+        brandAliases,
+        competitorNames,
+        pipeline: pipelineFromForm(),
       };
 
-      const node = push(ref(db, 'profiles'));
-      const newId = node.key!;
-      await set(node, { ...data, id: authUser }); // NEW: also store username under 'id' in the DB
+      const newId = await clientStore().push('profiles', { ...data, id: authUser }); // NEW: also store username under 'id' in the DB
 
       // Kick off backend pipeline
       fetch(`/api/profiles/${newId}/bootstrap`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ profileId: newId }),
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': crypto.randomUUID() },
+        body: JSON.stringify({ profileId: newId, by: authUser }),
       }).catch(() => { /* server will update status/progress when it starts */ });
 
       setCreatingProfileId(newId);
@@ -403,6 +469,15 @@ export default function HomePage() {
       setCompetitors([]);
       setTopicsInput('');
       setRegion('sg');
+      setEngineIds(DEFAULT_ENGINE_IDS);
+      setSamples(DEFAULT_SAMPLES);
+      setAliasesInput('');
+      setCompetitorNamesInput('');
+      setScrapeEnabled(true);
+      setPositioningText('');
+      setGenerateEnabled(true);
+      setFixedPromptsInput('');
+      setVolumeEnabled(true);
 
       setBanner({ type: 'success', message: 'Profile created. We started the audit pipeline.' });
     } catch (err: any) {
@@ -425,25 +500,108 @@ export default function HomePage() {
     setCompetitors(p.competitorUrls || []);
     setTopicsInput((p.topics || []).join(', '));
     setRegion((p.region as 'sg' | 'us') || 'sg'); // NEW
+    setEngineIds(resolveEngines(p).map((e) => e.id));
+    setSamples(resolveSamples(p));
+    setAliasesInput((p.brandAliases || []).join(', '));
+    setCompetitorNamesInput(formatCompetitorNames(p.competitorNames));
+    const pipeline = resolvePipeline(p);
+    setScrapeEnabled(pipeline.scrape);
+    setPositioningText(pipeline.positioningText || '');
+    setGenerateEnabled(pipeline.generatePrompts);
+    setFixedPromptsInput(formatFixedPrompts(pipeline.fixedPrompts));
+    setVolumeEnabled(pipeline.volume);
     setDialogOpen(true);
   }
 
-  // NEW: delete a profile
+  // Trash actions (lib/trash.ts): soft delete, restore, delete forever
+  async function trashAction(action: 'trash' | 'restore' | 'purge', profileId: string, promptId?: string) {
+    const res = await fetch('/api/trash', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, profileId, promptId, by: authUser }),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json?.success) throw new Error(json?.error || `Request failed (${res.status})`);
+  }
+
+  // Delete = move to the Trash (restorable until the retention period ends)
   async function handleDeleteProfile(p: Profile) {
     if (!authUser) {
       setBanner({ type: 'error', message: 'Not signed in.' });
       return;
     }
     const ok = typeof window !== 'undefined'
-      ? window.confirm(`Delete profile "${p.companyName}"? This cannot be undone.`)
+      ? window.confirm(`Move profile "${p.companyName}" to the Trash? You can restore it from there.`)
       : true;
     if (!ok) return;
     try {
-      await remove(ref(db, `profiles/${p.id}`));
-      setBanner({ type: 'success', message: 'Profile deleted.' });
-    } catch (err: any) {
+      await trashAction('trash', p.id);
+      setBanner({ type: 'success', message: 'Profile moved to the Trash.' });
+    } catch (err) {
       console.error(err);
-      setBanner({ type: 'error', message: `Failed to delete profile: ${String(err)}` });
+      setBanner({ type: 'error', message: `Failed to delete profile: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }
+
+  async function loadTrash() {
+    if (!authUser) return;
+    try {
+      const res = await fetch(`/api/trash?owner=${encodeURIComponent(authUser)}`, { cache: 'no-store' });
+      const json = await res.json();
+      if (!json?.success) throw new Error(json?.error || `Failed to load the Trash (${res.status})`);
+      setTrash(json.data as TrashList);
+    } catch (err) {
+      setBanner({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  async function handleTrashItem(action: 'restore' | 'purge', profileId: string, promptId?: string) {
+    if (action === 'purge' && !window.confirm('Delete this for good? This cannot be undone.')) return;
+    setTrashBusy(promptId ? `${profileId}/${promptId}` : profileId);
+    try {
+      await trashAction(action, profileId, promptId);
+      await loadTrash();
+    } catch (err) {
+      setBanner({ type: 'error', message: `Failed to ${action === 'restore' ? 'restore' : 'delete'}: ${err instanceof Error ? err.message : String(err)}` });
+    } finally {
+      setTrashBusy(null);
+    }
+  }
+
+  // Import an exported profile bundle (lib/bundle.ts) as a new profile of this user
+  async function handleImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file || !authUser) return;
+    setImporting(true);
+    setBanner(null);
+    try {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The file is not valid JSON');
+      }
+      const res = await fetch('/api/profiles/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bundle, by: authUser }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.success) {
+        const issues: Array<{ path: string; message: string }> = json?.issues || [];
+        const detail = issues.slice(0, 3).map((i) => `${i.path}: ${i.message}`).join('; ');
+        throw new Error([json?.error || `Import failed (${res.status})`, detail].filter(Boolean).join(' — '));
+      }
+      const d = json.data;
+      setBanner({
+        type: 'success',
+        message: `Profile imported: ${d.prompts} prompts, ${d.results} results, ${d.reports} reports.`,
+      });
+    } catch (err) {
+      setBanner({ type: 'error', message: `Failed to import profile: ${err instanceof Error ? err.message : String(err)}` });
+    } finally {
+      setImporting(false);
     }
   }
 
@@ -471,12 +629,30 @@ export default function HomePage() {
             <p className="mt-1 text-xs text-stone-500">Signed in as <span className="font-medium">{authUser}</span></p>
           </div>
 
-          {/* Right-side controls: Sign out + New Profile */}
+          {/* Right-side controls: Sign out + Trash + Import + New Profile */}
           <div className="flex items-center gap-2">
             <Button variant="outline" onClick={handleSignOut}>
               Sign out
             </Button>
 
+            <Button
+              variant="outline"
+              onClick={() => {
+                setTrash(null);
+                setTrashOpen(true);
+                loadTrash();
+              }}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Trash
+            </Button>
+
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+            <Button variant="outline" onClick={() => importInputRef.current?.click()} disabled={importing}>
+              {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import
+            </Button>
+
             <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
               <DialogTrigger asChild>
                 <Button
@@ -489,13 +665,22 @@ export default function HomePage() {
                     setCompetitors([]);
                     setTopicsInput('');
                     setRegion('sg'); // NEW
+                    setEngineIds(DEFAULT_ENGINE_IDS);
+                    setSamples(DEFAULT_SAMPLES);
+                    setAliasesInput('');
+                    setCompetitorNamesInput('');
+                    setScrapeEnabled(true);
+                    setPositioningText('');
+                    setGenerateEnabled(true);
+                    setFixedPromptsInput('');
+                    setVolumeEnabled(true);
                   }}
                 >
                   <Plus className="mr-2 h-4 w-4" />
                   New Profile
                 </Button>
               </DialogTrigger>
-              <DialogContent className="sm:max-w-xl">
+              <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>{editingProfileId ? 'Edit Profile' : 'Create Profile'}</DialogTitle>
                 </DialogHeader>
@@ -531,6 +716,17 @@ export default function HomePage() {
                     </div>
                   </div>
 
+                  <div className="grid gap-3">
+                    <Label htmlFor="brandAliases">Brand aliases (optional, comma-separated)</Label>
+                    <Input
+                      id="brandAliases"
+                      placeholder="e.g., Acme, AcmeCloud"
+                      value={aliasesInput}
+                      onChange={(e) => setAliasesInput(e.target.value)}
+                      className="bg-amber-50/60 border-stone-300 text-stone-900 placeholder:text-stone-400"
+                    />
+                  </div>
+
                   <div className="grid gap-3">
                     <Label>Competitor URLs (at least one)</Label>
                     <div className="flex items-center gap-2">
@@ -575,6 +771,18 @@ export default function HomePage() {
                     )}
                   </div>
 
+                  <div className="grid gap-3">
+                    <Label htmlFor="competitorNames">Competitor names (optional, one per line)</Label>
+                    <Textarea
+                      id="competitorNames"
+                      rows={2}
+                      placeholder={'competitor.com: Competitor, Competitor Cloud'}
+                      value={competitorNamesInput}
+                      onChange={(e) => setCompetitorNamesInput(e.target.value)}
+                      className="bg-amber-50/60 border-stone-300 text-stone-900 placeholder:text-stone-400"
+                    />
+                  </div>
+
                   <div className="grid gap-3">
                     <Label htmlFor="topics">Short-tail keywords / topics (comma-separated)</Label>
                     <Textarea
@@ -602,6 +810,104 @@ export default function HomePage() {
                     </select>
                   </div>
 
+                  {/* Engines to check (registry) */}
+                  <div className="grid gap-3">
+                    <Label>Engines</Label>
+                    <div className="flex flex-wrap gap-4">
+                      {ENGINES.map((e) => (
+                        <label key={e.id} className="inline-flex items-center gap-2 text-sm text-stone-900">
+                          <input
+                            type="checkbox"
+                            checked={engineIds.includes(e.id)}
+                            onChange={() => toggleEngine(e.id)}
+                            className="h-4 w-4 accent-stone-900"
+                          />
+                          {e.label}
+                        </label>
+                      ))}
+                    </div>
+                    {engineIds.length === 0 && (
+                      <div className="text-xs text-amber-700">Please select at least one engine.</div>
+                    )}
+                  </div>
+
+                  {/* Samples per engine/prompt (answers vary between runs) */}
+                  <div className="grid gap-3">
+                    <Label htmlFor="samples">Samples per prompt</Label>
+                    <select
+                      id="samples"
+                      value={samples}
+                      onChange={(e) => setSamples(Number(e.target.value))}
+                      className="h-10 rounded-md border border-stone-300 bg-amber-50/60 px-3 text-stone-900"
+                    >
+                      {Array.from({ length: MAX_SAMPLES }, (_, i) => i + 1).map((n) => (
+                        <option key={n} value={n}>
+                          {n === 1 ? '1 (single check)' : `${n} runs — presence rate`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Pipeline stages: skip scraping / generation / volume */}
+                  <div className="grid gap-3">
+                    <Label>Pipeline</Label>
+                    <label className="inline-flex items-center gap-2 text-sm text-stone-900">
+                      <input
+                        type="checkbox"
+                        checked={scrapeEnabled}
+                        onChange={(e) => setScrapeEnabled(e.target.checked)}
+                        className="h-4 w-4 accent-stone-900"
+                      />
+                      Scrape the home page
+                    </label>
+                    {!scrapeEnabled && (
+                      <Textarea
+                        id="positioningText"
+                        rows={4}
+                        placeholder="Paste your positioning: what you sell, to whom, key differentiators…"
+                        value={positioningText}
+                        onChange={(e) => setPositioningText(e.target.value)}
+                        maxLength={MAX_POSITIONING_CHARS}
+                        className="bg-amber-50/60 border-stone-300 text-stone-900 placeholder:text-stone-400"
+                      />
+                    )}
+                    <label className="inline-flex items-center gap-2 text-sm text-stone-900">
+                      <input
+                        type="checkbox"
+                        checked={generateEnabled}
+                        onChange={(e) => setGenerateEnabled(e.target.checked)}
+                        className="h-4 w-4 accent-stone-900"
+                      />
+                      Generate prompts (40, 10 per category)
+                    </label>
+                    {!generateEnabled && (
+                      <>
+                        <Textarea
+                          id="fixedPrompts"
+                          rows={5}
+                          placeholder={'solution_comparing: best crm for small teams\ninfo_seeking: what is a crm'}
+                          value={fixedPromptsInput}
+                          onChange={(e) => setFixedPromptsInput(e.target.value)}
+                          className="bg-amber-50/60 border-stone-300 text-stone-900 placeholder:text-stone-400"
+                        />
+                        <div className="text-xs text-stone-600">
+                          One prompt per line, optionally prefixed with brainstorming, identified_problem, solution_comparing or
+                          info_seeking; unprefixed lines go to brainstorming. {countFixedPrompts(parseFixedPrompts(fixedPromptsInput))}{' '}
+                          prompt(s). These replace the profile&apos;s prompts on every run.
+                        </div>
+                      </>
+                    )}
+                    <label className="inline-flex items-center gap-2 text-sm text-stone-900">
+                      <input
+                        type="checkbox"
+                        checked={volumeEnabled}
+                        onChange={(e) => setVolumeEnabled(e.target.checked)}
+                        className="h-4 w-4 accent-stone-900"
+                      />
+                      Enrich prompts with AI search volume
+                    </label>
+                  </div>
+
                   <DialogFooter className="gap-2">
                     <Button
                       type="button"
@@ -615,6 +921,15 @@ export default function HomePage() {
                         setCompetitors([]);
                         setTopicsInput('');
                         setRegion('sg');
+                        setEngineIds(DEFAULT_ENGINE_IDS);
+                        setSamples(DEFAULT_SAMPLES);
+                        setAliasesInput('');
+                        setCompetitorNamesInput('');
+                        setScrapeEnabled(true);
+                        setPositioningText('');
+                        setGenerateEnabled(true);
+                        setFixedPromptsInput('');
+                        setVolumeEnabled(true);
                       }}
                     >
                       Cancel
@@ -735,6 +1050,85 @@ export default function HomePage() {
           </div>
         )}
 
+        {/* Trash: soft-deleted profiles and prompts, purged after the retention period */}
+        <Dialog open={trashOpen} onOpenChange={setTrashOpen}>
+          <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Trash</DialogTitle>
+            </DialogHeader>
+            {!trash ? (
+              <div className="flex items-center gap-2 text-sm text-stone-600">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading…
+              </div>
+            ) : trash.profiles.length === 0 && trash.prompts.length === 0 ? (
+              <p className="text-sm text-stone-600">The Trash is empty.</p>
+            ) : (
+              <div className="space-y-4 text-sm">
+                <p className="text-xs text-stone-500">
+                  Deleted items are kept for {trash.retentionDays} days, then removed for good.
+                </p>
+                {[
+                  ...trash.profiles.map((t) => ({
+                    key: t.profileId,
+                    profileId: t.profileId,
+                    promptId: undefined,
+                    title: t.companyName || t.profileId,
+                    detail: `Profile · ${t.websiteUrl}`,
+                    deletedAt: t.deletedAt,
+                    deletedBy: t.deletedBy,
+                    purgeAt: t.purgeAt,
+                  })),
+                  ...trash.prompts.map((t) => ({
+                    key: `${t.profileId}/${t.promptId}`,
+                    profileId: t.profileId,
+                    promptId: t.promptId,
+                    title: t.text || t.promptId,
+                    detail: `Prompt · ${t.companyName}`,
+                    deletedAt: t.deletedAt,
+                    deletedBy: t.deletedBy,
+                    purgeAt: t.purgeAt,
+                  })),
+                ].map((item) => (
+                  <div key={item.key} className="flex items-start justify-between gap-3 rounded-md border border-stone-200 p-3">
+                    <div className="min-w-0">
+                      <div className="line-clamp-2 font-medium text-stone-900">{item.title}</div>
+                      <div className="truncate text-xs text-stone-600">{item.detail}</div>
+                      <div className="text-xs text-stone-500">
+                        Deleted {new Date(item.deletedAt).toLocaleString()} by {item.deletedBy} · purged{' '}
+                        {new Date(item.purgeAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={trashBusy === item.key}
+                        onClick={() => handleTrashItem('restore', item.profileId, item.promptId)}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-rose-700 hover:text-rose-800"
+                        disabled={trashBusy === item.key}
+                        onClick={() => handleTrashItem('purge', item.profileId, item.promptId)}
+                      >
+                        Delete forever
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setTrashOpen(false)}>
+                Close
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         <footer className="mt-12 text-center text-xs text-stone-500">
           © {new Date().getFullYear()} Nuggt
         </footer>
@@ -6,7 +6,7 @@ import { useParams, useRouter } from 'next/navigation';
 import {
   ChevronLeft, Loader2, Search, Info, FileText, PlusCircle, Wand2,
   BarChart3, ArrowUpRight, ArrowDownRight, Minus,
-  Building2, Shield, Code2, AlertCircle, Trash2
+  Building2, Shield, Code2, AlertCircle, Trash2, MessageSquare, Link2, RotateCcw, Download
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 
@@ -33,9 +33,20 @@ import {
   Tooltip
 } from 'recharts';
 
-// Firebase
-import { initializeApp, getApps } from 'firebase/app';
-import { getDatabase, ref, onValue, off, DataSnapshot, remove, set } from 'firebase/database';
+// Storage (Firebase or the local store)
+import { clientStore } from '@/lib/client-store';
+
+// Engine registry (columns, presence rules)
+import { EngineId, StoredEngineResult, enginePresence, resolveEngines } from '@/lib/engines';
+import type { ClaimVerdict, FactCheck } from '@/lib/fact-check';
+import { SOURCE_TYPE_LABEL, SourceType } from '@/lib/sources';
+import type { AuditJob, JobStep } from '@/lib/jobs';
+import type { RunLogEvent } from '@/lib/run-log';
+import type { RunKind, RunLock } from '@/lib/run-lock';
+import type { RerunProgress } from '@/lib/serp-runner';
+import type { AuditRun, ReportVersionInfo, RunPoint } from '@/lib/repository';
+import { MetricDelta, ReportDiff, diffReports } from '@/lib/report-diff';
+import type { RateLimitStatus, RateProvider } from '@/lib/rate-limit';
 
 type ProfileStatus =
   | 'creating'
@@ -44,7 +55,8 @@ type ProfileStatus =
   | 'generating_prompts'
   | 'serp_check'
   | 'done'
-  | 'error';
+  | 'error'
+  | 'cancelled';
 
 type PromptCategory = 'brainstorming' | 'identified_problem' | 'solution_comparing' | 'info_seeking';
 type StoredVolume = {
@@ -56,28 +68,8 @@ type StoredVolume = {
 };
 type PromptItem = { id: string; text: string; category: PromptCategory; volume?: StoredVolume };
 
-type EngineResult = {
-  status?: 'checking' | 'done' | 'error';
-  top10?: string[];
-  hasCompany?: boolean;
-  competitorsHit?: string[];
-  immersive?: {
-    hasCompany?: boolean;
-    brands?: string[];
-    competitorsHit?: string[];
-    sellers?: string[];
-  };
-  shopping?: {
-    hasCompany?: boolean;
-    competitorsHit?: string[];
-    sellers?: string[];
-  };
-};
-
-type PromptResult = {
-  google?: EngineResult;
-  bing?: EngineResult;
-};
+// One stored result per engine, keyed by registry id (google, chatgpt, …)
+type PromptResult = Partial<Record<EngineId, StoredEngineResult>>;
 
 type Profile = {
   id: string;
@@ -89,16 +81,68 @@ type Profile = {
   progress: number;
   country?: string;     // optional
   region?: 'sg' | 'us'; // optional
+  engines?: EngineId[]; // optional (registry defaults when absent)
+  factCheck?: FactCheck; // brand accuracy (AI claims vs scraped site)
+  jobId?: string;        // current audit job (jobs/{jobId})
+  lastError?: string;
+  cancel?: { requestedAt: number; by: string }; // pending cancel request
+  runLock?: RunLock;                             // active pipeline run (one per profile)
+  rerun?: RerunProgress;                         // last targeted rerun (progress)
+  forceSerpRefresh?: boolean;                    // bypass the shared SERP cache
+  cancelledAt?: number;
+  cancelledBy?: string;
+  deletedAt?: number;                            // in the trash (lib/trash.ts)
+  deletedBy?: string;
+};
+
+const RATE_PROVIDER_LABEL: Record<RateProvider, string> = {
+  serpapi: 'SerpAPI',
+  openai: 'OpenAI',
+  perplexity: 'Perplexity',
+  firecrawl: 'Firecrawl',
+  dataforseo: 'DataForSEO',
+};
+
+const RUN_KIND_LABEL: Record<RunKind, string> = {
+  audit: 'Audit',
+  serp: 'Engine checks',
+  'retry-failed': 'Retrying failed checks',
+  rerun: 'Targeted rerun',
+  edit: 'Applying profile edit',
+  'add-prompt': 'Adding a prompt',
+  'generate-more': 'Generating prompts',
+};
+
+const CATEGORY_LABEL: Record<PromptCategory, string> = {
+  brainstorming: 'Brainstorming',
+  identified_problem: 'Identified Problem',
+  solution_comparing: 'Solution Comparing',
+  info_seeking: 'Info Seeking',
+};
+
+const JOB_STEP_LABEL: Record<JobStep, string> = {
+  scrape: 'Scrape',
+  prompts: 'Prompts',
+  volume: 'Volume',
+  serp: 'Engine checks',
 };
 
 // ===== NEW report type to match backend (do not change) =====
 type OverallReport = {
+  versionId?: string; // absent on reports generated before versioning
+  inputs?: ReportVersionInfo['inputs'];
   generatedAt: number;
   metrics: {
     sov: number; // 0..1
     whiteSpacePct: number; // 0..1
     competitorPressureIdx: number; // 0..1
     topMoneyPrompts: Array<{ promptId: string; prompt: string; category: PromptCategory; opportunityScore: number }>;
+    mentionedPct?: number; // 0..1 — named in answer text
+    citedPct?: number; // 0..1 — website cited as a source
+    mentionedNotCitedPct?: number; // 0..1
+    citedNotMentionedPct?: number; // 0..1
+    avgFirstMentionRank?: number; // 0 = never mentioned
+    topCompetitorMentions?: Array<{ domain: string; prompts: number }>;
   };
   categorySummaries: Record<
     PromptCategory,
@@ -119,7 +163,9 @@ type OverallReport = {
     missingPresence: number;
     competitorPressure: number;
     channels: { chatgpt: boolean; perplexity: boolean; googleAIO: boolean };
+    organic?: boolean; // Google page 1 / shopping / immersive or Bing page 1
   }>;
+  nextActions?: Array<{ rank: number; promptId: string; prompt: string }>;
   contentPlan: Array<{
     title: string;
     artifactType: 'answer_card' | 'comparison_matrix' | 'how_to_playbook' | 'integration_page' | 'glossary' | 'roi_calculator';
@@ -134,6 +180,7 @@ type OverallReport = {
       prompt: string;
       category: PromptCategory;
       channels: { chatgpt: boolean; perplexity: boolean; googleAIO: boolean };
+      organic?: boolean;
       competitorCount: number;
     }>;
     bubbleMatrix: Array<{
@@ -155,28 +202,27 @@ type OverallReport = {
       presence: number;
       pressure: number;
     }>;
+    sourceLeaderboard?: {
+      top: Array<{ host: string; type: SourceType; prompts: number; citations: number; engines: string[] }>;
+      byType: Array<{ type: SourceType; citations: number; hosts: number; top: Array<{ host: string; prompts: number }> }>;
+      byCategory: Partial<Record<PromptCategory, Array<{ host: string; type: SourceType; prompts: number }>>>;
+    };
   };
   insights?: {
     strengths?: string[];
     weaknesses?: string[];
     competitiveNarrative?: string;
     categoryNarrative?: Partial<Record<PromptCategory, string>>;
+    howAiTalks?: {
+      answers: number;
+      sentiment: { positive: number; neutral: number; negative: number };
+      roles: { top_pick: number; alternative: number; warning: number };
+      topClaims: Array<{ claim: string; count: number }>;
+      cautions: Array<{ promptId: string; prompt: string; engine: string; claims: string[] }>;
+    };
   };
 };
 
-const firebaseConfig = {
-  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-  databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL!,
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
-};
-
-const app = getApps().length ? getApps()[0] : initializeApp(firebaseConfig);
-const db = getDatabase(app);
-
 function StatusBadge({ status }: { status: ProfileStatus }) {
   const map: Record<ProfileStatus, { label: string; className: string }> = {
     creating: { label: 'Creating', className: 'bg-amber-200 text-amber-950' },
@@ -186,11 +232,18 @@ function StatusBadge({ status }: { status: ProfileStatus }) {
     serp_check: { label: 'SERP Check', className: 'bg-stone-300 text-stone-950' },
     done: { label: 'Ready', className: 'bg-emerald-200 text-emerald-950' },
     error: { label: 'Error', className: 'bg-rose-200 text-rose-950' },
+    cancelled: { label: 'Cancelled', className: 'bg-stone-300 text-stone-700' },
   };
   return <Badge className={`rounded-full ${map[status].className}`}>{map[status].label}</Badge>;
 }
 
-function EngineCell({ status, ok }: { status?: string; ok?: boolean }) {
+function EngineCell({
+  status,
+  ok,
+  rate,
+  error,
+  failed,
+}: { status?: string; ok?: boolean; rate?: number; error?: string; failed?: number }) {
   if (status === "checking") {
     return (
       <div className="flex items-center justify-center">
@@ -199,12 +252,213 @@ function EngineCell({ status, ok }: { status?: string; ok?: boolean }) {
     );
   }
   if (status === "error") {
-    return <span className="text-rose-600 text-xs">error</span>;
+    return <span className="text-rose-600 text-xs" title={error}>error</span>;
+  }
+  if (status === "cancelled") {
+    return <span className="text-stone-500 text-xs">cancelled</span>;
+  }
+  if (ok === undefined && rate === undefined) return <span className="text-stone-400">—</span>;
+  // Multi-sample runs: show how often the company appeared
+  if (rate !== undefined) {
+    const pct = Math.round(rate * 100);
+    const cls = pct >= 50 ? 'text-emerald-600' : pct > 0 ? 'text-amber-600' : 'text-rose-600';
+    return (
+      <span className={`text-xs font-medium ${cls}`} title={failed ? `${failed} sample(s) failed; rate is over the rest` : undefined}>
+        {pct}%{failed ? '*' : ''}
+      </span>
+    );
   }
-  if (ok === undefined) return <span className="text-stone-400">—</span>;
   return ok ? <span className="text-emerald-600">✔</span> : <span className="text-rose-600">✘</span>;
 }
 
+function TimelinePoint({ point }: { point: RunPoint }) {
+  const date = new Date(point.checkedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  const comps = point.competitorsHit?.length || 0;
+  let mark: React.ReactNode;
+  if (point.status === 'error') mark = <span className="text-rose-600">error</span>;
+  else if (point.rate !== undefined && point.rate !== 0 && point.rate !== 1) mark = <span className="text-amber-600">{Math.round(point.rate * 100)}%</span>;
+  else if (point.present === undefined) mark = <span className="text-stone-400">—</span>;
+  else mark = point.present ? <span className="text-emerald-600">✔</span> : <span className="text-rose-600">✘</span>;
+  return (
+    <span
+      className="mr-1.5 mb-1.5 inline-flex items-center gap-1 rounded border border-stone-300 bg-stone-50 px-2 py-0.5 text-xs text-stone-700"
+      title={`${new Date(point.checkedAt).toLocaleString()}${comps ? ` · competitors: ${point.competitorsHit!.join(', ')}` : ''}`}
+    >
+      {date} {mark}
+      {comps ? <span className="text-amber-700">· {comps} comp.</span> : null}
+    </span>
+  );
+}
+
+/** Presence + competitor hits of one prompt per engine across runs (oldest first). */
+function PromptTimeline({ runs, promptId, engines }: { runs: AuditRun[]; promptId: string; engines: { id: EngineId; label: string }[] }) {
+  const rows = engines
+    .map((e) => ({
+      engine: e,
+      points: runs
+        .map((r) => r.points?.[promptId]?.[e.id])
+        .filter((pt): pt is RunPoint => !!pt)
+        .sort((a, b) => a.checkedAt - b.checkedAt),
+    }))
+    .filter((row) => row.points.length > 0);
+  if (!rows.length) return <span className="text-sm text-stone-500">No runs recorded yet.</span>;
+  return (
+    <div className="space-y-1.5">
+      {rows.map(({ engine, points }) => (
+        <div key={engine.id} className="flex items-start gap-2">
+          <span className="w-24 shrink-0 pt-0.5 text-xs text-stone-600">{engine.label}</span>
+          <div className="flex flex-wrap">
+            {points.map((pt, i) => <TimelinePoint key={i} point={pt} />)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DeltaText({ d, invert = false }: { d: MetricDelta; invert?: boolean }) {
+  const pts = Math.round(d.delta * 100);
+  const good = invert ? pts < 0 : pts > 0;
+  const cls = pts === 0 ? 'text-stone-500' : good ? 'text-emerald-700' : 'text-rose-700';
+  return (
+    <span className="text-sm">
+      {Math.round(d.from * 100)}% → {Math.round(d.to * 100)}%{' '}
+      <span className={cls}>({pts > 0 ? '+' : ''}{pts} pts)</span>
+    </span>
+  );
+}
+
+/** Changes between two report versions (older → newer). */
+function ReportDiffPanel({ diff }: { diff: ReportDiff }) {
+  const list = (items: React.ReactNode[], empty: string) =>
+    items.length ? <ul className="list-disc space-y-0.5 pl-5 text-sm text-stone-800">{items}</ul> : <div className="text-sm text-stone-500">{empty}</div>;
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+        <div><div className="text-xs font-medium text-stone-700">Share of Voice</div><DeltaText d={diff.sov} /></div>
+        <div><div className="text-xs font-medium text-stone-700">White-space</div><DeltaText d={diff.whiteSpace} invert /></div>
+        <div><div className="text-xs font-medium text-stone-700">Competitor pressure</div><DeltaText d={diff.competitorPressure} invert /></div>
+      </div>
+      <div>
+        <div className="mb-1 text-xs font-medium text-stone-700">By category</div>
+        <div className="grid grid-cols-4 gap-2 text-xs text-stone-500">
+          <div>Category</div><div>SoV</div><div>White-space</div><div>Pressure</div>
+        </div>
+        {diff.byCategory.map((c) => (
+          <div key={c.category} className="grid grid-cols-4 gap-2 border-t border-stone-100 py-1">
+            <div className="text-sm text-stone-800">{CATEGORY_LABEL[c.category as PromptCategory] || c.category}</div>
+            <DeltaText d={c.sov} />
+            <DeltaText d={c.whiteSpace} invert />
+            <DeltaText d={c.pressure} invert />
+          </div>
+        ))}
+      </div>
+      <Separator />
+      <div>
+        <div className="mb-1 text-xs font-medium text-stone-700">Clusters</div>
+        {list(
+          [
+            ...diff.clusters.added.map((t) => <li key={`+${t}`}>New cluster: {t}</li>),
+            ...diff.clusters.removed.map((t) => <li key={`-${t}`}>Cluster gone: {t}</li>),
+            ...diff.clusters.moved.map((m) => (
+              <li key={m.promptId}>
+                {m.prompt} — <span className="text-stone-500">{m.from || 'none'} → {m.to || 'none'}</span>
+              </li>
+            )),
+          ],
+          'Same cluster membership.'
+        )}
+      </div>
+      <Separator />
+      <div>
+        <div className="mb-1 text-xs font-medium text-stone-700">Next 10 Actions</div>
+        {list(
+          [
+            ...diff.nextActions.entered.map((a) => <li key={`+${a.promptId}`}><span className="text-emerald-700">New #{a.rank}:</span> {a.prompt}</li>),
+            ...diff.nextActions.dropped.map((a) => <li key={`-${a.promptId}`}><span className="text-stone-500">Dropped (was #{a.rank}):</span> {a.prompt}</li>),
+            ...diff.nextActions.moved.map((a) => <li key={`~${a.promptId}`}>#{a.from} → #{a.to}: {a.prompt}</li>),
+          ],
+          'Same actions in the same order.'
+        )}
+      </div>
+    </div>
+  );
+}
+
+const RUN_LOG_LIMIT = 500;
+
+function RunLogPanel({ events }: { events: RunLogEvent[] }) {
+  const runIds = React.useMemo(() => {
+    const seen: string[] = [];
+    for (let i = events.length - 1; i >= 0; i--) if (!seen.includes(events[i].runId)) seen.push(events[i].runId);
+    return seen; // newest run first
+  }, [events]);
+  const [runId, setRunId] = React.useState<string>('');
+  const [errorsOnly, setErrorsOnly] = React.useState(false);
+  const activeRun = runId && runIds.includes(runId) ? runId : runIds[0];
+  const rows = events
+    .filter((e) => e.runId === activeRun && (!errorsOnly || e.level !== 'info'))
+    .slice()
+    .reverse();
+
+  if (!events.length) return <StatusText>No run events yet.</StatusText>;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Label htmlFor="run" className="text-stone-800">Run</Label>
+        <select
+          id="run"
+          value={activeRun}
+          onChange={(e) => setRunId(e.target.value)}
+          className="h-9 rounded-md border border-stone-300 bg-amber-50/60 px-3 text-stone-900"
+        >
+          {runIds.map((r) => (
+            <option key={r} value={r}>{r}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-stone-700">
+          <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+          Warnings &amp; errors only
+        </label>
+        <span className="text-xs text-stone-500">{rows.length} event(s)</span>
+      </div>
+      <div className="rounded-xl border border-stone-300 bg-white">
+        <div className="grid grid-cols-12 gap-2 border-b border-stone-200 bg-stone-50 px-3 py-2 text-xs font-semibold text-stone-700">
+          <div className="col-span-2">Time</div>
+          <div className="col-span-1">Step</div>
+          <div className="col-span-1">Provider</div>
+          <div className="col-span-2">Prompt</div>
+          <div className="col-span-1">Status</div>
+          <div className="col-span-1 text-right">Latency</div>
+          <div className="col-span-4">Message</div>
+        </div>
+        <ScrollArea className="h-[420px]">
+          {rows.map((e, i) => (
+            <div key={i} className="grid grid-cols-12 gap-2 border-b border-stone-100 px-3 py-1.5 text-xs text-stone-800">
+              <div className="col-span-2 text-stone-500">{new Date(e.at).toLocaleTimeString()}</div>
+              <div className="col-span-1">{e.step}</div>
+              <div className="col-span-1">{e.provider || '—'}</div>
+              <div className="col-span-2 truncate" title={e.promptId}>{e.promptId || '—'}</div>
+              <div className="col-span-1">
+                <span className={e.level === 'error' ? 'text-rose-600' : e.level === 'warn' ? 'text-amber-600' : 'text-emerald-600'}>
+                  {e.status || e.level}
+                </span>
+                {e.errorClass && e.errorClass !== 'cancelled' ? <span className="ml-1 text-stone-500">({e.errorClass})</span> : null}
+              </div>
+              <div className="col-span-1 text-right">{e.latencyMs !== undefined ? `${(e.latencyMs / 1000).toFixed(1)}s` : '—'}</div>
+              <div className="col-span-4 break-words">
+                {e.message}
+                {e.attempts && e.attempts > 1 ? <span className="ml-1 text-stone-500">· {e.attempts} attempts</span> : null}
+              </div>
+            </div>
+          ))}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
+
 const fadeIn = { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, transition: { duration: 0.5 } };
 const staggerContainer = { animate: { transition: { staggerChildren: 0.1 } } };
 
@@ -309,6 +563,9 @@ export default function ProfileDashboard() {
   const [profile, setProfile] = React.useState<Profile | null>(null);
   const [prompts, setPrompts] = React.useState<PromptItem[]>([]);
   const [results, setResults] = React.useState<Record<string, PromptResult>>({});
+  const [runs, setRuns] = React.useState<AuditRun[]>([]); // newest first
+  const [viewRunId, setViewRunId] = React.useState(''); // '' = latest results
+  const [snapshot, setSnapshot] = React.useState<Record<string, PromptResult> | null>(null);
   const [loading, setLoading] = React.useState(true);
 
   // Prompts tab state
@@ -321,13 +578,35 @@ export default function ProfileDashboard() {
   const [genCount, setGenCount] = React.useState<number>(5);
   const [genRemarks, setGenRemarks] = React.useState('');
   const [generating, setGenerating] = React.useState(false);
+  const [rerunOpen, setRerunOpen] = React.useState(false);
+  const [rerunCat, setRerunCat] = React.useState<PromptCategory | 'all'>('all');
+  const [rerunEngines, setRerunEngines] = React.useState<EngineId[] | null>(null); // null = all enabled
+  const [rerunText, setRerunText] = React.useState('');
+  const [rerunDays, setRerunDays] = React.useState<number>(0);
+  const [rerunShownOnly, setRerunShownOnly] = React.useState(false);
+  const [rerunFresh, setRerunFresh] = React.useState(false);
+  const [rerunning, setRerunning] = React.useState(false);
 
   // Report tab state
-  const [overall, setOverall] = React.useState<OverallReport | null>(null);
+  const [latestReport, setLatestReport] = React.useState<OverallReport | null>(null);
+  const [reportVersions, setReportVersions] = React.useState<ReportVersionInfo[]>([]); // newest first
+  const [viewVersionId, setViewVersionId] = React.useState(''); // '' = latest report
+  const [olderReport, setOlderReport] = React.useState<OverallReport | null>(null);
+  const overall = viewVersionId ? olderReport : latestReport;
+  const [compareOpen, setCompareOpen] = React.useState(false);
+  const [compareIds, setCompareIds] = React.useState<[string, string]>(['', '']); // [older, newer]
+  const [compareReports, setCompareReports] = React.useState<Record<string, OverallReport>>({});
   const [reportRunning, setReportRunning] = React.useState(false);
+  const [factChecking, setFactChecking] = React.useState(false);
+  const [job, setJob] = React.useState<AuditJob | null>(null);
+  const [resuming, setResuming] = React.useState(false);
+  const [cancelling, setCancelling] = React.useState(false);
+  const [retrying, setRetrying] = React.useState(false);
 
   // Top-level view tab
-  const [viewTab, setViewTab] = React.useState<'prompts' | 'report'>('prompts');
+  const [viewTab, setViewTab] = React.useState<'prompts' | 'report' | 'log'>('prompts');
+  const [runLog, setRunLog] = React.useState<RunLogEvent[]>([]);
+  const [rateLimits, setRateLimits] = React.useState<Record<RateProvider, RateLimitStatus> | null>(null);
 
   // New prompts highlighting + scroll management
   const prevPromptIdsRef = React.useRef<Set<string>>(new Set());
@@ -346,21 +625,21 @@ export default function ProfileDashboard() {
   }, [profile?.country, profile?.region]);
 
   React.useEffect(() => {
-    const pRef = ref(db, `profiles/${id}`);
-    const unsub1 = onValue(pRef, (snap: DataSnapshot) => {
-      const val = snap.val();
+    const store = clientStore();
+    const unsub1 = store.watch<Omit<Profile, 'id'>>(`profiles/${id}`, (val) => {
       if (!val) return;
       setProfile({ id, ...val });
     });
 
-    const promptsRef = ref(db, `profiles/${id}/prompts`);
-    const unsub2 = onValue(promptsRef, (snap) => {
-      const val = snap.val() || {};
+    const unsub2 = store.watch<Record<string, Record<string, unknown>>>(`profiles/${id}/prompts`, (value) => {
+      const val = value || {};
       const list: PromptItem[] = [];
       (['brainstorming', 'identified_problem', 'solution_comparing', 'info_seeking'] as PromptCategory[]).forEach(
         (cat) => {
           const items = val?.[cat] || {};
           Object.entries(items).forEach(([k, v]: [string, any]) => {
+            if (v?.deletedAt) return; // in the trash: restorable from the home page
+            // Legacy volume.volume / ai_monthly_searches until /api/migrations has upgraded the record
             const volume: StoredVolume | undefined = v?.volume
               ? {
                   value: typeof v.volume.value === 'number' ? v.volume.value : (typeof v.volume.volume === 'number' ? v.volume.volume : 0),
@@ -401,20 +680,175 @@ export default function ProfileDashboard() {
       }
     });
 
-    const resultsRef = ref(db, `profiles/${id}/results`);
-    const unsub3 = onValue(resultsRef, (snap) => setResults(snap.val() || { }));
+    const unsub3 = store.watch<Record<string, PromptResult>>(`profiles/${id}/results`, (val) => setResults(val || { }));
 
-    const overallRef = ref(db, `profiles/${id}/reports/overall`);
-    const unsub4 = onValue(overallRef, (snap) => setOverall(snap.val() || null));
+    const unsub4 = store.watch<OverallReport>(`profiles/${id}/reports/overall`, (val) => setLatestReport(val || null));
 
     return () => {
-      off(pRef, 'value', unsub1 as any);
-      off(promptsRef, 'value', unsub2 as any);
-      off(resultsRef, 'value', unsub3 as any);
-      off(overallRef, 'value', unsub4 as any);
+      unsub1();
+      unsub2();
+      unsub3();
+      unsub4();
     };
   }, [id]);
 
+  // Report versions (selector + compare)
+  React.useEffect(() => {
+    return clientStore().watch<Record<string, ReportVersionInfo>>(`profiles/${id}/reportIndex`, (val) =>
+      setReportVersions(Object.values(val || {}).sort((a, b) => b.generatedAt - a.generatedAt))
+    );
+  }, [id]);
+
+  React.useEffect(() => {
+    setOlderReport(null);
+    if (!viewVersionId) return;
+    return clientStore().watch<OverallReport>(`profiles/${id}/reportVersions/${viewVersionId}`, (val) => setOlderReport(val));
+  }, [id, viewVersionId]);
+
+  const [compareFrom, compareTo] = compareIds;
+  React.useEffect(() => {
+    if (!compareOpen) return;
+    const unsubs = [compareFrom, compareTo].filter(Boolean).map((vid) =>
+      clientStore().watch<OverallReport>(`profiles/${id}/reportVersions/${vid}`, (val) => {
+        if (val) setCompareReports((prev) => ({ ...prev, [vid]: val }));
+      })
+    );
+    return () => unsubs.forEach((u) => u());
+  }, [id, compareOpen, compareFrom, compareTo]);
+
+  // Run history (selector + per-prompt timeline)
+  React.useEffect(() => {
+    return clientStore().watch<Record<string, AuditRun>>(`history/${id}/runs`, (val) =>
+      setRuns(Object.values(val || {}).sort((a, b) => b.startedAt - a.startedAt))
+    );
+  }, [id]);
+
+  // Results of a past run, while one is selected
+  React.useEffect(() => {
+    setSnapshot(null);
+    if (!viewRunId) return;
+    return clientStore().watch<Record<string, PromptResult>>(`history/${id}/snapshots/${viewRunId}`, (val) =>
+      setSnapshot(val || {})
+    );
+  }, [id, viewRunId]);
+
+  // Run log (only subscribed while the tab is open)
+  React.useEffect(() => {
+    if (viewTab !== 'log') return;
+    return clientStore().watch<Record<string, RunLogEvent>>(
+      `profiles/${id}/runLog`,
+      (val) => setRunLog(Object.values(val || {})),
+      { limitToLast: RUN_LOG_LIMIT }
+    );
+  }, [id, viewTab]);
+
+  // Current audit job (step records)
+  React.useEffect(() => {
+    if (!profile?.jobId) {
+      setJob(null);
+      return;
+    }
+    return clientStore().watch<AuditJob>(`jobs/${profile.jobId}`, (val) => setJob(val || null));
+  }, [profile?.jobId]);
+
+  // Shared provider queues (other audits on the server compete for the same limits)
+  const jobActive = job?.status === 'queued' || job?.status === 'running';
+  React.useEffect(() => {
+    if (!jobActive) {
+      setRateLimits(null);
+      return;
+    }
+    let stopped = false;
+    const poll = async () => {
+      try {
+        const res = await fetch('/api/rate-limits');
+        const json = await res.json();
+        if (!stopped && json?.success) setRateLimits(json.data);
+      } catch {
+        // transient; next poll retries
+      }
+    };
+    poll();
+    const t = setInterval(poll, 5000);
+    return () => {
+      stopped = true;
+      clearInterval(t);
+    };
+  }, [jobActive]);
+
+  async function resumeAudit() {
+    setResuming(true);
+    try {
+      await fetch(`/api/profiles/${id}/resume`, { method: 'POST' });
+    } finally {
+      setResuming(false);
+    }
+  }
+
+  async function retryFailed() {
+    setRetrying(true);
+    try {
+      await fetch(`/api/profiles/${id}/serp/retry-failed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ by: localStorage.getItem('authUser') || 'unknown' }),
+      });
+    } finally {
+      setRetrying(false);
+    }
+  }
+
+  function openRerun() {
+    setRerunCat(activeCat);
+    setRerunEngines(null);
+    setRerunText(query);
+    setRerunDays(0);
+    setRerunShownOnly(false);
+    setRerunFresh(false);
+    setRerunOpen(true);
+  }
+
+  async function rerunSubset() {
+    setRerunning(true);
+    setRerunOpen(false);
+    try {
+      await fetch(`/api/profiles/${id}/serp/rerun`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          category: rerunCat === 'all' ? undefined : rerunCat,
+          engines: rerunEngines ?? undefined,
+          text: rerunText || undefined,
+          olderThanDays: rerunDays > 0 ? rerunDays : undefined,
+          promptIds: rerunShownOnly ? filtered.map((p) => p.id) : undefined,
+          forceRefresh: rerunFresh || undefined,
+          by: localStorage.getItem('authUser') || 'unknown',
+        }),
+      });
+    } finally {
+      setRerunning(false);
+    }
+  }
+
+  async function toggleForceRefresh(on: boolean) {
+    const flagPath = `profiles/${id}/forceSerpRefresh`;
+    if (on) await clientStore().set(flagPath, true);
+    else await clientStore().remove(flagPath);
+  }
+
+  async function cancelAudit() {
+    setCancelling(true);
+    try {
+      await fetch(`/api/profiles/${id}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ by: localStorage.getItem('authUser') || 'unknown' }),
+      });
+    } finally {
+      setCancelling(false);
+    }
+  }
+
   const filtered = prompts.filter(
     (p) => p.category === activeCat && p.text.toLowerCase().includes(query.toLowerCase())
   );
@@ -452,7 +886,7 @@ export default function ProfileDashboard() {
           await Promise.all(targets.map(async (p) => {
             const [cat, key] = p.id.split(':', 2);
             const path = `profiles/${id}/prompts/${cat}/${key}/volume`;
-            await set(ref(db, path), {
+            await clientStore().set(path, {
               value: it.volume,
               monthly: it.monthly || [],
               language_name: 'English',
@@ -474,11 +908,15 @@ export default function ProfileDashboard() {
     if (!addText.trim()) return;
     setAdding(true);
     try {
-      await fetch(`/api/profiles/${id}/prompts/add`, {
+      const res = await fetch(`/api/profiles/${id}/prompts/add`, {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ category: activeCat, text: addText.trim() }),
+        body: JSON.stringify({ category: activeCat, text: addText.trim(), by: localStorage.getItem('authUser') || 'unknown' }),
       });
+      if (res.status === 409) {
+        console.warn('Prompt not added: another run is in progress');
+        return; // keep the dialog open; the run banner shows what is running
+      }
       setAddOpen(false);
       setAddText('');
       // NOTE: do NOT re-run SERP for all prompts anymore.
@@ -495,8 +933,13 @@ export default function ProfileDashboard() {
     // Fire the generation request (assume server runs SERP per new prompt internally)
     fetch(`/api/profiles/${id}/prompts/generate-more`, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ category: activeCat, count: Math.min(10, genCount), remarks: genRemarks }),
+      headers: { 'content-type': 'application/json', 'Idempotency-Key': crypto.randomUUID() },
+      body: JSON.stringify({
+        category: activeCat,
+        count: Math.min(10, genCount),
+        remarks: genRemarks,
+        by: localStorage.getItem('authUser') || 'unknown',
+      }),
     }).finally(() => {
       setGenCount(5);
       setGenRemarks('');
@@ -506,13 +949,41 @@ export default function ProfileDashboard() {
 
   async function generateOverallReport() {
     setReportRunning(true);
+    setViewVersionId('');
     try {
-      await fetch(`/api/profiles/${id}/report/overall`, { method: 'POST' });
+      await fetch(`/api/profiles/${id}/report/overall`, {
+        method: 'POST',
+        headers: { 'Idempotency-Key': crypto.randomUUID() },
+      });
     } finally {
       setReportRunning(false);
     }
   }
 
+  function openCompare() {
+    // default: the two newest versions
+    setCompareIds([reportVersions[1]?.versionId || '', reportVersions[0]?.versionId || '']);
+    setCompareOpen(true);
+  }
+
+  const reportDiff = React.useMemo(() => {
+    const a = compareReports[compareFrom];
+    const b = compareReports[compareTo];
+    return a && b ? diffReports(a, b) : null;
+  }, [compareReports, compareFrom, compareTo]);
+
+  const versionLabel = (v: ReportVersionInfo) =>
+    `${new Date(v.generatedAt).toLocaleString()} · SoV ${Math.round((v.sov || 0) * 100)}%`;
+
+  async function runFactCheck() {
+    setFactChecking(true);
+    try {
+      await fetch(`/api/profiles/${id}/fact-check`, { method: 'POST' });
+    } finally {
+      setFactChecking(false);
+    }
+  }
+
   const promptsMap = React.useMemo(() => {
     const m = new Map<string, { text: string; category: PromptCategory }>();
     prompts.forEach(p => m.set(p.id, { text: p.text, category: p.category }));
@@ -521,20 +992,38 @@ export default function ProfileDashboard() {
 
   const sovFmt = (n: number | undefined) => typeof n === 'number' ? `${Math.round(n * 100)}%` : '—';
 
+  // Enabled engines for this profile → table columns + completion rule
+  const engines = React.useMemo(() => resolveEngines(profile), [profile]);
+  const tableCols = React.useMemo(
+    () => ({ gridTemplateColumns: `minmax(0, 6fr) repeat(${engines.length + 3}, minmax(0, 1fr))` }),
+    [engines.length]
+  );
+
+  // The table shows the selected run's snapshot, or the live results
+  const viewRun = runs.find((r) => r.runId === viewRunId);
+  const shownResults = viewRunId ? snapshot || {} : results;
+  const runLabel = (r: AuditRun) =>
+    `${new Date(r.finishedAt).toLocaleString()} · ${r.kind}${r.status === 'done' ? '' : ` (${r.status})`}`;
+
   const serpStatus = React.useMemo(() => {
     const total = prompts.length;
     let done = 0;
     prompts.forEach((p) => {
-      const r = results[p.id] || {};
-      const g = r.google?.status;
-      const b = r.bing?.status;
-      const gDone = g === 'done' || g === 'error';
-      const bDone = b === 'done' || b === 'error';
-      if (gDone && bDone) done++;
+      const r: PromptResult = results[p.id] || {};
+      const allDone = engines.every((e) => {
+        const st = r[e.id]?.status;
+        return st === 'done' || st === 'error' || st === 'cancelled';
+      });
+      if (allDone) done++;
     });
     const ready = total > 0 && done === total;
-    return { total, done, ready };
-  }, [prompts, results]);
+    // engine/prompt pairs that ended in error (retry-failed re-runs exactly these)
+    const failed = prompts.reduce(
+      (n, p) => n + engines.filter((e) => results[p.id]?.[e.id]?.status === 'error').length,
+      0
+    );
+    return { total, done, ready, failed };
+  }, [prompts, results, engines]);
 
   // Category weights (display only)
   const categoryWeights: Record<PromptCategory, { weight: number; reason: string }> = {
@@ -550,16 +1039,33 @@ export default function ProfileDashboard() {
     [profile?.competitorUrls]
   );
 
+  // Moves the prompt to the Trash; its results stay until it is purged (lib/trash.ts)
+  async function trashAction(action: 'trash' | 'restore', promptId?: string) {
+    const res = await fetch('/api/trash', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, profileId: id, promptId, by: localStorage.getItem('authUser') || 'unknown' }),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json?.success) throw new Error(json?.error || `Request failed (${res.status})`);
+  }
+
   async function handleDeletePrompt(p: PromptItem) {
     try {
-      const [cat, key] = p.id.split(':', 2);
-      await remove(ref(db, `profiles/${id}/prompts/${cat}/${key}`));
-      await remove(ref(db, `profiles/${id}/results/${p.id}`));
+      await trashAction('trash', p.id);
     } catch (e) {
       console.warn('Failed to delete prompt', e);
     }
   }
 
+  async function restoreProfile() {
+    try {
+      await trashAction('restore');
+    } catch (e) {
+      console.warn('Failed to restore profile', e);
+    }
+  }
+
   /* ============================== UI ============================== */
 
   // … (Everything below is unchanged except the Volume cell reads from p.volume) …
@@ -570,6 +1076,12 @@ export default function ProfileDashboard() {
   const pressurePct = overall ? sovFmt(overall.metrics?.competitorPressureIdx) : '—';
   const whitePct = overall ? sovFmt(overall.metrics?.whiteSpacePct) : '—';
   const sovBar = overall ? Math.round((overall.metrics?.sov || 0) * 100) : 0;
+  const mentionedPct = overall ? sovFmt(overall.metrics?.mentionedPct) : '—';
+  const citedPct = overall ? sovFmt(overall.metrics?.citedPct) : '—';
+  const mentionedOnlyPct = overall ? sovFmt(overall.metrics?.mentionedNotCitedPct) : '—';
+  const firstMentionRank = overall?.metrics?.avgFirstMentionRank
+    ? `#${overall.metrics.avgFirstMentionRank.toFixed(1)}`
+    : '—';
 
   // Viz derivations
   const sovRows = React.useMemo(() => {
@@ -638,24 +1150,111 @@ export default function ProfileDashboard() {
             <ChevronLeft className="mr-1 h-4 w-4" />
             Back
           </Button>
+          {profile && (
+            <Button variant="outline" size="sm" className="ml-auto" asChild>
+              <a href={`/api/profiles/${id}/export`} download title="Profile, prompts, results, reports and run history as a JSON bundle">
+                <Download className="mr-1 h-4 w-4" />
+                Export
+              </a>
+            </Button>
+          )}
         </div>
 
         <Card className="border-stone-300 bg-white/60">
           <CardHeader>
+            {profile?.deletedAt && (
+              <div className="mb-3 flex flex-wrap items-center justify-between gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                <span>
+                  This profile is in the Trash (deleted {new Date(profile.deletedAt).toLocaleString()}
+                  {profile.deletedBy ? ` by ${profile.deletedBy}` : ''}).
+                </span>
+                <Button size="sm" variant="outline" onClick={restoreProfile}>
+                  <RotateCcw className="mr-1 h-4 w-4" />
+                  Restore
+                </Button>
+              </div>
+            )}
             <div className="flex flex-wrap items-start justify-between gap-3">
               <div>
                 <CardTitle className="text-stone-950">{profile?.companyName ?? 'Profile'}</CardTitle>
                 <CardDescription className="text-stone-700">{profile?.websiteUrl}</CardDescription>
               </div>
-              {profile && <StatusBadge status={profile.status} />}
+              <div className="flex flex-col items-end gap-1">
+                {profile && <StatusBadge status={profile.status} />}
+                {profile?.runLock && profile.runLock.kind !== 'audit' && profile.runLock.expiresAt > Date.now() && (
+                  <span className="text-xs text-stone-600">
+                    {RUN_KIND_LABEL[profile.runLock.kind]} running · started by {profile.runLock.owner}
+                  </span>
+                )}
+                {profile && (
+                  <label className="flex items-center gap-1.5 text-xs text-stone-600" title="Google checks skip the shared SERP cache and fetch live results">
+                    <input type="checkbox" checked={!!profile.forceSerpRefresh} onChange={(e) => toggleForceRefresh(e.target.checked)} />
+                    Bypass SERP cache
+                  </label>
+                )}
+              </div>
             </div>
+            {job && job.status !== 'done' && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                {(['scrape', 'prompts', 'volume', 'serp'] as JobStep[]).map((s) => {
+                  const st = job.steps?.[s]?.status || 'pending';
+                  const skipped = !!job.steps?.[s]?.skipped;
+                  const cls =
+                    skipped ? 'bg-stone-100 text-stone-500 line-through'
+                    : st === 'done' ? 'bg-emerald-100 text-emerald-800'
+                    : st === 'running' ? 'bg-amber-100 text-amber-800'
+                    : st === 'error' ? 'bg-rose-100 text-rose-800'
+                    : st === 'cancelled' ? 'bg-stone-300 text-stone-700'
+                    : 'bg-stone-200 text-stone-600';
+                  return (
+                    <Badge key={s} className={cls} title={job.steps?.[s]?.error || (skipped ? 'Skipped (pipeline settings)' : undefined)}>
+                      {st === 'running' ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : null}
+                      {JOB_STEP_LABEL[s]}
+                    </Badge>
+                  );
+                })}
+                {rateLimits && (
+                  <span className="text-stone-600">
+                    {(Object.keys(rateLimits) as RateProvider[]).some((p) => rateLimits[p].queued > 0)
+                      ? `Waiting on rate limits: ${(Object.keys(rateLimits) as RateProvider[])
+                          .filter((p) => rateLimits[p].queued > 0)
+                          .map((p) => `${RATE_PROVIDER_LABEL[p]} ${rateLimits[p].queued}`)
+                          .join(' · ')}`
+                      : 'No provider queue'}
+                  </span>
+                )}
+                {jobActive && (
+                  <Button size="sm" variant="outline" onClick={cancelAudit} disabled={cancelling || !!profile?.cancel}>
+                    {cancelling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Cancel
+                  </Button>
+                )}
+                {(job.status === 'error' || job.status === 'cancelled') && (
+                  <>
+                    {job.status === 'error' ? (
+                      <span className="text-rose-700">{job.lastError || profile?.lastError}</span>
+                    ) : (
+                      <span className="text-stone-600">
+                        Cancelled{profile?.cancelledBy ? ` by ${profile.cancelledBy}` : ''}
+                        {profile?.cancelledAt ? ` · ${new Date(profile.cancelledAt).toLocaleString()}` : ''}
+                      </span>
+                    )}
+                    <Button size="sm" variant="outline" onClick={resumeAudit} disabled={resuming}>
+                      {resuming ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                      Resume
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
           </CardHeader>
 
           <CardContent className="space-y-4">
-            <Tabs value={viewTab} onValueChange={(v) => setViewTab(v as 'prompts' | 'report')}>
+            <Tabs value={viewTab} onValueChange={(v) => setViewTab(v as 'prompts' | 'report' | 'log')}>
               <TabsList className="mb-2">
                 <TabsTrigger value="prompts">Prompts</TabsTrigger>
                 <TabsTrigger value="report">Report</TabsTrigger>
+                <TabsTrigger value="log">Run log</TabsTrigger>
               </TabsList>
 
               {/* PROMPTS TAB */}
@@ -681,6 +1280,16 @@ export default function ProfileDashboard() {
                         className="pl-8"
                       />
                     </div>
+                    {(serpStatus.failed > 0 || retrying) && (
+                      <Button variant="outline" onClick={retryFailed} disabled={retrying}>
+                        {retrying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                        Retry failed ({serpStatus.failed})
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={openRerun} disabled={rerunning || profile?.rerun?.status === 'running'}>
+                      {rerunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                      Re-run…
+                    </Button>
                     <Button variant="outline" onClick={() => setAddOpen(true)}>
                       <PlusCircle className="mr-2 h-4 w-4" />
                       Add prompt
@@ -692,6 +1301,42 @@ export default function ProfileDashboard() {
                   </div>
                 </div>
 
+                {profile?.rerun && (profile.rerun.status === 'running' || Date.now() - (profile.rerun.finishedAt || 0) < 60_000) && (
+                  <div className="text-xs text-stone-700">
+                    {profile.rerun.status === 'running' ? (
+                      <Loader2 className="mr-1 inline h-3 w-3 animate-spin" />
+                    ) : null}
+                    Targeted rerun {profile.rerun.status === 'running' ? 'in progress' : profile.rerun.status}:{' '}
+                    {profile.rerun.done}/{profile.rerun.total} checks · {profile.rerun.prompts} prompt(s)
+                    {profile.rerun.error ? ` · ${profile.rerun.error}` : ''}
+                  </div>
+                )}
+
+                {runs.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <Label htmlFor="view-run" className="text-stone-800">Results</Label>
+                    <select
+                      id="view-run"
+                      value={viewRun ? viewRunId : ''}
+                      onChange={(e) => setViewRunId(e.target.value)}
+                      className="h-9 rounded-md border border-stone-300 bg-amber-50/60 px-3 text-stone-900"
+                    >
+                      <option value="">Latest</option>
+                      {runs.map((r) => (
+                        <option key={r.runId} value={r.runId}>{runLabel(r)}</option>
+                      ))}
+                    </select>
+                    {viewRun && (
+                      <span className="text-xs text-stone-600">
+                        {snapshot && !Object.keys(snapshot).length
+                          ? 'Snapshot no longer kept (only recent runs keep one; the timeline still has this run)'
+                          : `Snapshot taken when this run ended${snapshot ? '' : ' (loading…)'}`}{' '}
+                        · {runs.length} run(s) recorded
+                      </span>
+                    )}
+                  </div>
+                )}
+
                 <Separator className="bg-stone-300" />
 
                 {/* Table */}
@@ -704,26 +1349,28 @@ export default function ProfileDashboard() {
                   <StatusText>No prompts yet.</StatusText>
                 ) : (
                   <div className="rounded-xl border border-stone-300 bg-white">
-                    <div className="grid grid-cols-12 gap-0 border-b border-stone-200 bg-stone-50 px-3 py-2 text-xs font-semibold text-stone-700">
-                      <div className="col-span-6">Prompt</div>
-                      <div className="col-span-1 text-center">ChatGPT</div>
-                      <div className="col-span-1 text-center">Perplexity</div>
-                      <div className="col-span-1 text-center">Google AIO</div>
-                      <div className="col-span-1 text-center">Volume</div>
-                      <div className="col-span-1 text-center">Details</div>
-                      <div className="col-span-1 text-center">Competitors</div>
+                    <div className="grid gap-0 border-b border-stone-200 bg-stone-50 px-3 py-2 text-xs font-semibold text-stone-700" style={tableCols}>
+                      <div>Prompt</div>
+                      {engines.map((e) => (
+                        <div key={e.id} className="text-center">{e.label}</div>
+                      ))}
+                      <div className="text-center">Volume</div>
+                      <div className="text-center">Details</div>
+                      <div className="text-center">Competitors</div>
                     </div>
 
                     <ScrollArea className="h-[70vh]" ref={scrollAreaRef as any}>
                       {filtered.map((p) => {
-                        const r = results[p.id] as PromptResult | undefined;
+                        const r = shownResults[p.id] as PromptResult | undefined;
                         const g = r?.google;
-                        const b = r?.bing;
-                        const competitorCount = (g?.competitorsHit?.length ?? 0) + (b?.competitorsHit?.length ?? 0);
+                        const cg = r?.chatgpt;
+                        const px = r?.perplexity;
+                        const aio = g?.aiOverview;
+                        const competitorCount = engines.reduce(
+                          (n, e) => n + enginePresence(e.id, r?.[e.id]).competitorsHit.length,
+                          0
+                        );
                         const isNew = highlightIds.has(p.id);
-                        const gOk: boolean | undefined = g
-  ? (g.hasCompany === true || g.immersive?.hasCompany === true)
-  : undefined;
 
                         const gUrls = (g?.top10 || []).map(u => ({ url: u, host: hostnameFromUrl(u) }));
                         const brandList = (g?.immersive?.brands || []);
@@ -742,11 +1389,12 @@ export default function ProfileDashboard() {
                           <div
                             key={p.id}
                             className={
-                              "grid grid-cols-12 items-center gap-0 border-b border-stone-100 px-3 py-3 text-sm transition-colors " +
+                              "grid items-center gap-0 border-b border-stone-100 px-3 py-3 text-sm transition-colors " +
                               (isNew ? "bg-amber-50/70" : "bg-white")
                             }
+                            style={tableCols}
                           >
-                            <div className="col-span-6 pr-3 text-stone-900">
+                            <div className="pr-3 text-stone-900">
                               <div className="flex items-start justify-between gap-3">
                                 <span className={isNew ? "font-medium" : ""}>{p.text}</span>
                                 <Button
@@ -761,18 +1409,24 @@ export default function ProfileDashboard() {
                               </div>
                             </div>
 
-                            <div className="col-span-1 flex justify-center">
-                              <EngineCell status={b?.status} ok={b?.hasCompany} />
-                            </div>
-                            <div className="col-span-1 flex justify-center">
-                              <EngineCell status={g?.status} ok={gOk} />
-                            </div>
-                            <div className="col-span-1 flex justify-center">
-                              <EngineCell status={g?.status} ok={gOk} />
-                            </div>
+                            {engines.map((e) => {
+                              const res = r?.[e.id];
+                              const pres = enginePresence(e.id, res);
+                              return (
+                                <div key={e.id} className="flex justify-center">
+                                  <EngineCell
+                                    status={res?.status}
+                                    ok={pres.hasCompany}
+                                    rate={res?.sampleCount ? pres.rate : undefined}
+                                    error={res?.error}
+                                    failed={res?.failedSamples}
+                                  />
+                                </div>
+                              );
+                            })}
 
                             {/* Volume */}
-                            <div className="col-span-1 flex items-center justify-center">
+                            <div className="flex items-center justify-center">
                               {volLoading && !p.volume ? (
                                 <Loader2 className="h-4 w-4 animate-spin text-stone-500" />
                               ) : (
@@ -805,7 +1459,7 @@ export default function ProfileDashboard() {
                             </div>
 
                             {/* Details popover */}
-                            <div className="col-span-1 flex items-center justify-center">
+                            <div className="flex items-center justify-center">
                               <Popover>
                                 <PopoverTrigger asChild>
                                   <Button variant="outline" size="sm" className="h-7 px-2">
@@ -841,29 +1495,121 @@ export default function ProfileDashboard() {
                                     };
 
                                     const gTop10 = g?.top10 || [];
+                                    const cgCitations = cg?.citations || [];
+                                    const pxCitations = px?.citations || [];
+                                    const aioRefs = aio?.references || [];
                                     const company = companyDomain;
                                     const comps = competitorDomains;
+                                    const kindOf = (host: string | null): 'you' | 'comp' | 'other' =>
+                                      host === company || (company && host?.endsWith('.' + company))
+                                        ? 'you'
+                                        : comps?.some((cd) => host === cd || (cd && host?.endsWith('.' + cd)))
+                                        ? 'comp'
+                                        : 'other';
+                                    const ROLE_LABEL = { top_pick: 'top pick', alternative: 'alternative', warning: 'warning' } as const;
+                                    const framingLine = (res?: StoredEngineResult) => {
+                                      const f = res?.framing?.company;
+                                      if (!f) return null;
+                                      return (
+                                        <div className="mt-2 text-xs text-stone-600">
+                                          <span className="font-medium text-stone-800">You: {ROLE_LABEL[f.role]} · {f.sentiment}</span>
+                                          {f.claims?.length ? ` — ${f.claims.join('; ')}` : null}
+                                        </div>
+                                      );
+                                    };
 
                                     return (
                                       <div className="space-y-4">
+                                        <div>
+                                          <div className="text-xs font-medium text-stone-700 mb-1">Timeline</div>
+                                          <PromptTimeline runs={runs} promptId={p.id} engines={engines} />
+                                        </div>
+                                        <Separator />
                                         <div>
                                           <div className="text-xs font-medium text-stone-700 mb-1">Top 10 Citations</div>
                                           <div className="flex flex-wrap">
                                             {gTop10.length ? (
                                               gTop10.map((url: string) => {
                                                 const host = hostnameFromUrl(url);
-                                                const kind: 'you' | 'comp' | 'other' =
-                                                  host === company || (company && host?.endsWith('.' + company))
-                                                    ? 'you'
-                                                    : comps?.some((cd) => host === cd || (cd && host?.endsWith('.' + cd)))
-                                                    ? 'comp'
-                                                    : 'other';
-                                                return chip(host || '—', kind, url);
+                                                return chip(host || '—', kindOf(host), url);
                                               })
                                             ) : (
                                               <span className="text-sm text-stone-500">No results.</span>
                                             )}
                                           </div>
+                                          {g?.serpCache?.hits ? (
+                                            <div className="mt-1 text-xs text-stone-500">
+                                              From cache
+                                              {g.serpCache.cachedAt ? ` (fetched ${new Date(g.serpCache.cachedAt).toLocaleString()})` : ''}
+                                              {g.serpCache.misses ? ` · ${g.serpCache.misses} live call(s)` : ''}
+                                            </div>
+                                          ) : null}
+                                        </div>
+                                        <Separator />
+                                        <div>
+                                          <div className="text-xs font-medium text-stone-700 mb-1">ChatGPT citations</div>
+                                          <div className="flex flex-wrap">
+                                            {cgCitations.length ? (
+                                              cgCitations.map((url: string) => {
+                                                const host = hostnameFromUrl(url);
+                                                return chip(host || '—', kindOf(host), url);
+                                              })
+                                            ) : (
+                                              <span className="text-sm text-stone-500">No citations.</span>
+                                            )}
+                                          </div>
+                                          {cg?.answer ? (
+                                            <p className="mt-2 whitespace-pre-wrap text-xs leading-relaxed text-stone-700">
+                                              {cg.answer}
+                                            </p>
+                                          ) : null}
+                                          {framingLine(cg)}
+                                        </div>
+                                        <Separator />
+                                        <div>
+                                          <div className="text-xs font-medium text-stone-700 mb-1">Perplexity citations</div>
+                                          <div className="flex flex-wrap">
+                                            {pxCitations.length ? (
+                                              pxCitations.map((url: string, i: number) => {
+                                                const host = hostnameFromUrl(url);
+                                                return chip(`[${i + 1}] ${host || '—'}`, kindOf(host), url);
+                                              })
+                                            ) : (
+                                              <span className="text-sm text-stone-500">No citations.</span>
+                                            )}
+                                          </div>
+                                          {px?.answer ? (
+                                            <p className="mt-2 whitespace-pre-wrap text-xs leading-relaxed text-stone-700">
+                                              {px.answer}
+                                            </p>
+                                          ) : null}
+                                          {framingLine(px)}
+                                        </div>
+                                        <Separator />
+                                        <div>
+                                          <div className="text-xs font-medium text-stone-700 mb-1">Google AI Overview references</div>
+                                          {aio?.present ? (
+                                            <>
+                                              <div className="flex flex-wrap">
+                                                {aioRefs.length ? (
+                                                  aioRefs.map((r) => {
+                                                    const host = hostnameFromUrl(r.link);
+                                                    return chip(host || r.source || '—', kindOf(host), r.link);
+                                                  })
+                                                ) : (
+                                                  <span className="text-sm text-stone-500">No references.</span>
+                                                )}
+                                              </div>
+                                              {(aio.textBlocks || []).length ? (
+                                                <ul className="mt-2 list-disc pl-5 text-xs leading-relaxed text-stone-700">
+                                                  {(aio.textBlocks || []).map((t, i) => <li key={i}>{t}</li>)}
+                                                </ul>
+                                              ) : null}
+                                              {framingLine(g)}
+                                            </>
+                                          ) : (
+                                            <span className="text-sm text-stone-500">No AI Overview shown for this query.</span>
+                                          )}
                                         </div>
                                         <Separator />
                                         <div>
@@ -889,7 +1635,7 @@ export default function ProfileDashboard() {
                             </div>
 
                             {/* Competitor count */}
-                            <div className="col-span-1 flex items-center justify-center">
+                            <div className="flex items-center justify-center">
                               {competitorCount > 0 ? (
                                 <Badge className={"text-stone-900 " + (isNew ? "bg-amber-200" : "bg-stone-200")}>
                                   {competitorCount} hits
@@ -969,17 +1715,164 @@ export default function ProfileDashboard() {
                     </DialogFooter>
                   </DialogContent>
                 </Dialog>
+                {/* Targeted rerun */}
+                <Dialog open={rerunOpen} onOpenChange={setRerunOpen}>
+                  <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                      <DialogTitle>Re-run engine checks</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4 text-sm">
+                      <div className="grid grid-cols-3 items-center gap-3">
+                        <Label htmlFor="rerun-cat" className="col-span-1">Category</Label>
+                        <select
+                          id="rerun-cat"
+                          value={rerunCat}
+                          onChange={(e) => setRerunCat(e.target.value as PromptCategory | 'all')}
+                          className="col-span-2 h-9 rounded-md border border-stone-300 bg-amber-50/60 px-3 text-stone-900"
+                        >
+                          <option value="all">All categories</option>
+                          {(Object.keys(CATEGORY_LABEL) as PromptCategory[]).map((c) => (
+                            <option key={c} value={c}>{CATEGORY_LABEL[c]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="grid grid-cols-3 items-start gap-3">
+                        <Label className="col-span-1">Engines</Label>
+                        <div className="col-span-2 flex flex-wrap gap-3">
+                          {engines.map((e) => (
+                            <label key={e.id} className="flex items-center gap-2 text-stone-800">
+                              <input
+                                type="checkbox"
+                                checked={!rerunEngines || rerunEngines.includes(e.id)}
+                                onChange={(ev) => {
+                                  const current = rerunEngines ?? engines.map((x) => x.id);
+                                  const next = ev.target.checked ? [...current, e.id] : current.filter((x) => x !== e.id);
+                                  setRerunEngines(next.length === engines.length ? null : next);
+                                }}
+                              />
+                              {e.label}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-3 items-center gap-3">
+                        <Label htmlFor="rerun-text" className="col-span-1">Prompt contains</Label>
+                        <Input id="rerun-text" value={rerunText} onChange={(e) => setRerunText(e.target.value)} className="col-span-2" />
+                      </div>
+                      <div className="grid grid-cols-3 items-center gap-3">
+                        <Label htmlFor="rerun-days" className="col-span-1">Older than (days)</Label>
+                        <Input
+                          id="rerun-days"
+                          type="number"
+                          min={0}
+                          value={rerunDays}
+                          onChange={(e) => setRerunDays(Math.max(0, Number(e.target.value || 0)))}
+                          className="col-span-2"
+                        />
+                      </div>
+                      <label className="flex items-center gap-2 text-stone-800">
+                        <input type="checkbox" checked={rerunShownOnly} onChange={(e) => setRerunShownOnly(e.target.checked)} />
+                        Only the {filtered.length} prompt(s) shown in the table
+                      </label>
+                      <label className="flex items-center gap-2 text-stone-800">
+                        <input type="checkbox" checked={rerunFresh} onChange={(e) => setRerunFresh(e.target.checked)} />
+                        Fetch fresh Google results (bypass the shared SERP cache)
+                      </label>
+                      <p className="text-xs text-stone-500">
+                        All criteria must match. The audit status is left as is; progress shows above the table.
+                      </p>
+                    </div>
+                    <DialogFooter className="gap-2">
+                      <Button variant="outline" onClick={() => setRerunOpen(false)}>Cancel</Button>
+                      <Button
+                        onClick={rerunSubset}
+                        disabled={rerunning || rerunEngines?.length === 0}
+                        className="bg-stone-950 text-amber-50 hover:bg-stone-800"
+                      >
+                        Re-run
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
               </TabsContent>
 
               {/* REPORT TAB (unchanged UI) */}
               <TabsContent value="report" className="space-y-6">
                 <div className="flex items-center justify-between">
                   <h3 className="text-base font-semibold text-stone-900">GEO Audit Report</h3>
-                  <Button onClick={generateOverallReport} disabled={reportRunning || !serpStatus.ready} className="bg-stone-950 text-amber-50 hover:bg-stone-800">
-                    {reportRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
-                    Generate / Refresh
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    {reportVersions.length > 0 && (
+                      <>
+                        <select
+                          aria-label="Report version"
+                          value={viewVersionId}
+                          onChange={(e) => setViewVersionId(e.target.value)}
+                          className="h-9 rounded-md border border-stone-300 bg-amber-50/60 px-3 text-sm text-stone-900"
+                        >
+                          <option value="">Latest</option>
+                          {reportVersions.slice(1).map((v) => (
+                            <option key={v.versionId} value={v.versionId}>{versionLabel(v)}</option>
+                          ))}
+                        </select>
+                        <Button variant="outline" onClick={openCompare} disabled={reportVersions.length < 2}>
+                          Compare…
+                        </Button>
+                      </>
+                    )}
+                    <Button onClick={generateOverallReport} disabled={reportRunning || !serpStatus.ready} className="bg-stone-950 text-amber-50 hover:bg-stone-800">
+                      {reportRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+                      Generate / Refresh
+                    </Button>
+                  </div>
                 </div>
+                {viewVersionId && overall && (
+                  <div className="text-xs rounded border border-stone-300 bg-stone-50 text-stone-700 px-3 py-2">
+                    Viewing the report generated {new Date(overall.generatedAt).toLocaleString()}
+                    {overall.inputs
+                      ? ` from ${overall.inputs.prompts} prompt(s) on ${overall.inputs.engines.join(', ')}${
+                          overall.inputs.resultsAsOf ? ` (results as of ${new Date(overall.inputs.resultsAsOf).toLocaleString()})` : ''
+                        }`
+                      : ''}
+                    .{' '}
+                    <button className="underline" onClick={() => setViewVersionId('')}>Back to latest</button>
+                  </div>
+                )}
+                <Dialog open={compareOpen} onOpenChange={setCompareOpen}>
+                  <DialogContent className="max-h-[85vh] overflow-auto sm:max-w-3xl">
+                    <DialogHeader>
+                      <DialogTitle>Compare report versions</DialogTitle>
+                    </DialogHeader>
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      {([0, 1] as const).map((i) => (
+                        <React.Fragment key={i}>
+                          {i === 1 && <span className="text-stone-500">→</span>}
+                          <select
+                            aria-label={i === 0 ? 'Older version' : 'Newer version'}
+                            value={compareIds[i]}
+                            onChange={(e) => {
+                              const next: [string, string] = [...compareIds];
+                              next[i] = e.target.value;
+                              setCompareIds(next);
+                            }}
+                            className="h-9 rounded-md border border-stone-300 bg-amber-50/60 px-3 text-stone-900"
+                          >
+                            {reportVersions.map((v) => (
+                              <option key={v.versionId} value={v.versionId}>{versionLabel(v)}</option>
+                            ))}
+                          </select>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                    {reportDiff ? (
+                      <ReportDiffPanel diff={reportDiff} />
+                    ) : (
+                      <div className="flex items-center gap-2 text-sm text-stone-600">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Loading versions…
+                      </div>
+                    )}
+                  </DialogContent>
+                </Dialog>
                 {!serpStatus.ready && (
                   <div className="text-xs rounded border border-amber-200 bg-amber-50 text-amber-800 px-3 py-2">
                     Please wait for prompt SERP analysis to complete ({serpStatus.done}/{serpStatus.total} finished).
@@ -997,9 +1890,10 @@ export default function ProfileDashboard() {
                   )
                 ) : (
                   <Tabs defaultValue="sov" className="w-full">
-                    <TabsList className="mb-4 grid grid-cols-3">
+                    <TabsList className="mb-4 grid grid-cols-4">
                       <TabsTrigger value="sov">Share of Voice</TabsTrigger>
                       <TabsTrigger value="topical">Topical Analysis</TabsTrigger>
+                      <TabsTrigger value="sources">Sources</TabsTrigger>
                       <TabsTrigger value="actionables">Actionables</TabsTrigger>
                     </TabsList>
 
@@ -1057,6 +1951,56 @@ export default function ProfileDashboard() {
                           </div>
                         </motion.div>
 
+                        {/* Mentioned vs Cited */}
+                        <motion.div variants={fadeIn}>
+                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                            <Card>
+                              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                                <CardTitle className="text-sm font-medium">Mentioned</CardTitle>
+                                <MessageSquare className="h-4 w-4 text-emerald-600" />
+                              </CardHeader>
+                              <CardContent>
+                                <div className="text-2xl font-bold">{mentionedPct}</div>
+                                <p className="text-xs text-stone-500">Named in the AI answer</p>
+                              </CardContent>
+                            </Card>
+                            <Card>
+                              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                                <CardTitle className="text-sm font-medium">Cited</CardTitle>
+                                <Link2 className="h-4 w-4 text-emerald-600" />
+                              </CardHeader>
+                              <CardContent>
+                                <div className="text-2xl font-bold">{citedPct}</div>
+                                <p className="text-xs text-stone-500">Your site linked as a source</p>
+                              </CardContent>
+                            </Card>
+                            <Card>
+                              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                                <CardTitle className="text-sm font-medium">Mentioned, not cited</CardTitle>
+                                <Minus className="h-4 w-4 text-amber-600" />
+                              </CardHeader>
+                              <CardContent>
+                                <div className="text-2xl font-bold">{mentionedOnlyPct}</div>
+                                <p className="text-xs text-stone-500">Named without a link to you</p>
+                              </CardContent>
+                            </Card>
+                            <Card>
+                              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                                <CardTitle className="text-sm font-medium">Avg. first mention</CardTitle>
+                                <BarChart3 className="h-4 w-4 text-stone-500" />
+                              </CardHeader>
+                              <CardContent>
+                                <div className="text-2xl font-bold">{firstMentionRank}</div>
+                                <p className="text-xs text-stone-500">
+                                  {overall.metrics?.topCompetitorMentions?.length
+                                    ? `Most named rival: ${overall.metrics.topCompetitorMentions[0].domain}`
+                                    : 'Order among brands named'}
+                                </p>
+                              </CardContent>
+                            </Card>
+                          </div>
+                        </motion.div>
+
                         {/* SOV by Category */}
                         <motion.div className="grid grid-cols-1 lg:grid-cols-1 gap-6" variants={fadeIn}>
                           <Card className="lg:col-span-2">
@@ -1214,6 +2158,132 @@ export default function ProfileDashboard() {
                           </Card>
                         </motion.div>
 
+                        {/* How AI talks about you */}
+                        <motion.div variants={fadeIn}>
+                          <Card>
+                            <CardHeader>
+                              <div className="flex items-center space-x-2">
+                                <MessageSquare className="h-5 w-5 text-stone-500" />
+                                <CardTitle>How AI talks about you</CardTitle>
+                              </div>
+                              <CardDescription className="text-xs">
+                                Sentiment, role and claims in answers that mention your brand
+                              </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                              {(() => {
+                                const h = overall?.insights?.howAiTalks;
+                                if (!h?.answers) {
+                                  return <div className="text-sm text-stone-500">No answers mention your brand yet.</div>;
+                                }
+                                const share = (n: number) => `${Math.round((n / h.answers) * 100)}%`;
+                                return (
+                                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                                    <div className="space-y-2">
+                                      <div className="text-xs font-medium text-stone-500">Across {h.answers} answers</div>
+                                      <div className="flex flex-wrap gap-2 text-xs">
+                                        <Badge className="bg-emerald-100 text-emerald-800">Positive {share(h.sentiment.positive)}</Badge>
+                                        <Badge className="bg-stone-200 text-stone-800">Neutral {share(h.sentiment.neutral)}</Badge>
+                                        <Badge className="bg-rose-100 text-rose-800">Negative {share(h.sentiment.negative)}</Badge>
+                                      </div>
+                                      <div className="flex flex-wrap gap-2 text-xs">
+                                        <Badge variant="outline">Top pick {share(h.roles.top_pick)}</Badge>
+                                        <Badge variant="outline">Alternative {share(h.roles.alternative)}</Badge>
+                                        <Badge variant="outline">Warning {share(h.roles.warning)}</Badge>
+                                      </div>
+                                    </div>
+                                    <div className="space-y-1">
+                                      <div className="text-xs font-medium text-stone-500">What AI says</div>
+                                      {h.topClaims?.length
+                                        ? h.topClaims.map((c, i) => (
+                                            <div key={i} className="text-sm text-stone-800">
+                                              • {c.claim}{c.count > 1 ? <span className="text-stone-500"> ×{c.count}</span> : null}
+                                            </div>
+                                          ))
+                                        : <div className="text-sm text-stone-500">No claims extracted.</div>}
+                                    </div>
+                                    <div className="space-y-2">
+                                      <div className="text-xs font-medium text-stone-500">Cautions</div>
+                                      {h.cautions?.length
+                                        ? h.cautions.map((c, i) => (
+                                            <div key={i} className="text-sm text-stone-800">
+                                              <div className="font-medium">{c.engine}: {c.prompt}</div>
+                                              {c.claims?.slice(0, 2).map((cl, j) => (
+                                                <div key={j} className="text-xs text-stone-600">– {cl}</div>
+                                              ))}
+                                            </div>
+                                          ))
+                                        : <div className="text-sm text-stone-500">No negative framing found.</div>}
+                                    </div>
+                                  </div>
+                                );
+                              })()}
+                            </CardContent>
+                          </Card>
+                        </motion.div>
+
+                        {/* Brand accuracy (fact-check) */}
+                        <motion.div variants={fadeIn}>
+                          <Card>
+                            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                              <div>
+                                <div className="flex items-center space-x-2">
+                                  <Shield className="h-5 w-5 text-stone-500" />
+                                  <CardTitle>Brand accuracy</CardTitle>
+                                </div>
+                                <CardDescription className="text-xs">
+                                  Claims AI makes about you, checked against your website
+                                </CardDescription>
+                              </div>
+                              <Button size="sm" variant="outline" onClick={runFactCheck} disabled={factChecking}>
+                                {factChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                {profile?.factCheck ? 'Re-check' : 'Run check'}
+                              </Button>
+                            </CardHeader>
+                            <CardContent>
+                              {(() => {
+                                const fc = profile?.factCheck;
+                                if (!fc) return <div className="text-sm text-stone-500">Not checked yet.</div>;
+                                const claims = fc.claims || [];
+                                if (!claims.length) return <div className="text-sm text-stone-500">No claims about your brand found in AI answers.</div>;
+                                const VERDICT: Record<ClaimVerdict, { label: string; className: string }> = {
+                                  contradicted: { label: 'Contradicted', className: 'bg-rose-100 text-rose-800' },
+                                  unverifiable: { label: 'Unverifiable', className: 'bg-stone-200 text-stone-800' },
+                                  supported: { label: 'Supported', className: 'bg-emerald-100 text-emerald-800' },
+                                };
+                                return (
+                                  <div className="space-y-3">
+                                    <div className="flex flex-wrap gap-2 text-xs">
+                                      {(['contradicted', 'unverifiable', 'supported'] as ClaimVerdict[]).map((v) => (
+                                        <Badge key={v} className={VERDICT[v].className}>
+                                          {VERDICT[v].label} {fc.summary?.[v] ?? 0}
+                                        </Badge>
+                                      ))}
+                                    </div>
+                                    <div className="divide-y divide-stone-200">
+                                      {claims.map((c, i) => (
+                                        <div key={i} className="py-2 text-sm">
+                                          <div className="flex items-start justify-between gap-3">
+                                            <div className="text-stone-900">{c.claim}</div>
+                                            <Badge className={`shrink-0 ${VERDICT[c.verdict].className}`}>{VERDICT[c.verdict].label}</Badge>
+                                          </div>
+                                          {c.evidence ? (
+                                            <div className="mt-1 border-l-2 border-stone-300 pl-2 text-xs italic text-stone-600">“{c.evidence}”</div>
+                                          ) : null}
+                                          {c.note ? <div className="mt-1 text-xs text-stone-600">{c.note}</div> : null}
+                                          <div className="mt-1 text-[11px] text-stone-500">
+                                            Said by {(c.engines || []).join(', ')} · {(c.promptIds || []).length} prompt(s)
+                                          </div>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  </div>
+                                );
+                              })()}
+                            </CardContent>
+                          </Card>
+                        </motion.div>
+
                         {/* Cluster Cards */}
                         <motion.div className="space-y-4" variants={fadeIn}>
                           <div className="grid grid-cols-1  gap-6">
@@ -1262,6 +2332,7 @@ export default function ProfileDashboard() {
                                                   <Badge className={opp.channels.chatgpt ? "bg-emerald-100 text-emerald-800" : "bg-stone-100 text-stone-500"}>ChatGPT</Badge>
                                                   <Badge className={opp.channels.perplexity ? "bg-emerald-100 text-emerald-800" : "bg-stone-100 text-stone-500"}>Perplexity</Badge>
                                                   <Badge className={opp.channels.googleAIO ? "bg-emerald-100 text-emerald-800" : "bg-stone-100 text-stone-500"}>Google AIO</Badge>
+                                                  {opp.organic && <Badge className="bg-sky-100 text-sky-800">Organic</Badge>}
                                                 </>
                                               ) : (
                                                 <Badge className="bg-stone-100 text-stone-800">—</Badge>
@@ -1280,6 +2351,97 @@ export default function ProfileDashboard() {
                       </motion.div>
                     </TabsContent>
 
+                    {/* --------- TAB: SOURCES (third-party citation leaderboard) --------- */}
+                    <TabsContent value="sources" className="space-y-8">
+                      {(() => {
+                        const lb = overall.visualData?.sourceLeaderboard;
+                        if (!lb?.top?.length) {
+                          return (
+                            <div className="text-stone-600 text-sm">
+                              No third-party sources yet. Regenerate the report after engine checks finish.
+                            </div>
+                          );
+                        }
+                        return (
+                          <motion.div className="space-y-8" initial="initial" animate="animate" variants={staggerContainer}>
+                            {/* Source types */}
+                            <motion.div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6" variants={fadeIn}>
+                              {lb.byType.map((t) => (
+                                <Card key={t.type}>
+                                  <CardHeader className="pb-2">
+                                    <CardTitle className="text-sm font-medium">{SOURCE_TYPE_LABEL[t.type] || t.type}</CardTitle>
+                                    <CardDescription className="text-xs">
+                                      {t.citations} citations · {t.hosts} hosts
+                                    </CardDescription>
+                                  </CardHeader>
+                                  <CardContent className="space-y-1">
+                                    {t.top.map((h) => (
+                                      <div key={h.host} className="flex items-center justify-between text-sm">
+                                        <span className="truncate text-stone-800">{h.host}</span>
+                                        <span className="text-xs text-stone-500">{h.prompts} prompts</span>
+                                      </div>
+                                    ))}
+                                  </CardContent>
+                                </Card>
+                              ))}
+                            </motion.div>
+
+                            {/* Overall leaderboard */}
+                            <motion.div variants={fadeIn}>
+                              <Card>
+                                <CardHeader>
+                                  <CardTitle className="text-base">Sources AI relies on most</CardTitle>
+                                  <CardDescription className="text-xs">
+                                    Third-party hosts cited across all prompts and engines (excludes you and competitors)
+                                  </CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                  <div className="divide-y divide-stone-200">
+                                    {lb.top.map((row, i) => (
+                                      <div key={row.host} className="flex items-center gap-3 py-2 text-sm">
+                                        <span className="w-6 text-right text-xs text-stone-500">{i + 1}</span>
+                                        <span className="flex-1 truncate text-stone-900">{row.host}</span>
+                                        <Badge variant="outline" className="text-xs">{SOURCE_TYPE_LABEL[row.type] || row.type}</Badge>
+                                        <span className="w-24 text-right text-xs text-stone-600">{row.prompts} prompts</span>
+                                        <span className="hidden w-48 truncate text-right text-xs text-stone-500 md:inline">
+                                          {(row.engines || []).join(', ')}
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </CardContent>
+                              </Card>
+                            </motion.div>
+
+                            {/* By prompt category */}
+                            <motion.div className="grid grid-cols-1 md:grid-cols-2 gap-6" variants={fadeIn}>
+                              {(['brainstorming','identified_problem','solution_comparing','info_seeking'] as PromptCategory[]).map((cat) => (
+                                <Card key={cat}>
+                                  <CardHeader className="pb-2">
+                                    <CardTitle className="text-sm font-medium capitalize">{cat.replace('_',' ')}</CardTitle>
+                                  </CardHeader>
+                                  <CardContent className="space-y-1">
+                                    {(lb.byCategory?.[cat] || []).length ? (
+                                      (lb.byCategory?.[cat] || []).map((h) => (
+                                        <div key={h.host} className="flex items-center justify-between gap-2 text-sm">
+                                          <span className="truncate text-stone-800">{h.host}</span>
+                                          <span className="shrink-0 text-xs text-stone-500">
+                                            {SOURCE_TYPE_LABEL[h.type] || h.type} · {h.prompts}
+                                          </span>
+                                        </div>
+                                      ))
+                                    ) : (
+                                      <div className="text-sm text-stone-500">No sources.</div>
+                                    )}
+                                  </CardContent>
+                                </Card>
+                              ))}
+                            </motion.div>
+                          </motion.div>
+                        );
+                      })()}
+                    </TabsContent>
+
                     {/* --------- TAB 3: ACTIONABLES --------- */}
                     <TabsContent value="actionables" className="space-y-6">
                       {!overall ? (
@@ -1337,7 +2499,7 @@ export default function ProfileDashboard() {
                                           <span>{Number(item.scoreBreakdown?.missingPresence ?? 0).toFixed(2)}</span>
                                         </div>
                                         <div className="h-2 rounded bg-stone-200 overflow-hidden mb-2">
-                                          <div className="h-2 bg-rose-400" style={{ width: `${Math.min(1, (item.scoreBreakdown?.missingPresence ?? 0) / 2) * 100}%` }} />
+                                          <div className="h-2 bg-rose-400" style={{ width: `${Math.min(1, (item.scoreBreakdown?.missingPresence ?? 0) / (item.scoreBreakdown?.maxMissingPresence || 2)) * 100}%` }} />
                                         </div>
 
                                         <div className="mb-1 flex items-center justify-between text-[10px] text-stone-600">
@@ -1432,6 +2594,11 @@ export default function ProfileDashboard() {
                   </Tabs>
                 )}
               </TabsContent>
+
+              {/* RUN LOG TAB */}
+              <TabsContent value="log" className="space-y-4">
+                <RunLogPanel events={runLog} />
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
@@ -0,0 +1,222 @@
+// lib/bundle.ts
+// Profile export/import bundles: one profile with its prompts (and volume),
+// engine results, reports, run history and scrape metadata as a versioned
+// JSON document. Import recreates the profile under a new id for the importing
+// user; records from older schema versions are migrated (lib/migrations.ts)
+// and every record is validated before anything is written.
+import { getStore, serverTimestamp } from "./store";
+import { getHistory, getProfile, setHistory } from "./repository";
+import { RecordKind, SCHEMA_VERSION, SchemaIssue, validateRecord } from "./schema";
+import { migrateRecord } from "./migrations";
+import { PROMPT_CATEGORIES } from "./pipeline";
+import { isEngineId } from "./engines";
+
+export const BUNDLE_FORMAT = "nuggt-audit/profile-bundle";
+export const BUNDLE_VERSION = 1;
+
+type Rec = Record<string, unknown>;
+
+export type ProfileBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  source: { profileId: string; owner?: string };
+  schemaVersions: Record<RecordKind, number>; // of the exporting build
+  profile: Rec; // profile fields, scrape metadata included
+  prompts: Record<string, Record<string, Rec>>; // category → key → prompt (+ volume)
+  results: Record<string, Record<string, Rec>>; // "category:key" → engine → result
+  reports: Record<string, Rec>; // "overall" + per-prompt reports
+  reportVersions: Record<string, Rec>;
+  reportIndex: Record<string, Rec>;
+  runs: Record<string, Rec>;
+  snapshots: Record<string, unknown>;
+};
+
+export class BundleError extends Error {
+  constructor(message: string, public issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+// Subtrees carried by the bundle; everything else under the node is profile fields
+// (runs/snapshots live under history/{id}; legacy copies in the node are skipped)
+const DATA = ["prompts", "results", "reports", "reportVersions", "reportIndex", "runs", "snapshots"] as const;
+// Per-owner / per-process bookkeeping that must not travel with the data
+const LOCAL_ONLY = ["id", "owner", "jobId", "runLock", "idempotency", "cancel", "rerun", "runLog", "deletedAt", "deletedBy"];
+// An imported profile is not running anything
+const ACTIVE = ["creating", "queued", "scraping", "generating_prompts", "serp_check"];
+
+const objectOr = <T>(v: unknown, fallback: T): T => (v && typeof v === "object" && !Array.isArray(v) ? (v as T) : fallback);
+
+/** Package one profile as a bundle. */
+export async function exportProfileBundle(profileId: string): Promise<ProfileBundle> {
+  const node = (await getProfile(profileId)) as Rec | null;
+  if (!node) throw new Error("Profile not found");
+  const history = await getHistory(profileId);
+
+  const profile = Object.fromEntries(
+    Object.entries(node).filter(([k]) => !(DATA as readonly string[]).includes(k) && !LOCAL_ONLY.includes(k))
+  );
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    source: { profileId, ...(typeof node.owner === "string" ? { owner: node.owner } : {}) },
+    schemaVersions: SCHEMA_VERSION,
+    profile,
+    prompts: objectOr(node.prompts, {}),
+    results: objectOr(node.results, {}),
+    reports: objectOr(node.reports, {}),
+    reportVersions: objectOr(node.reportVersions, {}),
+    reportIndex: objectOr(node.reportIndex, {}),
+    runs: objectOr(history.runs, {}),
+    snapshots: objectOr(history.snapshots, {}),
+  };
+}
+
+// RTDB keys can't contain . # $ [ ] / (and can't be empty)
+const safeKey = (k: string) => k.length > 0 && !/[.#$[\]/]/.test(k);
+
+export type ImportSummary = {
+  profileId: string;
+  prompts: number;
+  results: number;
+  reports: number;
+  reportVersions: number;
+  runs: number;
+  upgraded: number; // records migrated from an older schema version
+};
+
+/**
+ * Recreate a bundle as a new profile owned by owner. Nothing is written when
+ * the bundle or any record in it is invalid (BundleError lists the issues).
+ */
+export async function importProfileBundle(input: unknown, owner: string): Promise<ImportSummary> {
+  const bundle = objectOr<Rec | null>(input, null);
+  if (!bundle || bundle.format !== BUNDLE_FORMAT) throw new BundleError("Not a profile bundle");
+  const version = bundle.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new BundleError("Bundle version is missing");
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new BundleError(`Bundle version ${version} is newer than supported (${BUNDLE_VERSION})`);
+  }
+
+  const issues: SchemaIssue[] = [];
+  let upgraded = 0;
+  const check = (kind: RecordKind, value: unknown, where: string): Rec | null => {
+    const rec = objectOr<Rec | null>(value, null);
+    if (!rec) {
+      issues.push({ path: where, message: "expected an object" });
+      return null;
+    }
+    const { record, from } = migrateRecord(kind, rec);
+    if (from < SCHEMA_VERSION[kind]) upgraded += 1;
+    issues.push(...validateRecord(kind, record, where));
+    return record;
+  };
+  const keyed = <T>(tree: Record<string, T>, where: string) =>
+    Object.entries(tree).filter(([k]) => {
+      if (!safeKey(k)) issues.push({ path: `${where}/${k}`, message: "invalid key" });
+      return safeKey(k);
+    });
+
+  // Profile fields (bookkeeping from the source account is dropped)
+  const ownFields = Object.fromEntries(
+    Object.entries(objectOr<Rec>(bundle.profile, {})).filter(
+      ([k]) => !(DATA as readonly string[]).includes(k) && !LOCAL_ONLY.includes(k)
+    )
+  );
+  const profile = check("profile", ownFields, "profile");
+
+  // Prompts: category → key → prompt
+  const prompts: Record<string, Record<string, Rec>> = {};
+  const promptIds = new Set<string>();
+  for (const [cat, items] of Object.entries(objectOr<Rec>(bundle.prompts, {}))) {
+    if (!(PROMPT_CATEGORIES as string[]).includes(cat)) {
+      issues.push({ path: `prompts/${cat}`, message: "unknown prompt category" });
+      continue;
+    }
+    for (const [key, p] of keyed(objectOr<Rec>(items, {}), `prompts/${cat}`)) {
+      const rec = check("prompt", p, `prompts/${cat}/${key}`);
+      if (!rec) continue;
+      (prompts[cat] ||= {})[key] = rec;
+      promptIds.add(`${cat}:${key}`);
+    }
+  }
+
+  // Results: "category:key" → engine → result, for prompts in the bundle only
+  const results: Record<string, Record<string, Rec>> = {};
+  let resultCount = 0;
+  for (const [promptId, perEngine] of keyed(objectOr<Rec>(bundle.results, {}), "results")) {
+    if (!promptIds.has(promptId)) {
+      issues.push({ path: `results/${promptId}`, message: "result for a prompt not in the bundle" });
+      continue;
+    }
+    for (const [engine, r] of Object.entries(objectOr<Rec>(perEngine, {}))) {
+      if (!isEngineId(engine)) {
+        issues.push({ path: `results/${promptId}/${engine}`, message: "unknown engine" });
+        continue;
+      }
+      const rec = check("result", r, `results/${promptId}/${engine}`);
+      if (rec) {
+        (results[promptId] ||= {})[engine] = rec;
+        resultCount += 1;
+      }
+    }
+  }
+
+  const reports: Record<string, Rec> = {};
+  for (const [key, r] of keyed(objectOr<Rec>(bundle.reports, {}), "reports")) {
+    const rec = check(key === "overall" ? "report" : "promptReport", r, `reports/${key}`);
+    if (rec) reports[key] = rec;
+  }
+  const reportVersions: Record<string, Rec> = {};
+  for (const [vid, r] of keyed(objectOr<Rec>(bundle.reportVersions, {}), "reportVersions")) {
+    const rec = check("report", r, `reportVersions/${vid}`);
+    if (rec) reportVersions[vid] = rec;
+  }
+  // History bookkeeping has no record schema; keys are still checked
+  const history = (name: "reportIndex" | "runs" | "snapshots") =>
+    Object.fromEntries(keyed(objectOr<Rec>(bundle[name], {}), name));
+  const reportIndex = history("reportIndex");
+  const runs = history("runs");
+  const snapshots = history("snapshots");
+
+  if (issues.length || !profile) throw new BundleError(`Bundle has ${issues.length} problem(s)`, issues);
+
+  const status = typeof profile.status === "string" && ACTIVE.includes(profile.status) ? "cancelled" : profile.status;
+  const source = objectOr<Rec>(bundle.source, {});
+  const store = getStore();
+  const profileId = store.newKey("profiles");
+  await store.set(`profiles/${profileId}`, {
+    ...profile,
+    ...(status ? { status } : {}),
+    owner,
+    id: owner, // same as profiles created from the dashboard
+    imported: {
+      from: typeof source.profileId === "string" ? source.profileId : "unknown",
+      ...(typeof bundle.exportedAt === "number" ? { exportedAt: bundle.exportedAt } : {}),
+      at: Date.now(),
+    },
+    createdAt: typeof profile.createdAt === "number" ? profile.createdAt : serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    prompts,
+    results,
+    reports,
+    reportVersions,
+    reportIndex,
+  });
+  await setHistory(profileId, { runs, snapshots });
+
+  return {
+    profileId,
+    prompts: promptIds.size,
+    results: resultCount,
+    reports: Object.keys(reports).length,
+    reportVersions: Object.keys(reportVersions).length,
+    runs: Object.keys(runs).length,
+    upgraded,
+  };
+}
@@ -0,0 +1,66 @@
+// lib/cancel.ts
+// Cooperative cancellation for running audits. A cancel request is persisted on
+// the profile (profiles/{id}/cancel) so whichever server process runs the audit
+// sees it; runners watch that node and abort their AbortSignal.
+import { getStore, serverTimestamp } from "./store";
+import { getProfile, updateProfile } from "./repository";
+
+export type CancelRequest = { requestedAt: number; by: string };
+
+export class AuditCancelledError extends Error {
+  constructor(message = "Audit cancelled") {
+    super(message);
+    this.name = "AuditCancelledError";
+  }
+}
+
+/** True for our cancel error and for fetch/OpenAI aborts caused by it. */
+export function isCancelError(e: unknown): boolean {
+  if (e instanceof AuditCancelledError) return true;
+  const name = (e as { name?: unknown })?.name;
+  return name === "AbortError" || name === "APIUserAbortError";
+}
+
+/** Throw if the signal was aborted (checkpoints between non-abortable calls). */
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) throw new AuditCancelledError();
+}
+
+/** Forget an old cancel request before a new run starts. */
+export async function clearCancel(profileId: string) {
+  await getStore().remove(`profiles/${profileId}/cancel`);
+}
+
+/** Persist a cancel request; running work aborts via watchCancel(). */
+export async function requestCancel(profileId: string, by: string): Promise<CancelRequest> {
+  if (!(await getProfile(profileId))) throw new Error("Profile not found");
+
+  const req: CancelRequest = { requestedAt: Date.now(), by };
+  await getStore().set(`profiles/${profileId}/cancel`, req);
+  return req;
+}
+
+/** Record the cancellation on the profile once the runner has stopped. */
+export async function markProfileCancelled(profileId: string) {
+  const profile = await getProfile(profileId);
+  if (!profile) return;
+  const req = profile.cancel;
+  await updateProfile(profileId, {
+    status: "cancelled",
+    cancelledAt: req?.requestedAt ?? Date.now(),
+    cancelledBy: req?.by ?? "unknown",
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * AbortSignal that fires when a cancel request lands on the profile.
+ * Call dispose() when the run ends to drop the listener.
+ */
+export function watchCancel(profileId: string): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const unsub = getStore().subscribe<CancelRequest>(`profiles/${profileId}/cancel`, (req) => {
+    if (req && !controller.signal.aborted) controller.abort(new AuditCancelledError());
+  });
+  return { signal: controller.signal, dispose: () => unsub() };
+}
@@ -0,0 +1,71 @@
+// lib/chatgpt.ts
+import OpenAI from "openai";
+import { SerpRegionKey } from "./serp";
+import { withRetry } from "./retry";
+import { acquire } from "./rate-limit";
+
+// ───────────────── OpenAI (Responses API + web_search tool) ─────────────────
+// maxRetries: 0 — calls go through withRetry (lib/retry.ts); SDK retries would stack on top
+const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY!, maxRetries: 0 });
+
+// Region → approximate user location passed to the web_search tool
+const USER_LOCATION: Record<SerpRegionKey, { country: string; city: string; timezone: string }> = {
+  sg: { country: "SG", city: "Singapore", timezone: "Asia/Singapore" },
+  us: { country: "US", city: "New York", timezone: "America/New_York" },
+};
+
+export type ChatgptAnswer = {
+  answer: string;      // final assistant text
+  citations: string[]; // cited URLs, in first-citation order (deduped)
+};
+
+/**
+ * Ask ChatGPT the prompt the way a user would (web search on) and capture
+ * the answer text plus every URL it cites.
+ */
+export async function chatgptAnswer(
+  query: string,
+  region: SerpRegionKey = "sg",
+  signal?: AbortSignal
+): Promise<ChatgptAnswer> {
+  if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not set");
+
+  const loc = USER_LOCATION[region] || USER_LOCATION.sg;
+
+  const resp = await withRetry(
+    async () => {
+      await acquire("openai", signal);
+      return openai.responses.create({
+        model: "gpt-4.1",
+        input: query,
+        tools: [
+          {
+            type: "web_search",
+            user_location: { type: "approximate", ...loc },
+          },
+        ],
+        tool_choice: "required",
+        temperature: 0.7,
+        max_output_tokens: 1500,
+      }, { signal });
+    },
+    { signal, label: "serp:chatgpt" }
+  );
+
+  const citations: string[] = [];
+  const seen = new Set<string>();
+  for (const item of resp.output || []) {
+    if (item.type !== "message") continue;
+    for (const part of item.content || []) {
+      if (part.type !== "output_text") continue;
+      for (const a of part.annotations || []) {
+        if (a.type !== "url_citation" || typeof a.url !== "string") continue;
+        if (seen.has(a.url)) continue;
+        seen.add(a.url);
+        citations.push(a.url);
+      }
+    }
+  }
+
+  return { answer: resp.output_text || "", citations };
+}
@@ -0,0 +1,122 @@
+// lib/client-store.ts
+// Browser side of the storage layer (lib/store.ts). With the Firebase backend
+// pages read and write the Realtime Database directly, as before; with the
+// local backend they go through /api/store, and watch() polls. Writes are
+// checked against the record schemas (lib/schema.ts) like server writes.
+import {
+  ref,
+  onValue,
+  set as fbSet,
+  push as fbPush,
+  remove as fbRemove,
+  query,
+  limitToLast as fbLimitToLast,
+} from "firebase/database";
+import { firebaseDb } from "./firebase";
+import { prepareWrite } from "./schema";
+
+export type WatchOptions = {
+  /** Only the last n children (by key), like RTDB limitToLast. */
+  limitToLast?: number;
+  onError?: (err: unknown) => void;
+};
+
+export interface ClientStore {
+  /** Current value now and after every change; returns the unsubscribe function. */
+  watch<T>(path: string, cb: (value: T | null) => void, opts?: WatchOptions): () => void;
+  set(path: string, value: unknown): Promise<void>;
+  push(path: string, value: unknown): Promise<string>;
+  remove(path: string): Promise<void>;
+}
+
+const POLL_MS = 2000;
+
+/** Write-time timestamp, resolved by the backend. */
+export function serverTimestamp(): object {
+  return { ".sv": "timestamp" };
+}
+
+function firebaseClientStore(): ClientStore {
+  const at = (path: string) => ref(firebaseDb(), path);
+  return {
+    watch(path, cb, opts = {}) {
+      const q = opts.limitToLast ? query(at(path), fbLimitToLast(opts.limitToLast)) : at(path);
+      return onValue(q, (snap) => cb(snap.val() ?? null), (err) => opts.onError?.(err));
+    },
+    set: (path, value) => fbSet(at(path), prepareWrite(path, value)),
+    async push(path, value) {
+      const node = fbPush(at(path));
+      await fbSet(node, prepareWrite(`${path}/${node.key}`, value));
+      return node.key!;
+    },
+    remove: (path) => fbRemove(at(path)),
+  };
+}
+
+function localClientStore(): ClientStore {
+  // Watchers re-read right after this tab writes instead of waiting for the next poll
+  const refreshers = new Set<() => void>();
+  const refreshAll = () => refreshers.forEach((r) => r());
+
+  async function call(method: string, path: string, value?: unknown) {
+    const res = await fetch(`/api/store?path=${encodeURIComponent(path)}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: value === undefined ? undefined : JSON.stringify({ value }),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json?.success) throw new Error(json?.error || `Store ${method} failed (${res.status})`);
+    refreshAll();
+    return json.data;
+  }
+
+  return {
+    watch<T>(path: string, cb: (value: T | null) => void, opts: WatchOptions = {}) {
+      let stopped = false;
+      let last: string | undefined;
+      const qs = new URLSearchParams({ path });
+      if (opts.limitToLast) qs.set("limit", String(opts.limitToLast));
+      const load = async () => {
+        try {
+          const res = await fetch(`/api/store?${qs}`, { cache: "no-store" });
+          const json = await res.json();
+          if (!json?.success) throw new Error(json?.error || `Store read failed (${res.status})`);
+          const body = JSON.stringify(json.data ?? null);
+          if (stopped || body === last) return; // only report changes, like onValue
+          last = body;
+          cb((json.data ?? null) as T | null);
+        } catch (err) {
+          if (!stopped) opts.onError?.(err);
+        }
+      };
+      refreshers.add(load);
+      load();
+      const timer = setInterval(load, POLL_MS);
+      return () => {
+        stopped = true;
+        refreshers.delete(load);
+        clearInterval(timer);
+      };
+    },
+    async set(path, value) {
+      await call("PUT", path, prepareWrite(path, value));
+    },
+    async push(path, value) {
+      prepareWrite(`${path}/new`, value); // the server stamps it under the real key
+      const data = await call("POST", path, value);
+      return String(data.key);
+    },
+    async remove(path) {
+      await call("DELETE", path);
+    },
+  };
+}
+
+let store: ClientStore | null = null;
+
+export function clientStore(): ClientStore {
+  if (!store) {
+    store = process.env.NEXT_PUBLIC_STORAGE_BACKEND === "local" ? localClientStore() : firebaseClientStore();
+  }
+  return store;
+}
@@ -0,0 +1,252 @@
+// lib/engine-adapters.ts
+// Server-side engine adapters. Each adapter is fetch → extract → match; the
+// runner stores match()'s record under results/{promptId}/{engineId}.
+
+import {
+  analyzeTop10,
+  serpTop10,
+  serpSearchRaw,
+  extractOrganicTop10,
+  extractShoppingSellerHosts,
+  fetchImmersiveStoresAndBrands,
+  analyzePresence,
+  analyzeImmersiveByBrand,
+  fetchAIOverview,
+  AIOverview,
+  SerpRegionKey,
+  SerpSearchJson,
+} from "./serp";
+import { chatgptAnswer } from "./chatgpt";
+import { perplexityAnswer } from "./perplexity";
+import { EngineId, StoredEngineResult, enginePresence } from "./engines";
+import { BrandTerms, detectMentions } from "./mentions";
+import { analyzeFraming } from "./framing";
+import { throwIfCancelled } from "./cancel";
+import { SerpCacheStats, createSerpCache } from "./serp-cache";
+
+export type EngineContext = {
+  promptId: string;
+  region: SerpRegionKey;
+  companyDomain: string;
+  competitorDomains: string[];
+  brands: BrandTerms[]; // company + competitor names for mention detection
+  signal?: AbortSignal; // aborts in-flight provider calls when the audit is cancelled
+  forceRefresh?: boolean; // skip SERP cache reads (profile setting / rerun option)
+};
+
+// Method syntax keeps adapters with concrete Raw/Extracted assignable to the registry type.
+export interface EngineAdapter<Raw = unknown, Extracted = unknown> {
+  id: EngineId;
+  /** Network step: everything that costs an API call (including follow-ups). */
+  fetch(query: string, ctx: EngineContext): Promise<Raw>;
+  /** Pure step: pull URLs / text / brands out of the raw payload. */
+  extract(raw: Raw, ctx: EngineContext): Extracted;
+  /** Pure step: company/competitor matching → the stored record (without status/updatedAt). */
+  match(extracted: Extracted, ctx: EngineContext): StoredEngineResult;
+  /** Optional: the answer text shown to the user (drives brand mention detection). */
+  answerText?(extracted: Extracted): string;
+  /** Optional: rebuild the extracted data from a stored record (re-matching without a fetch). */
+  restore?(record: StoredEngineResult): Extracted;
+}
+
+// ------------------------ Google (organic + shopping + immersive + AIO) ------------------------
+type GoogleRaw = {
+  data: SerpSearchJson;
+  immersive: { hosts: Set<string>; brands: Set<string> };
+  aio: AIOverview;
+  cache: SerpCacheStats;
+};
+type GoogleExtracted = {
+  top10: string[];
+  shoppingHosts: string[];
+  immersiveHosts: string[];
+  immersiveBrands: string[];
+  aio: AIOverview;
+  cache: SerpCacheStats;
+};
+
+const google: EngineAdapter<GoogleRaw, GoogleExtracted> = {
+  id: "google",
+  async fetch(query, ctx) {
+    // 1) Full SERP JSON (region-aware), then the follow-ups that need it — all via the shared cache
+    // Writes wait until every call succeeded: a cached SERP without its AIO would replay an expired token
+    const cache = createSerpCache({ forceRefresh: ctx.forceRefresh, deferWrites: true });
+    const data = await serpSearchRaw(query, ctx.region, ctx.signal, cache);
+    const immersive = await fetchImmersiveStoresAndBrands(data, ctx.region, ctx.signal, cache);
+    const aio = await fetchAIOverview(data, ctx.region, ctx.signal, cache);
+    await cache.flush();
+    return { data, immersive, aio, cache: cache.stats() };
+  },
+  extract(raw) {
+    return {
+      top10: extractOrganicTop10(raw.data),
+      shoppingHosts: [...extractShoppingSellerHosts(raw.data)],
+      immersiveHosts: [...raw.immersive.hosts],
+      immersiveBrands: [...raw.immersive.brands],
+      aio: raw.aio,
+      cache: raw.cache,
+    };
+  },
+  match(x, ctx) {
+    const { companyDomain, competitorDomains } = ctx;
+    const organic = analyzeTop10(x.top10, companyDomain, competitorDomains);
+    const shopping = analyzePresence(x.shoppingHosts, companyDomain, competitorDomains);
+    const immersive = analyzeImmersiveByBrand(x.immersiveBrands, companyDomain, competitorDomains);
+    const aioHit = analyzeTop10(x.aio.references.map((r) => r.link), companyDomain, competitorDomains);
+
+    return {
+      // legacy fields (organic-only) — UI shows ALL URLs
+      top10: x.top10,
+      hasCompany: organic.hasCompany,
+      competitorsHit: organic.competitorsHit,
+      shopping: {
+        sellers: x.shoppingHosts,
+        hasCompany: shopping.hasCompany,
+        competitorsHit: shopping.competitorsHit,
+      },
+      immersive: {
+        sellers: x.immersiveHosts,                // informational (not used for matching)
+        brands: x.immersiveBrands,                // authoritative for matching
+        hasCompany: immersive.hasCompany,         // BRAND-BASED
+        competitorsHit: immersive.competitorsHit, // BRAND-BASED
+      },
+      aiOverview: {
+        present: x.aio.present,
+        textBlocks: x.aio.textBlocks,
+        references: x.aio.references,
+        hasCompany: aioHit.hasCompany,            // company domain among AIO reference links
+        competitorsHit: aioHit.competitorsHit,
+      },
+      serpCache: x.cache,
+    };
+  },
+  answerText: (x) => (x.aio.present ? x.aio.textBlocks.join("\n") : ""),
+  restore: (r) => ({
+    top10: r.top10 || [],
+    shoppingHosts: r.shopping?.sellers || [],
+    immersiveHosts: r.immersive?.sellers || [],
+    immersiveBrands: r.immersive?.brands || [],
+    aio: {
+      present: r.aiOverview?.present === true,
+      textBlocks: r.aiOverview?.textBlocks || [],
+      references: (r.aiOverview?.references || []).map((x) => ({ title: x.title || "", link: x.link, source: x.source || "" })),
+    },
+    cache: r.serpCache || { hits: 0, misses: 0 },
+  }),
+};
+
+// ------------------------ Bing (organic top 10) ------------------------
+const bing: EngineAdapter<string[], string[]> = {
+  id: "bing",
+  fetch: (query, ctx) => serpTop10(query, "bing", ctx.region, ctx.signal),
+  extract: (raw) => raw,
+  match(top10, ctx) {
+    const b = analyzeTop10(top10, ctx.companyDomain, ctx.competitorDomains);
+    return { top10, hasCompany: b.hasCompany, competitorsHit: b.competitorsHit };
+  },
+  restore: (r) => r.top10 || [],
+};
+
+// ------------------------ Answer engines (answer text + cited URLs) ------------------------
+type Answer = { answer: string; citations: string[] };
+
+function answerMatch(x: Answer, ctx: EngineContext): StoredEngineResult {
+  const c = analyzeTop10(x.citations, ctx.companyDomain, ctx.competitorDomains);
+  return {
+    answer: x.answer,
+    citations: x.citations,
+    hasCompany: c.hasCompany,
+    competitorsHit: c.competitorsHit,
+  };
+}
+
+const restoreAnswer = (r: StoredEngineResult): Answer => ({ answer: r.answer || "", citations: r.citations || [] });
+
+const chatgpt: EngineAdapter<Answer, Answer> = {
+  id: "chatgpt",
+  fetch: (query, ctx) => chatgptAnswer(query, ctx.region, ctx.signal),
+  extract: (raw) => raw,
+  match: answerMatch,
+  answerText: (x) => x.answer,
+  restore: restoreAnswer,
+};
+
+const perplexity: EngineAdapter<Answer, Answer> = {
+  id: "perplexity",
+  fetch: (query, ctx) => perplexityAnswer(query, ctx.region, ctx.signal),
+  extract: (raw) => raw,
+  match: answerMatch,
+  answerText: (x) => x.answer,
+  restore: restoreAnswer,
+};
+
+// ------------------------ Registry ------------------------
+export const ADAPTERS: Record<EngineId, EngineAdapter> = {
+  google,
+  bing,
+  chatgpt,
+  perplexity,
+};
+
+/** fetch → extract → match (+ mention detection on answer text) for one sample of an engine/prompt pair. */
+export async function runAdapter(
+  adapter: EngineAdapter,
+  query: string,
+  ctx: EngineContext
+): Promise<StoredEngineResult> {
+  const raw = await adapter.fetch(query, ctx); // provider calls retry on their own (lib/retry.ts)
+  const extracted = adapter.extract(raw, ctx);
+  const record = adapter.match(extracted, ctx);
+
+  const text = adapter.answerText?.(extracted);
+  if (text) {
+    const cited = enginePresence(adapter.id, record);
+    record.mentions = detectMentions(text, ctx.brands, {
+      company: cited.hasCompany === true,
+      competitors: cited.competitorsHit,
+    });
+  }
+  return record;
+}
+
+/**
+ * Analysis stage, once per pair: how the representative answer (sample #1)
+ * frames each mentioned brand. Best-effort; sets record.framing.
+ */
+export async function addFraming(adapter: EngineAdapter, record: StoredEngineResult, ctx: EngineContext) {
+  const text = adapter.restore && adapter.answerText?.(adapter.restore(record));
+  if (!text || !record.mentions) return;
+  throwIfCancelled(ctx.signal);
+  try {
+    const framing = await analyzeFraming(text, ctx.brands, record.mentions);
+    if (framing) record.framing = framing;
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    console.error("[SERP][framing][error]", { promptId: ctx.promptId, engine: adapter.id, error });
+  }
+}
+
+/**
+ * Re-run extract → match on a stored record after the company/competitor terms
+ * changed: no provider call. Framing and per-sample evidence are kept (the
+ * runner re-judges samples); returns null when the record can't be re-matched.
+ */
+export function rematchStored(
+  adapter: EngineAdapter,
+  stored: StoredEngineResult,
+  ctx: EngineContext
+): StoredEngineResult | null {
+  if (stored.status !== "done" || !adapter.restore) return null;
+  const extracted = adapter.restore(stored);
+  const record: StoredEngineResult = { ...stored, ...adapter.match(extracted, ctx) };
+
+  const text = adapter.answerText?.(extracted);
+  if (text) {
+    const cited = enginePresence(adapter.id, record);
+    record.mentions = detectMentions(text, ctx.brands, {
+      company: cited.hasCompany === true,
+      competitors: cited.competitorsHit,
+    });
+  }
+  return record;
+}
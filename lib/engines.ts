@@ -0,0 +1,126 @@
+// lib/engines.ts
+// Engine registry (metadata only — safe to import from client components).
+// Server-side fetch/extract/match adapters live in lib/engine-adapters.ts.
+
+import type { AnswerMentions } from "./mentions";
+import type { AnswerFraming } from "./framing";
+import type { SerpCacheStats } from "./serp-cache";
+
+export type EngineId = "google" | "bing" | "chatgpt" | "perplexity";
+
+// Report channels (keys of report.opportunities[].channels)
+export type ReportChannel = "chatgpt" | "perplexity" | "googleAIO";
+
+export type EngineMeta = {
+  id: EngineId;
+  label: string;           // dashboard column header / badges
+  channel?: ReportChannel; // report channel this engine feeds (none = not reported)
+  weight: number;          // contribution to presenceScore when the company is present
+  defaultEnabled: boolean; // used when a profile has no explicit `engines` list
+};
+
+export const ENGINES: EngineMeta[] = [
+  { id: "chatgpt", label: "ChatGPT", channel: "chatgpt", weight: 1.2, defaultEnabled: true },
+  { id: "perplexity", label: "Perplexity", channel: "perplexity", weight: 1, defaultEnabled: true },
+  { id: "google", label: "Google AIO", channel: "googleAIO", weight: 1, defaultEnabled: true },
+  { id: "bing", label: "Bing", weight: 0, defaultEnabled: true }, // organic page 1 (per-prompt report only)
+];
+
+export const ENGINE_IDS = ENGINES.map((e) => e.id);
+
+export function isEngineId(x: unknown): x is EngineId {
+  return typeof x === "string" && (ENGINE_IDS as string[]).includes(x);
+}
+
+// Answers are non-deterministic: each engine/prompt pair can be sampled N times
+export const DEFAULT_SAMPLES = 1;
+export const MAX_SAMPLES = 5;
+
+/** Samples per engine/prompt pair for a profile (clamped to 1..MAX_SAMPLES). */
+export function resolveSamples(profile?: { samples?: unknown } | null): number {
+  const n = Number(profile?.samples);
+  if (!Number.isFinite(n)) return DEFAULT_SAMPLES;
+  return Math.min(MAX_SAMPLES, Math.max(1, Math.round(n)));
+}
+
+/** Engines enabled for a profile (registry order). Falls back to the defaults. */
+export function resolveEngines(profile?: { engines?: unknown } | null): EngineMeta[] {
+  const raw = profile?.engines;
+  const list = Array.isArray(raw) ? raw.filter(isEngineId) : [];
+  if (!list.length) return ENGINES.filter((e) => e.defaultEnabled);
+  return ENGINES.filter((e) => list.includes(e.id));
+}
+
+// ---------- Stored result shape: profiles/{id}/results/{promptId}/{engineId} ----------
+export type StoredEngineResult = {
+  status?: "checking" | "done" | "error" | "cancelled";
+  error?: string;
+  attempts?: number;   // provider calls made before the error (retries included)
+  serpCache?: SerpCacheStats; // SerpAPI calls served from the shared cache (google)
+  transient?: boolean; // error looked transient (429/5xx/timeout) but retries ran out
+  hasCompany?: boolean;
+  competitorsHit?: string[];
+  updatedAt?: number;
+  schemaVersion?: number; // lib/schema.ts
+  // brand mentions in the answer text (engines that produce text)
+  mentions?: AnswerMentions;
+  // sentiment/role/claims per mentioned brand (analysis stage)
+  framing?: AnswerFraming;
+  // multi-sample runs (absent when the pair was checked once); other fields are sample #1
+  sampleCount?: number;   // samples that succeeded (rates are over these)
+  failedSamples?: number; // samples that errored; absent when none did
+  presenceRate?: number;   // share of samples where the company was present (0..1)
+  competitorRate?: number; // share of samples with at least one competitor hit (0..1)
+  // sources: the full URL list presence was judged from; rematchable marks samples
+  // stored with it (older samples kept a truncated list and can't be re-judged)
+  samples?: Array<{ present: boolean; competitorsHit: string[]; sources: string[]; rematchable?: boolean }>;
+  // organic engines (google, bing)
+  top10?: string[];
+  // answer engines (chatgpt, perplexity)
+  answer?: string;
+  citations?: string[];
+  // google extras
+  shopping?: { sellers?: string[]; hasCompany?: boolean; competitorsHit?: string[] };
+  immersive?: { sellers?: string[]; brands?: string[]; hasCompany?: boolean; competitorsHit?: string[] };
+  aiOverview?: {
+    present?: boolean;
+    textBlocks?: string[];
+    references?: Array<{ title?: string; link: string; source?: string }>;
+    hasCompany?: boolean;
+    competitorsHit?: string[];
+  };
+};
+
+export type EnginePresence = {
+  hasCompany?: boolean;
+  competitorsHit: string[];
+  rate?: number;          // presence probability (sampled rate, or 0/1 for a single check)
+  competitorRate: number; // probability of at least one competitor hit
+};
+
+/**
+ * Presence for one engine result as shown in the dashboard and report.
+ * hasCompany/rate are undefined when there is nothing to judge (e.g. no AI Overview shown).
+ */
+export function enginePresence(id: EngineId, r?: StoredEngineResult | null): EnginePresence {
+  if (!r) return { competitorsHit: [], competitorRate: 0 };
+
+  let hasCompany: boolean | undefined;
+  let hits: unknown;
+  if (id === "google") {
+    const aio = r.aiOverview;
+    hasCompany = aio?.present ? aio.hasCompany === true : undefined;
+    hits = aio?.competitorsHit;
+  } else {
+    hasCompany = typeof r.hasCompany === "boolean" ? r.hasCompany : undefined;
+    hits = r.competitorsHit;
+  }
+  const competitorsHit = Array.isArray(hits) ? hits : [];
+
+  const rate =
+    typeof r.presenceRate === "number" ? r.presenceRate : hasCompany === undefined ? undefined : hasCompany ? 1 : 0;
+  const competitorRate =
+    typeof r.competitorRate === "number" ? r.competitorRate : competitorsHit.length ? 1 : 0;
+
+  return { hasCompany, competitorsHit, rate, competitorRate };
+}
@@ -0,0 +1,152 @@
+// lib/fact-check.ts
+// Brand fact-check: compare the claims AI answers make about the company
+// (framing stage) against the scraped site content.
+import OpenAI from "openai";
+import { ENGINES, EngineId, StoredEngineResult, isEngineId } from "./engines";
+import { getResults, listPrompts, requireProfile, updateProfile } from "./repository";
+import { withRetry } from "./retry";
+import { acquire } from "./rate-limit";
+
+// ───────────────── OpenAI (Responses API, plain JSON instruction) ─────────────────
+const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY!, maxRetries: 0 });
+
+export type ClaimVerdict = "supported" | "contradicted" | "unverifiable";
+
+export type CheckedClaim = {
+  claim: string;
+  verdict: ClaimVerdict;
+  evidence: string;    // quote from the site ("" when unverifiable)
+  note: string;        // one-line explanation (e.g. what the site says instead)
+  engines: string[];   // engine labels that made the claim
+  promptIds: string[]; // prompts whose answers made the claim
+};
+
+export type FactCheck = {
+  generatedAt: number;
+  claims: CheckedClaim[];
+  summary: Record<ClaimVerdict, number>;
+};
+
+const VERDICTS: ClaimVerdict[] = ["supported", "contradicted", "unverifiable"];
+const MAX_CLAIMS = 40;
+
+function stripCodeFences(s: string) {
+  return s.replace(/^\s*```(?:json)?/i, "").replace(/```?\s*$/i, "").trim();
+}
+function extractJsonBlock(s: string) {
+  const first = s.indexOf("{");
+  const last = s.lastIndexOf("}");
+  if (first !== -1 && last !== -1 && last > first) return s.slice(first, last + 1);
+  return s.trim();
+}
+function safeParse<T>(text: string): T {
+  const stripped = stripCodeFences(text);
+  try {
+    return JSON.parse(stripped);
+  } catch {
+    return JSON.parse(extractJsonBlock(stripped));
+  }
+}
+
+/** Company claims from every engine answer, deduped (case-insensitive) with their sources. */
+function collectClaims(results: Record<string, Partial<Record<EngineId, StoredEngineResult>>>) {
+  const byKey = new Map<string, { claim: string; engines: Set<string>; promptIds: Set<string> }>();
+  for (const [promptId, perEngine] of Object.entries(results)) {
+    for (const [engineId, r] of Object.entries(perEngine || {})) {
+      if (!isEngineId(engineId)) continue;
+      const label = ENGINES.find((e) => e.id === engineId)?.label || engineId;
+      for (const raw of r?.framing?.company?.claims || []) {
+        const claim = raw.trim();
+        if (!claim) continue;
+        const key = claim.toLowerCase();
+        const row = byKey.get(key) || { claim, engines: new Set<string>(), promptIds: new Set<string>() };
+        row.engines.add(label);
+        row.promptIds.add(promptId);
+        byKey.set(key, row);
+      }
+    }
+  }
+  // Most repeated claims first (they matter most to how the brand is perceived)
+  return [...byKey.values()]
+    .sort((a, b) => b.promptIds.size - a.promptIds.size)
+    .slice(0, MAX_CLAIMS);
+}
+
+export async function runFactCheckForProfile(profileId: string): Promise<FactCheck> {
+  if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not set");
+
+  const profile = await requireProfile(profileId);
+  const site = profile.scrape?.markdownPreview || "";
+  if (!site) throw new Error("No scraped site content to check against");
+
+  // Results of trashed prompts stay stored until purged; only live prompts count
+  const [results, prompts] = await Promise.all([getResults(profileId), listPrompts(profileId)]);
+  const claims = collectClaims(Object.fromEntries(prompts.map((p) => [p.promptId, results[p.promptId] || {}])));
+  const summary: Record<ClaimVerdict, number> = { supported: 0, contradicted: 0, unverifiable: 0 };
+
+  let checked: CheckedClaim[] = [];
+  if (claims.length) {
+    const instructions = [
+      "You fact-check statements AI assistants made about a company against the company's own website content.",
+      "For each numbered claim decide: supported (the site states it), contradicted (the site states something incompatible, e.g. different price, missing feature, other location), or unverifiable (the site does not address it).",
+      "evidence: a short verbatim quote from the site content backing the verdict (empty string when unverifiable).",
+      "note: one short line; for contradicted claims say what the site says instead.",
+      "Judge only against the provided site content, not your own knowledge.",
+      "Output format rule: return ONLY raw JSON, no code fences, no explanations.",
+    ].join("\n");
+
+    const input = [
+      `Company: ${profile.companyName} (${profile.websiteUrl})`,
+      "",
+      "Site content:",
+      site,
+      "",
+      "Claims:",
+      ...claims.map((c, i) => `${i + 1}. ${c.claim}`),
+      "",
+      'Return JSON: {"claims": [{"index": 1, "verdict": "supported|contradicted|unverifiable", "evidence": "string", "note": "string"}]}',
+    ].join("\n");
+
+    const resp = await withRetry(
+      async () => {
+        await acquire("openai");
+        return openai.responses.create({
+          model: "gpt-4.1",
+          instructions,
+          input,
+          temperature: 0,
+          max_output_tokens: 3000,
+        });
+      },
+      { label: "openai:fact-check" }
+    );
+
+    type RawVerdict = { index?: unknown; verdict?: unknown; evidence?: unknown; note?: unknown };
+    const parsed = safeParse<{ claims?: RawVerdict[] }>(resp.output_text || "{}");
+    const byIndex = new Map<number, RawVerdict>();
+    for (const v of parsed?.claims || []) if (typeof v?.index === "number") byIndex.set(v.index, v);
+
+    checked = claims.map((c, i) => {
+      const v = byIndex.get(i + 1);
+      const verdict = VERDICTS.find((x) => x === v?.verdict) || "unverifiable";
+      return {
+        claim: c.claim,
+        verdict,
+        evidence: typeof v?.evidence === "string" ? v.evidence : "",
+        note: typeof v?.note === "string" ? v.note : "",
+        engines: [...c.engines],
+        promptIds: [...c.promptIds],
+      };
+    });
+  }
+
+  for (const c of checked) summary[c.verdict] += 1;
+
+  // Contradictions first — they are what clients need to act on
+  const order: Record<ClaimVerdict, number> = { contradicted: 0, unverifiable: 1, supported: 2 };
+  checked.sort((a, b) => order[a.verdict] - order[b.verdict]);
+
+  const result: FactCheck = { generatedAt: Date.now(), claims: checked, summary };
+  await updateProfile(profileId, { factCheck: result });
+  return result;
+}
@@ -0,0 +1,26 @@
+// lib/firebase.ts
+// Firebase client SDK init (config from env). Only the Firebase storage
+// backends talk to it: lib/store-firebase.ts (server) and lib/client-store.ts.
+import { initializeApp, getApps } from "firebase/app";
+import { getDatabase, Database } from "firebase/database";
+
+let db: Database | null = null;
+
+/** RTDB handle, created on first use (the local backend never needs the Firebase env). */
+export function firebaseDb(): Database {
+  if (!db) {
+    if (!getApps().length) {
+      initializeApp({
+        apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
+        authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
+        databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL!,
+        projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
+        storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
+        messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
+        appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
+      });
+    }
+    db = getDatabase();
+  }
+  return db;
+}
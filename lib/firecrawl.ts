@@ -0,0 +1,72 @@
+// lib/firecrawl.ts
+import Firecrawl, { type Document } from "@mendable/firecrawl-js";
+import { serverTimestamp } from "./store";
+import { requireProfile, updateProfile } from "./repository";
+import { withRetry } from "./retry";
+import { acquire } from "./rate-limit";
+import { MAX_POSITIONING_CHARS } from "./pipeline";
+
+const firecrawl = new Firecrawl({ apiKey: process.env.FIRECRAWL_API_KEY! });
+
+// v2 returns the document itself; v1-style payloads nest it under data
+type ScrapedDoc = Document & { data?: Document };
+
+/** Scrape the profile's home page (single page) and store the preview under profiles/{id}/scrape. */
+export async function scrapeProfileSite(profileId: string) {
+  if (!process.env.FIRECRAWL_API_KEY) throw new Error("FIRECRAWL_API_KEY is not set");
+
+  const profile = await requireProfile(profileId);
+
+  // Mark scraping
+  await updateProfile(profileId, { status: "scraping", progress: 25, updatedAt: serverTimestamp() });
+
+  // SCRAPE (single page)
+  const doc: ScrapedDoc = await withRetry(
+    async () => {
+      await acquire("firecrawl");
+      return firecrawl.scrape(profile.websiteUrl, { formats: ["markdown", "html"] });
+    },
+    { label: "firecrawl" }
+  );
+  const markdown = doc?.markdown ?? doc?.data?.markdown ?? "";
+  const html = doc?.html ?? doc?.data?.html;
+
+  // Save preview
+  await updateProfile(profileId, {
+    scrape: {
+      url: profile.websiteUrl,
+      markdownPreview: markdown.slice(0, 10000),
+      markdownBytes: Buffer.byteLength(markdown, "utf8"),
+      htmlPreview: html ? String(html).slice(0, 5000) : undefined,
+      scrapedAt: Date.now(),
+    },
+    progress: 45,
+    updatedAt: serverTimestamp(),
+  });
+
+  return { bytes: Buffer.byteLength(markdown, "utf8") };
+}
+
+/**
+ * Pipeline with scraping turned off: store the pasted positioning text where the
+ * scrape preview goes, so prompt generation and the fact-check read it the same way.
+ */
+export async function saveManualSiteContent(profileId: string, text: string) {
+  const profile = await requireProfile(profileId);
+
+  const markdown = text.slice(0, MAX_POSITIONING_CHARS);
+  await updateProfile(profileId, {
+    scrape: {
+      url: profile.websiteUrl,
+      source: "manual",
+      markdownPreview: markdown,
+      markdownBytes: Buffer.byteLength(markdown, "utf8"),
+      scrapedAt: Date.now(),
+    },
+    status: "scraping",
+    progress: 45,
+    updatedAt: serverTimestamp(),
+  });
+
+  return { bytes: Buffer.byteLength(markdown, "utf8"), manual: true };
+}
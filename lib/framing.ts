@@ -0,0 +1,123 @@
+// lib/framing.ts
+// Sentiment/role analysis of how an AI answer talks about each mentioned brand.
+import OpenAI from "openai";
+import type { AnswerMentions, BrandTerms } from "./mentions";
+import { withRetry } from "./retry";
+import { acquire } from "./rate-limit";
+
+// ───────────────── OpenAI (Responses API, plain JSON instruction) ─────────────────
+const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY!, maxRetries: 0 });
+
+export type BrandSentiment = "positive" | "neutral" | "negative";
+export type BrandRole = "top_pick" | "alternative" | "warning";
+
+export type BrandFraming = {
+  domain: string;
+  sentiment: BrandSentiment;
+  role: BrandRole;
+  claims: string[]; // short factual/qualitative statements the answer makes about the brand
+};
+
+export type AnswerFraming = {
+  company?: BrandFraming;      // absent when the company is not mentioned
+  competitors: BrandFraming[]; // mentioned competitors only
+};
+
+const SENTIMENTS: BrandSentiment[] = ["positive", "neutral", "negative"];
+const ROLES: BrandRole[] = ["top_pick", "alternative", "warning"];
+
+function stripCodeFences(s: string) {
+  return s.replace(/^\s*```(?:json)?/i, "").replace(/```?\s*$/i, "").trim();
+}
+function extractJsonBlock(s: string) {
+  const first = s.indexOf("{");
+  const last = s.lastIndexOf("}");
+  if (first !== -1 && last !== -1 && last > first) return s.slice(first, last + 1);
+  return s.trim();
+}
+function safeParse<T>(text: string): T {
+  const stripped = stripCodeFences(text);
+  try {
+    return JSON.parse(stripped);
+  } catch {
+    return JSON.parse(extractJsonBlock(stripped));
+  }
+}
+
+// Model output before validation
+type RawFraming = { domain?: unknown; sentiment?: unknown; role?: unknown; claims?: unknown };
+
+function coerceFraming(domain: string, raw?: RawFraming): BrandFraming {
+  const sentiment = SENTIMENTS.find((x) => x === raw?.sentiment);
+  const role = ROLES.find((x) => x === raw?.role);
+  return {
+    domain,
+    sentiment: sentiment || "neutral",
+    role: role || "alternative",
+    claims: Array.isArray(raw?.claims)
+      ? raw.claims.filter((c: unknown): c is string => typeof c === "string" && !!c.trim()).slice(0, 6)
+      : [],
+  };
+}
+
+/**
+ * Classify sentiment + role and extract claims for every brand the answer
+ * mentions. Returns null when no brand is mentioned (no LLM call is made).
+ */
+export async function analyzeFraming(
+  text: string,
+  brands: BrandTerms[],
+  mentions: AnswerMentions
+): Promise<AnswerFraming | null> {
+  const mentioned = new Set(
+    [mentions.company, ...mentions.competitors].filter((m) => m.mentioned).map((m) => m.domain)
+  );
+  const targets = brands.filter((b) => mentioned.has(b.domain));
+  if (!targets.length) return null;
+  if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not set");
+
+  const instructions = [
+    "You analyze how an AI assistant's answer talks about specific brands.",
+    "For each brand listed, judge ONLY what the answer says about it.",
+    "sentiment: positive | neutral | negative.",
+    "role: top_pick (recommended first or as the best option) | alternative (listed among options) | warning (cautioned against, downsides stressed).",
+    "claims: up to 6 short statements the answer makes about the brand (pricing, features, fit, locations…), paraphrased, no opinions of your own.",
+    "Output format rule: return ONLY raw JSON, no code fences, no explanations.",
+  ].join("\n");
+
+  const input = [
+    "Brands (domain — names used):",
+    ...targets.map((b) => `- ${b.domain} — ${b.terms.join(", ")}`),
+    "",
+    "Answer:",
+    text,
+    "",
+    'Return JSON: {"brands": [{"domain": "string", "sentiment": "positive|neutral|negative", "role": "top_pick|alternative|warning", "claims": ["string"]}]}',
+  ].join("\n");
+
+  const resp = await withRetry(
+    async () => {
+      await acquire("openai");
+      return openai.responses.create({
+        model: "gpt-4.1",
+        instructions,
+        input,
+        temperature: 0,
+        max_output_tokens: 900,
+      });
+    },
+    { label: "openai:framing" }
+  );
+
+  const parsed = safeParse<{ brands?: RawFraming[] }>(resp.output_text || "{}");
+  const byDomain = new Map<string, RawFraming>();
+  for (const b of parsed?.brands || []) if (typeof b?.domain === "string") byDomain.set(b.domain, b);
+
+  const out: AnswerFraming = { competitors: [] };
+  for (const b of targets) {
+    const f = coerceFraming(b.domain, byDomain.get(b.domain));
+    if (b.kind === "company") out.company = f;
+    else out.competitors.push(f);
+  }
+  return out;
+}
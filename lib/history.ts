@@ -0,0 +1,55 @@
+// lib/history.ts
+// Dated snapshots of SERP results. Every run that checks engines records
+// itself under history/{id}/runs/{runId} (with one timeline point per pair it
+// checked) and copies the results tree to history/{id}/snapshots/{runId}, so
+// later runs no longer erase what an earlier one found.
+import { EngineId, enginePresence } from "./engines";
+import { AuditRun, RunPoint, getResults, getRun, saveRunSnapshot } from "./repository";
+import { currentRunOf } from "./run-log";
+
+export type CheckedPair = { promptId: string; engine: EngineId };
+
+/**
+ * Snapshot the results after a run (best-effort: history never fails the run).
+ * The run id/kind come from the run log (startRunLog); a run recorded in
+ * several passes keeps its first startedAt.
+ */
+export async function recordRunSnapshot(
+  profileId: string,
+  startedAt: number,
+  status: AuditRun["status"],
+  checked: CheckedPair[]
+) {
+  const { runId, kind } = currentRunOf(profileId) || { runId: `serp-${startedAt}`, kind: "serp" };
+  try {
+    const [results, prior] = await Promise.all([getResults(profileId), getRun(profileId, runId)]);
+
+    const points: Array<{ promptId: string; engine: EngineId; point: RunPoint }> = [];
+    for (const { promptId, engine } of checked) {
+      const r = results[promptId]?.[engine];
+      if (r?.status !== "done" && r?.status !== "error") continue; // cancelled / never ran
+      const pres = enginePresence(engine, r);
+      const point: RunPoint = {
+        status: r.status,
+        competitorRate: pres.competitorRate,
+        checkedAt: r.updatedAt || Date.now(),
+      };
+      if (r.status === "done") {
+        if (pres.hasCompany !== undefined) point.present = pres.hasCompany;
+        if (pres.rate !== undefined) point.rate = pres.rate;
+        if (pres.competitorsHit.length) point.competitorsHit = pres.competitorsHit;
+      }
+      points.push({ promptId, engine, point });
+    }
+
+    const engines = Array.from(new Set([...(prior?.engines || []), ...checked.map((c) => c.engine)]));
+    await saveRunSnapshot(
+      profileId,
+      { runId, kind, status, startedAt: prior?.startedAt ?? startedAt, finishedAt: Date.now(), engines },
+      points,
+      results
+    );
+  } catch (e) {
+    console.error("[HISTORY][snapshot][error]", { profileId, runId, error: String(e) });
+  }
+}
@@ -0,0 +1,327 @@
+// lib/jobs.ts
+// Durable audit jobs. Each bootstrap is persisted as jobs/{jobId} with a step
+// record (scrape → prompts → volume → serp) and processed by the worker below,
+// outside the HTTP request. A failed job resumes from its first unfinished step.
+// The worker runs in-process (routes kick it in after()); /api/jobs/worker must
+// be called on a schedule (vercel.json cron) so stale jobs are picked up again.
+import { getStore, serverTimestamp } from "./store";
+import { getProfile, updateProfile } from "./repository";
+import { saveManualSiteContent, scrapeProfileSite } from "./firecrawl";
+import { generatePromptsForProfile, seedFixedPrompts } from "./prompt-gen";
+import { PipelineSettings, resolvePipeline } from "./pipeline";
+import { enrichPromptVolumes } from "./volume";
+import { runSerpChecksForProfile } from "./serp-runner";
+import { runFactCheckForProfile } from "./fact-check";
+import { endRunLog, logEvent, startRunLog, timed } from "./run-log";
+import { acquireRunLock } from "./run-lock";
+import { sweepExpiredTrash } from "./trash";
+import { sweepExpiredSerpCache } from "./serp-cache";
+import {
+  clearCancel,
+  isCancelError,
+  markProfileCancelled,
+  requestCancel,
+  throwIfCancelled,
+  watchCancel,
+} from "./cancel";
+
+export type JobStep = "scrape" | "prompts" | "volume" | "serp";
+export const JOB_STEPS: JobStep[] = ["scrape", "prompts", "volume", "serp"];
+
+export type JobStatus = "queued" | "running" | "done" | "error" | "cancelled";
+export type StepStatus = "pending" | "running" | "done" | "error" | "cancelled";
+
+export type JobStepRecord = {
+  status: StepStatus;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  skipped?: boolean; // turned off in the profile's pipeline settings
+};
+
+export type AuditJob = {
+  id: string;
+  profileId: string;
+  status: JobStatus;
+  steps: Record<JobStep, JobStepRecord>;
+  attempts: number;   // worker runs (1 + resumes)
+  requestedBy?: string;
+  createdAt: number;
+  updatedAt: number;  // heartbeat while running
+  startedAt?: number;
+  finishedAt?: number;
+  lastError?: string;
+};
+
+const HEARTBEAT_MS = 30_000;
+// A running job without a heartbeat for this long lost its worker (crash/redeploy)
+const STALE_MS = 5 * 60_000;
+
+// Volume is enrichment only: a failure is recorded but does not stop the audit
+const OPTIONAL_STEPS: JobStep[] = ["volume"];
+
+// Runners get the cancel signal and the profile's pipeline settings; steps
+// without abortable calls rely on the checkpoint between steps in runJob.
+type StepRunner = (profileId: string, signal: AbortSignal, pipeline: PipelineSettings) => Promise<unknown>;
+
+const STEP_RUNNERS: Record<JobStep, StepRunner> = {
+  scrape: (profileId, _signal, pipeline) =>
+    pipeline.scrape ? scrapeProfileSite(profileId) : saveManualSiteContent(profileId, pipeline.positioningText || ""),
+  prompts: (profileId, signal, pipeline) =>
+    pipeline.generatePrompts
+      ? generatePromptsForProfile(profileId, signal)
+      : seedFixedPrompts(profileId, pipeline.fixedPrompts || {}),
+  volume: (profileId) => enrichPromptVolumes(profileId),
+  serp: async (profileId, signal) => {
+    await runSerpChecksForProfile(profileId, signal);
+    // Fact-check AI claims against the scraped site (best-effort; rerun via /fact-check)
+    try {
+      await timed(profileId, { step: "fact-check", provider: "openai", message: "Fact-check" }, () =>
+        runFactCheckForProfile(profileId)
+      );
+    } catch {
+      // logged by timed(); the audit itself succeeded
+    }
+  },
+};
+
+/** Steps the profile's pipeline turns off entirely (recorded as done + skipped). */
+function isStepSkipped(step: JobStep, pipeline: PipelineSettings) {
+  return step === "volume" && !pipeline.volume;
+}
+
+function freshSteps(): Record<JobStep, JobStepRecord> {
+  return Object.fromEntries(JOB_STEPS.map((s) => [s, { status: "pending" }])) as Record<JobStep, JobStepRecord>;
+}
+
+/** Unfinished steps go back to pending; completed steps are kept (resume point). */
+function resetUnfinished(steps?: Partial<Record<JobStep, JobStepRecord>>): Record<JobStep, JobStepRecord> {
+  const out = freshSteps();
+  for (const s of JOB_STEPS) if (steps?.[s]?.status === "done") out[s] = steps[s]!;
+  return out;
+}
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+// ───────────────── Queue ─────────────────
+
+/**
+ * Queue a fresh audit for a profile (all steps pending). If the profile already
+ * has a queued/running audit, that job is returned instead (duplicate: true).
+ */
+export async function enqueueAuditJob(
+  profileId: string,
+  requestedBy = "unknown"
+): Promise<{ job: AuditJob; duplicate: boolean }> {
+  const profile = await getProfile(profileId);
+  if (!profile) throw new Error("Profile not found");
+
+  const currentId = profile.jobId;
+  const current = currentId ? await getAuditJob(currentId) : null;
+  if (current && (current.status === "queued" || current.status === "running")) {
+    return { job: current, duplicate: true };
+  }
+
+  const now = Date.now();
+  const job: AuditJob = {
+    id: getStore().newKey("jobs"),
+    profileId,
+    status: "queued",
+    steps: freshSteps(),
+    attempts: 0,
+    requestedBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getStore().set(`jobs/${job.id}`, job);
+  await clearCancel(profileId);
+  await updateProfile(profileId, { jobId: job.id, status: "queued", updatedAt: serverTimestamp() });
+  return { job, duplicate: false };
+}
+
+/**
+ * Re-queue the profile's failed or cancelled job from its last completed step.
+ * Returns null when there is nothing to resume (no job, or it is still active/done).
+ */
+export async function resumeAuditJob(profileId: string): Promise<AuditJob | null> {
+  const profile = await getProfile(profileId);
+  if (!profile) throw new Error("Profile not found");
+
+  const jobId = profile.jobId;
+  if (!jobId) return null;
+  const job = await getAuditJob(jobId);
+  if (!job || (job.status !== "error" && job.status !== "cancelled")) return null;
+
+  const patch = { status: "queued" as const, steps: resetUnfinished(job.steps), updatedAt: Date.now() };
+  await getStore().update(`jobs/${jobId}`, { ...patch, lastError: null });
+  await clearCancel(profileId);
+  await updateProfile(profileId, { status: "queued", lastError: null, updatedAt: serverTimestamp() });
+  return { ...job, ...patch, lastError: undefined };
+}
+
+/**
+ * Ask the profile's audit to stop. A running job aborts cooperatively (see
+ * watchCancel in runJob); a job still waiting in the queue is cancelled here.
+ */
+export async function cancelAuditJob(profileId: string, by: string) {
+  const req = await requestCancel(profileId, by);
+
+  const jobId = (await getProfile(profileId))?.jobId;
+  if (jobId) {
+    const res = await getStore().transaction<JobStatus>(`jobs/${jobId}/status`, (cur) =>
+      cur === "queued" ? "cancelled" : undefined
+    );
+    if (res.committed) {
+      await getStore().update(`jobs/${jobId}`, { finishedAt: Date.now(), updatedAt: Date.now() });
+      await markProfileCancelled(profileId);
+    }
+  }
+  return req;
+}
+
+export async function getAuditJob(jobId: string): Promise<AuditJob | null> {
+  return getStore().get<AuditJob>(`jobs/${jobId}`);
+}
+
+async function jobsWithStatus(status: JobStatus): Promise<AuditJob[]> {
+  const val = await getStore().findByChild<AuditJob>("jobs", "status", status);
+  return Object.values(val).sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+}
+
+/** Put running jobs whose worker died back in the queue (they resume, not restart). */
+async function requeueStaleJobs() {
+  const now = Date.now();
+  for (const job of await jobsWithStatus("running")) {
+    if (now - (job.updatedAt || 0) < STALE_MS) continue;
+    console.warn("[JOB][stale][requeue]", { jobId: job.id, profileId: job.profileId });
+    await getStore().update(`jobs/${job.id}`, {
+      status: "queued",
+      steps: resetUnfinished(job.steps),
+      updatedAt: now,
+    });
+  }
+}
+
+/** Atomically move a job queued → running; false if another worker got it first. */
+async function claimJob(jobId: string): Promise<boolean> {
+  const res = await getStore().transaction<JobStatus>(`jobs/${jobId}/status`, (cur) =>
+    cur === "queued" ? "running" : undefined
+  );
+  return res.committed;
+}
+
+// ───────────────── Worker ─────────────────
+
+/** Run a claimed job; false when another run holds the profile lock (job goes back to the queue). */
+async function runJob(jobId: string): Promise<boolean> {
+  const jobPath = `jobs/${jobId}`;
+  const job = await getAuditJob(jobId);
+  if (!job) return false;
+
+  const lock = await acquireRunLock(job.profileId, {
+    runId: jobId,
+    kind: "audit",
+    owner: job.requestedBy || "worker",
+  });
+  if (!lock.acquired) {
+    console.warn("[JOB][locked][defer]", { jobId, heldBy: lock.lock?.runId });
+    await getStore().update(jobPath, { status: "queued", updatedAt: Date.now() });
+    return false;
+  }
+
+  await getStore().update(jobPath, { attempts: (job.attempts || 0) + 1, startedAt: Date.now(), updatedAt: Date.now() });
+  const heartbeat = setInterval(() => {
+    getStore().update(jobPath, { updatedAt: Date.now() }).catch(() => {});
+  }, HEARTBEAT_MS);
+  const cancel = watchCancel(job.profileId);
+  startRunLog(job.profileId, "job", jobId);
+
+  try {
+    // Read once per run: editing the settings mid-run applies to the next run
+    const pipeline = resolvePipeline(await getProfile(job.profileId));
+
+    for (const step of JOB_STEPS) {
+      if (job.steps?.[step]?.status === "done") continue; // resume point
+      throwIfCancelled(cancel.signal);
+
+      const stepPath = `${jobPath}/steps/${step}`;
+      const startedAt = Date.now();
+      if (isStepSkipped(step, pipeline)) {
+        await getStore().set(stepPath, { status: "done", skipped: true, startedAt, finishedAt: startedAt });
+        await logEvent(job.profileId, { step, status: "ok", message: `Step ${step} skipped (pipeline settings)` });
+        continue;
+      }
+      await getStore().set(stepPath, { status: "running", startedAt });
+      try {
+        await timed(job.profileId, { step, message: `Step ${step}` }, () =>
+          STEP_RUNNERS[step](job.profileId, cancel.signal, pipeline)
+        );
+        await getStore().set(stepPath, { status: "done", startedAt, finishedAt: Date.now() });
+      } catch (e) {
+        if (isCancelError(e) || cancel.signal.aborted) {
+          await getStore().set(stepPath, { status: "cancelled", startedAt, finishedAt: Date.now() });
+          throw e;
+        }
+        await getStore().set(stepPath, { status: "error", startedAt, finishedAt: Date.now(), error: errorMessage(e) });
+        if (!OPTIONAL_STEPS.includes(step)) throw e;
+        console.error(`[JOB][${step}][error]`, { jobId, error: errorMessage(e) });
+      }
+    }
+    await getStore().update(jobPath, { status: "done", finishedAt: Date.now(), updatedAt: Date.now() });
+    await logEvent(job.profileId, { step: "job", status: "ok", message: "Audit finished" });
+  } catch (err) {
+    if (isCancelError(err) || cancel.signal.aborted) {
+      console.warn("[JOB][cancelled]", { jobId, profileId: job.profileId });
+      await getStore().update(jobPath, { status: "cancelled", finishedAt: Date.now(), updatedAt: Date.now() });
+      await markProfileCancelled(job.profileId);
+      return true;
+    }
+    const lastError = errorMessage(err);
+    console.error("[JOB][error]", { jobId, profileId: job.profileId, error: lastError });
+    await getStore().update(jobPath, { status: "error", lastError, finishedAt: Date.now(), updatedAt: Date.now() });
+    // Don't resurrect a profile deleted mid-run
+    if (await getProfile(job.profileId)) {
+      await updateProfile(job.profileId, { status: "error", lastError, updatedAt: serverTimestamp() });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    cancel.dispose();
+    await endRunLog(job.profileId, jobId);
+    await lock.release().catch(() => {});
+  }
+  return true;
+}
+
+async function drainQueue() {
+  await sweepExpiredTrash();
+  await sweepExpiredSerpCache();
+  await requeueStaleJobs();
+  for (;;) {
+    const queued = await jobsWithStatus("queued");
+    let ran = false;
+    for (const job of queued) {
+      if (!(await claimJob(job.id))) continue;
+      if (await runJob(job.id)) ran = true;
+    }
+    if (!ran) return;
+  }
+}
+
+let draining: Promise<void> | null = null;
+
+/**
+ * Start the in-process worker if it is idle; resolves when the queue is empty.
+ * Safe to call from any route — one drain loop per server process.
+ */
+export function kickWorker(): Promise<void> {
+  if (!draining) {
+    draining = drainQueue()
+      .catch((e) => console.error("[JOB][worker][error]", errorMessage(e)))
+      .finally(() => {
+        draining = null;
+      });
+  }
+  return draining;
+}
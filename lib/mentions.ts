@@ -0,0 +1,145 @@
+// lib/mentions.ts
+// Brand mention detection in AI answer text (unlinked mentions count too).
+
+import { hostnameFromUrl, normalizeBrand } from "./serp";
+
+export type BrandKind = "company" | "competitor";
+
+/** One brand to look for: the company or a competitor (keyed by its domain). */
+export type BrandTerms = { domain: string; kind: BrandKind; terms: string[] };
+
+export type BrandMention = {
+  domain: string;
+  mentioned: boolean;
+  count: number;        // number of mentions in the answer
+  firstRank: number;    // 1 = first brand named in the answer; 0 = not mentioned
+  cited: boolean;       // domain among the answer's cited URLs
+};
+
+export type AnswerMentions = {
+  company: BrandMention;
+  competitors: BrandMention[]; // only competitors that were mentioned or cited
+};
+
+// Second-level labels that ccTLDs register under (example.co.uk, example.com.sg)
+const CC_SECOND_LEVEL = new Set(["co", "com", "net", "org", "ac", "gov", "edu", "ltd", "plc", "gen", "biz", "info", "or", "ne", "go"]);
+
+/** "app.hubspot.com" → "hubspot", "shop.example.co.uk" → "example", "api.get.io" → "get". */
+export function domainLabel(domain: string): string {
+  const parts = domain.toLowerCase().split(".").filter(Boolean);
+  if (parts.length < 2) return parts[0] || "";
+  const tld = parts[parts.length - 1];
+  const sld = parts[parts.length - 2];
+  if (parts.length > 2 && tld.length === 2 && CC_SECOND_LEVEL.has(sld)) return parts[parts.length - 3];
+  return sld;
+}
+
+function uniqTerms(list: (string | undefined)[]): string[] {
+  const out = new Set<string>();
+  for (const t of list) {
+    const n = normalizeBrand(t || "");
+    if (n.length >= 3) out.add(n); // skip very short tokens ("ai", "io") to avoid noise
+  }
+  return [...out];
+}
+
+/**
+ * Build the search terms for the company (name, aliases, domain) and each
+ * competitor (domain label + any names configured on the profile).
+ */
+export function buildBrandTerms(profile: {
+  companyName?: string;
+  websiteUrl?: string;
+  brandAliases?: string[];
+  competitorUrls?: string[];
+  competitorNames?: Array<{ domain: string; names?: string[] }>;
+}): BrandTerms[] {
+  const companyDomain = hostnameFromUrl(profile.websiteUrl || "");
+  const out: BrandTerms[] = [
+    {
+      domain: companyDomain,
+      kind: "company",
+      terms: uniqTerms([
+        profile.companyName,
+        ...(profile.brandAliases || []),
+        companyDomain,
+        domainLabel(companyDomain),
+      ]),
+    },
+  ];
+
+  const named = new Map<string, string[]>();
+  for (const row of profile.competitorNames || []) {
+    if (row?.domain) named.set(hostnameFromUrl(row.domain), row.names || []);
+  }
+
+  for (const url of profile.competitorUrls || []) {
+    const d = hostnameFromUrl(url);
+    if (!d) continue;
+    out.push({
+      domain: d,
+      kind: "competitor",
+      terms: uniqTerms([...(named.get(d) || []), d, domainLabel(d)]),
+    });
+  }
+  return out;
+}
+
+/** Every start offset of `term` in `text` (both normalized), on word boundaries. */
+function findAll(text: string, term: string): number[] {
+  const hay = ` ${text} `;
+  const needle = ` ${term} `;
+  const hits: number[] = [];
+  let from = 0;
+  for (;;) {
+    const i = hay.indexOf(needle, from);
+    if (i === -1) break;
+    hits.push(i);
+    from = i + needle.length - 1; // keep the trailing space as the next leading boundary
+  }
+  return hits;
+}
+
+/**
+ * Detect mentions of the company and competitors in an answer.
+ * `citedDomains` are the brand domains already matched in the cited URLs.
+ */
+export function detectMentions(
+  text: string,
+  brands: BrandTerms[],
+  citedDomains: { company: boolean; competitors: string[] }
+): AnswerMentions {
+  const norm = normalizeBrand(text || "");
+
+  const raw = brands.map((b) => {
+    // Overlapping terms ("acme", "acme corp") share offsets; count distinct offsets
+    const offsets = new Set<number>();
+    for (const t of b.terms) for (const i of findAll(norm, t)) offsets.add(i);
+    const sorted = [...offsets].sort((a, z) => a - z);
+    return { brand: b, count: sorted.length, first: sorted.length ? sorted[0] : -1 };
+  });
+
+  // Rank brands by first appearance
+  const ranked = raw.filter((r) => r.count > 0).sort((a, z) => a.first - z.first);
+  const rankOf = new Map(ranked.map((r, i) => [r.brand.domain + ":" + r.brand.kind, i + 1]));
+
+  const toMention = (r: (typeof raw)[number], cited: boolean): BrandMention => ({
+    domain: r.brand.domain,
+    mentioned: r.count > 0,
+    count: r.count,
+    firstRank: rankOf.get(r.brand.domain + ":" + r.brand.kind) || 0,
+    cited,
+  });
+
+  const companyRaw = raw.find((r) => r.brand.kind === "company");
+  const company: BrandMention = companyRaw
+    ? toMention(companyRaw, citedDomains.company)
+    : { domain: "", mentioned: false, count: 0, firstRank: 0, cited: citedDomains.company };
+
+  const competitors = raw
+    .filter((r) => r.brand.kind === "competitor")
+    .map((r) => toMention(r, citedDomains.competitors.includes(r.brand.domain)))
+    .filter((m) => m.mentioned || m.cited);
+
+  return { company, competitors };
+}
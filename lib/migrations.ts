@@ -0,0 +1,184 @@
+// lib/migrations.ts
+// Upgrades stored records to the current schema versions (lib/schema.ts) in
+// place. Each migration moves one kind from one version to the next; records
+// still invalid after migrating are reported, not written. Run history kept
+// in the profile node by older builds is moved to history/{id}, and trash marks
+// from before the trash index are added to it.
+import { getStore } from "./store";
+import { RecordKind, SCHEMA_VERSION, SchemaIssue, recordVersion, validateRecord } from "./schema";
+import { PROMPT_CATEGORIES } from "./pipeline";
+import { ProfileNode, TrashIndexEntry, trashIndexEntry } from "./trash";
+
+type Rec = Record<string, unknown>;
+
+type Migration = {
+  kind: RecordKind;
+  from: number; // upgrades records at this version to from + 1
+  describe: string;
+  up: (record: Rec) => Rec;
+};
+
+const REGION_BY_COUNTRY: Record<string, string> = {
+  sg: "sg",
+  singapore: "sg",
+  us: "us",
+  usa: "us",
+  "united states": "us",
+  "united states of america": "us",
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    kind: "profile",
+    from: 1,
+    describe: "country → region, remarks → topics",
+    up(p) {
+      const out = { ...p };
+      if (out.country !== undefined) {
+        const region = REGION_BY_COUNTRY[String(out.country).trim().toLowerCase()];
+        if (!out.region && region) out.region = region;
+        if (out.region) delete out.country; // unknown country without a region stays (reported)
+      }
+      if (out.remarks !== undefined) {
+        const topics = Array.isArray(out.topics) ? out.topics : [];
+        if (!topics.length && typeof out.remarks === "string") {
+          out.topics = out.remarks.split(",").map((s) => s.trim()).filter(Boolean);
+        }
+        if (typeof out.remarks === "string") delete out.remarks;
+      }
+      return out;
+    },
+  },
+  {
+    kind: "prompt",
+    from: 1,
+    describe: "volume.volume → volume.value, ai_monthly_searches → monthly",
+    up(p) {
+      if (!p.volume || typeof p.volume !== "object") return p;
+      const { volume: legacyValue, ai_monthly_searches, ...v } = p.volume as Rec;
+      if (v.value === undefined) v.value = typeof legacyValue === "number" ? legacyValue : 0;
+      if (v.monthly === undefined) v.monthly = Array.isArray(ai_monthly_searches) ? ai_monthly_searches : [];
+      return { ...p, volume: v };
+    },
+  },
+];
+
+export type MigrationReport = {
+  dryRun: boolean;
+  profiles: number;
+  checked: Record<RecordKind, number>;
+  upgraded: Array<{ path: string; kind: RecordKind; from: number; to: number }>;
+  failed: Array<{ path: string; kind: RecordKind; issues: SchemaIssue[] }>;
+  moved: Array<{ from: string; to: string }>; // legacy runs/snapshots → history/{id}
+  trashIndexed: string[]; // trashed profiles/prompts added to trash/{id}
+};
+
+/** One record upgraded to the current version of its kind (not validated). */
+export function migrateRecord(kind: RecordKind, record: Rec): { record: Rec; from: number } {
+  const from = recordVersion(record);
+  let out = record;
+  for (let v = from; v < SCHEMA_VERSION[kind]; v++) {
+    const m = MIGRATIONS.find((x) => x.kind === kind && x.from === v);
+    if (m) out = m.up(out);
+  }
+  return { record: { ...out, schemaVersion: Math.max(from, SCHEMA_VERSION[kind]) }, from };
+}
+
+/** Top-level fields of after that differ from before (removed fields → null). */
+function changedFields(before: Rec, after: Rec): Rec {
+  const patch: Rec = {};
+  for (const k of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[k]) !== JSON.stringify(after[k])) patch[k] = after[k] ?? null;
+  }
+  return patch;
+}
+
+const SUBTREES = ["prompts", "results", "reports", "reportVersions", "snapshots", "runs", "runLog"];
+
+/**
+ * Upgrade every record of one profile (or all profiles). With dryRun nothing
+ * is written; the report lists what would change and what can't be fixed.
+ */
+export async function runMigrations(opts: { dryRun?: boolean; profileId?: string } = {}): Promise<MigrationReport> {
+  const store = getStore();
+  const dryRun = opts.dryRun === true;
+  const report: MigrationReport = {
+    dryRun,
+    profiles: 0,
+    checked: { profile: 0, prompt: 0, result: 0, report: 0, promptReport: 0 },
+    upgraded: [],
+    failed: [],
+    moved: [],
+    trashIndexed: [],
+  };
+
+  // One record: migrate, validate, then patch only the fields that changed
+  const visit = async (kind: RecordKind, path: string, value: unknown) => {
+    if (!value || typeof value !== "object") return;
+    report.checked[kind] += 1;
+    const before = value as Rec;
+    const { record, from } = migrateRecord(kind, before);
+    const issues = validateRecord(kind, record, path);
+    if (issues.length) {
+      report.failed.push({ path, kind, issues });
+      return;
+    }
+    const patch = changedFields(before, record);
+    const changed = Object.keys(patch);
+    // Only the version stamp differs: nothing to upgrade (the next write stamps it)
+    if (!changed.length || (changed.length === 1 && changed[0] === "schemaVersion")) return;
+    report.upgraded.push({ path, kind, from, to: record.schemaVersion as number });
+    if (!dryRun) await store.update(path, patch);
+  };
+
+  const ids = opts.profileId
+    ? [opts.profileId]
+    : Object.keys((await store.get<Record<string, unknown>>("profiles")) || {});
+
+  for (const id of ids) {
+    const node = await store.get<Rec>(`profiles/${id}`);
+    if (!node) continue;
+    report.profiles += 1;
+    const base = `profiles/${id}`;
+
+    const own = Object.fromEntries(Object.entries(node).filter(([k]) => !SUBTREES.includes(k)));
+    await visit("profile", base, own);
+
+    const prompts = (node.prompts || {}) as Record<string, Record<string, unknown>>;
+    for (const cat of PROMPT_CATEGORIES) {
+      for (const [key, p] of Object.entries(prompts[cat] || {})) await visit("prompt", `${base}/prompts/${cat}/${key}`, p);
+    }
+    const results = (node.results || {}) as Record<string, Record<string, unknown>>;
+    for (const [promptId, perEngine] of Object.entries(results)) {
+      for (const [engine, r] of Object.entries(perEngine || {})) await visit("result", `${base}/results/${promptId}/${engine}`, r);
+    }
+    for (const [key, r] of Object.entries((node.reports || {}) as Rec)) {
+      await visit(key === "overall" ? "report" : "promptReport", `${base}/reports/${key}`, r);
+    }
+    for (const [vid, r] of Object.entries((node.reportVersions || {}) as Rec)) {
+      await visit("report", `${base}/reportVersions/${vid}`, r);
+    }
+    for (const name of ["runs", "snapshots"]) {
+      const legacy = node[name];
+      if (!legacy || typeof legacy !== "object") continue;
+      report.moved.push({ from: `${base}/${name}`, to: `history/${id}/${name}` });
+      if (dryRun) continue;
+      await store.update(`history/${id}/${name}`, legacy as Rec); // merged with runs recorded since
+      await store.remove(`${base}/${name}`);
+    }
+
+    const marks = trashIndexEntry(node as ProfileNode);
+    const indexed = (await store.get<TrashIndexEntry>(`trash/${id}`)) || {};
+    const missing: Rec = {};
+    if (marks.deletedAt && !indexed.deletedAt) missing.deletedAt = marks.deletedAt;
+    for (const [promptId, at] of Object.entries(marks.prompts || {})) {
+      if (!indexed.prompts?.[promptId]) missing[`prompts/${promptId}`] = at;
+    }
+    if (Object.keys(missing).length) {
+      report.trashIndexed.push(...Object.keys(missing).map((k) => (k === "deletedAt" ? base : `${base}/${k}`)));
+      if (!dryRun) await store.update(`trash/${id}`, missing);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,73 @@
+// lib/perplexity.ts
+import { SerpRegionKey } from "./serp";
+import { HttpError, withRetry } from "./retry";
+import { acquire } from "./rate-limit";
+
+// OpenAI-compatible chat endpoint. Point PERPLEXITY_BASE_URL at a local
+// stand-in (same /chat/completions contract) to run without the real API.
+const BASE = (process.env.PERPLEXITY_BASE_URL || "https://api.perplexity.ai").replace(/\/+$/, "");
+const MODEL = process.env.PERPLEXITY_MODEL || "sonar";
+
+function getKey() {
+  return process.env.PERPLEXITY_API_KEY;
+}
+
+// Region → ISO country for web_search_options.user_location
+const COUNTRY: Record<SerpRegionKey, string> = {
+  sg: "SG",
+  us: "US",
+};
+
+export type PerplexityAnswer = {
+  answer: string;      // assistant message content
+  citations: string[]; // ordered as returned ([1], [2], … in the answer)
+};
+
+/** Ask Perplexity the prompt and capture the answer + its ordered citation list. */
+export async function perplexityAnswer(
+  query: string,
+  region: SerpRegionKey = "sg",
+  signal?: AbortSignal
+): Promise<PerplexityAnswer> {
+  const apiKey = getKey();
+  if (!apiKey) throw new Error("Missing PERPLEXITY_API_KEY");
+
+  const data = await withRetry(
+    async () => {
+      await acquire("perplexity", signal);
+      const res = await fetch(`${BASE}/chat/completions`, {
+        method: "POST",
+        signal,
+        headers: {
+          "content-type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: MODEL,
+          messages: [{ role: "user", content: query }],
+          web_search_options: {
+            user_location: { country: COUNTRY[region] || COUNTRY.sg },
+          },
+        }),
+      });
+      if (!res.ok) {
+        const t = await res.text().catch(() => "");
+        throw new HttpError(`Perplexity failed: ${res.status} ${t}`, res.status);
+      }
+      return res.json();
+    },
+    { signal, label: "serp:perplexity" }
+  );
+
+  const answer: string = data?.choices?.[0]?.message?.content ?? "";
+
+  // Prefer the flat `citations` list; fall back to `search_results[].url`
+  const raw: unknown[] = Array.isArray(data?.citations)
+    ? data.citations
+    : Array.isArray(data?.search_results)
+    ? data.search_results.map((r: { url?: unknown }) => r?.url)
+    : [];
+  const citations = raw.filter((u): u is string => typeof u === "string");
+
+  return { answer, citations };
+}
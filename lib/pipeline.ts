@@ -0,0 +1,84 @@
+// lib/pipeline.ts
+// Per-profile pipeline settings (metadata only — safe to import from client components).
+// profiles/{id}/pipeline decides which audit stages run and where their input
+// comes from; engines/samples stay on the profile (see lib/engines.ts).
+
+export type PromptCategory = "brainstorming" | "identified_problem" | "solution_comparing" | "info_seeking";
+export const PROMPT_CATEGORIES: PromptCategory[] = [
+  "brainstorming",
+  "identified_problem",
+  "solution_comparing",
+  "info_seeking",
+];
+
+export type FixedPrompts = Partial<Record<PromptCategory, string[]>>;
+
+export type PipelineSettings = {
+  scrape: boolean;             // false → positioningText stands in for the scraped home page
+  positioningText?: string;
+  generatePrompts: boolean;    // false → fixedPrompts become the profile's prompts
+  fixedPrompts?: FixedPrompts;
+  volume: boolean;             // AI search volume enrichment (DataForSEO)
+};
+
+export const DEFAULT_PIPELINE: PipelineSettings = { scrape: true, generatePrompts: true, volume: true };
+
+// Same cap as the scraped preview (lib/firecrawl.ts)
+export const MAX_POSITIONING_CHARS = 10000;
+
+/** Pipeline settings of a profile; missing fields fall back to the full pipeline. */
+export function resolvePipeline(profile?: { pipeline?: unknown } | null): PipelineSettings {
+  const raw = (profile?.pipeline || {}) as Partial<PipelineSettings>;
+  const positioningText = typeof raw.positioningText === "string" ? raw.positioningText.trim() : "";
+  const fixedPrompts = normalizeFixedPrompts(raw.fixedPrompts);
+  return {
+    // A stage can only be replaced when its substitute input is there
+    scrape: raw.scrape === false && positioningText ? false : true,
+    positioningText: positioningText || undefined,
+    generatePrompts: raw.generatePrompts === false && countFixedPrompts(fixedPrompts) > 0 ? false : true,
+    fixedPrompts,
+    volume: raw.volume !== false,
+  };
+}
+
+function normalizeFixedPrompts(raw: unknown): FixedPrompts {
+  const out: FixedPrompts = {};
+  if (!raw || typeof raw !== "object") return out;
+  for (const c of PROMPT_CATEGORIES) {
+    const list = (raw as Record<string, unknown>)[c];
+    if (!Array.isArray(list)) continue;
+    const clean = Array.from(
+      new Set(list.filter((x): x is string => typeof x === "string").map((s) => s.trim()).filter(Boolean))
+    );
+    if (clean.length) out[c] = clean;
+  }
+  return out;
+}
+
+export function countFixedPrompts(prompts?: FixedPrompts): number {
+  return PROMPT_CATEGORIES.reduce((n, c) => n + (prompts?.[c]?.length || 0), 0);
+}
+
+/**
+ * "category: prompt" per line → prompts by category. Lines without a known
+ * category prefix go to brainstorming.
+ */
+export function parseFixedPrompts(text: string): FixedPrompts {
+  const out: FixedPrompts = {};
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const i = trimmed.indexOf(":");
+    const prefix = i === -1 ? "" : trimmed.slice(0, i).trim().toLowerCase();
+    const category = PROMPT_CATEGORIES.find((c) => c === prefix);
+    const prompt = category ? trimmed.slice(i + 1).trim() : trimmed;
+    if (!prompt) continue;
+    const c = category || "brainstorming";
+    (out[c] ||= []).push(prompt);
+  }
+  return normalizeFixedPrompts(out);
+}
+
+export function formatFixedPrompts(prompts?: FixedPrompts): string {
+  return PROMPT_CATEGORIES.flatMap((c) => (prompts?.[c] || []).map((p) => `${c}: ${p}`)).join("\n");
+}
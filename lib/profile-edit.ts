@@ -0,0 +1,95 @@
+// lib/profile-edit.ts
+// Editing a profile updates only the fields that changed and schedules the
+// least follow-up work that keeps stored data consistent (pure — safe to
+// import from client components). Prompts are never regenerated by an edit:
+// prompt settings (generate vs fixed prompts) apply to the next full audit.
+import { EngineId, resolveEngines, resolveSamples } from "./engines";
+import { resolvePipeline } from "./pipeline";
+
+/** Profile fields the edit dialog may change. */
+export const EDITABLE_FIELDS = [
+  "companyName",
+  "websiteUrl",
+  "competitorUrls",
+  "competitorNames",
+  "brandAliases",
+  "topics",
+  "region",
+  "engines",
+  "samples",
+  "pipeline",
+] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+export type EditPlan = {
+  changed: EditableField[];
+  rescrape: boolean; // website (or manual positioning text) changed
+  rematch: boolean; // company/competitor terms changed: re-run matching on stored answers
+  recheck: "all" | EngineId[] | null; // engine/prompt pairs to query again
+  revolume: boolean; // volume turned on, or region (volume location) changed: fetch missing/stale volumes
+  promptSettings: boolean; // generate/fixed prompts changed: stored prompts are kept as they are
+};
+
+/** Fields that can't be cleared by an edit. */
+export const REQUIRED_FIELDS: EditableField[] = ["companyName", "websiteUrl"];
+
+type EditableProfile = Partial<Record<EditableField, unknown>>;
+
+// Key order is not stable across backends (RTDB returns keys sorted), so compare canonical JSON
+function canonical(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(",")}]`;
+  if (v && typeof v === "object") {
+    const entries = Object.entries(v).filter(([, x]) => x !== undefined && x !== null).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, x]) => `${JSON.stringify(k)}:${canonical(x)}`).join(",")}}`;
+  }
+  return JSON.stringify(v ?? null);
+}
+
+const same = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+/** Fields of patch that differ from the profile, and the follow-up they need. */
+export function planProfileEdit(before: EditableProfile, patch: EditableProfile): EditPlan {
+  const changed = EDITABLE_FIELDS.filter((f) => f in patch && !same(before[f], patch[f]));
+  const has = (...fields: EditableField[]) => fields.some((f) => changed.includes(f));
+  const after = { ...before, ...patch };
+
+  const pipeBefore = resolvePipeline(before);
+  const pipeAfter = resolvePipeline(after);
+  const rescrape =
+    has("websiteUrl") ||
+    pipeBefore.scrape !== pipeAfter.scrape ||
+    (!pipeAfter.scrape && pipeBefore.positioningText !== pipeAfter.positioningText);
+
+  // Region or sample count change every answer; newly enabled engines have no results yet
+  let recheck: EditPlan["recheck"] = null;
+  if (has("region") || resolveSamples(before) !== resolveSamples(after)) {
+    recheck = "all";
+  } else if (has("engines")) {
+    const was = new Set(resolveEngines(before).map((e) => e.id));
+    const added = resolveEngines(after).map((e) => e.id).filter((id) => !was.has(id));
+    if (added.length) recheck = added;
+  }
+
+  const rematch = recheck !== "all" && has("websiteUrl", "companyName", "brandAliases", "competitorUrls", "competitorNames");
+
+  // Stored volumes are per location (lib/volume.ts re-fetches those for another one)
+  const revolume = pipeAfter.volume && (!pipeBefore.volume || has("region"));
+  const promptSettings =
+    pipeBefore.generatePrompts !== pipeAfter.generatePrompts || !same(pipeBefore.fixedPrompts, pipeAfter.fixedPrompts);
+
+  return { changed, rescrape, rematch, recheck, revolume, promptSettings };
+}
+
+/** One-line summary for the UI ("Saved. Re-matching stored results…"). */
+export function describeEditPlan(plan: EditPlan): string {
+  if (!plan.changed.length) return "Nothing changed.";
+  const steps = [
+    plan.rescrape ? "re-scraping the website" : "",
+    plan.rematch ? "re-matching stored results" : "",
+    plan.recheck === "all" ? "re-checking every engine" : plan.recheck ? `checking ${plan.recheck.join(", ")}` : "",
+    plan.revolume ? "updating search volumes" : "",
+  ].filter(Boolean);
+  const prompts = plan.promptSettings ? " Prompt settings apply to the next full audit; current prompts are kept." : "";
+  return (steps.length ? `Profile saved; ${steps.join(", ")}.` : "Profile saved. No follow-up needed.") + prompts;
+}
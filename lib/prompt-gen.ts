@@ -1,27 +1,23 @@
 // lib/prompt-gen.ts
 import OpenAI from "openai";
-import { initializeApp, getApps } from "firebase/app";
-import { getDatabase, ref, get, set, update, serverTimestamp, child } from "firebase/database";
+import { serverTimestamp } from "./store";
+import {
+  listPrompts,
+  nextPromptKeys,
+  regeneratedPromptKeys,
+  replacePrompts,
+  requireProfile,
+  savePrompt,
+  updateProfile,
+} from "./repository";
+import { withRetry } from "./retry";
+import { acquire } from "./rate-limit";
+import { FixedPrompts, PROMPT_CATEGORIES, PromptCategory } from "./pipeline";
 
-type PromptCategory = "brainstorming" | "identified_problem" | "solution_comparing" | "info_seeking";
 type PromptSet = Record<PromptCategory, string[]>;
 
-// ───────────────── Firebase init (client SDK via env) ─────────────────
-if (!getApps().length) {
-  initializeApp({
-    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-    databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL!,
-    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-    storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-    messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
-  });
-}
-const db = getDatabase();
-
 // ───────────────── OpenAI (Responses API, plain JSON instruction) ─────────────────
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY!, maxRetries: 0 });
 
 function coerceTen(arr?: string[]) {
   const uniq = Array.from(new Set((arr ?? []).map((s) => s.trim()).filter(Boolean)));
@@ -61,21 +57,11 @@ const CAT_DEF: Record<PromptCategory, string> = {
   info_seeking: "the ICP is seeking information related to the product or the broader space",
 };
 
-export async function generatePromptsForProfile(profileId: string) {
+export async function generatePromptsForProfile(profileId: string, signal?: AbortSignal) {
   if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not set");
 
-  const profileRef = ref(db, `profiles/${profileId}`);
-
   // 1) Load profile + scraped preview
-  const snap = await get(profileRef);
-  if (!snap.exists()) throw new Error("Profile not found");
-
-  const profile = snap.val() as {
-    companyName: string;
-    websiteUrl: string;
-    remarks?: string;
-    scrape?: { markdownPreview?: string; combinedMarkdownPreview?: string };
-  };
+  const profile = await requireProfile(profileId);
 
   const scraped =
     profile.scrape?.markdownPreview ??
@@ -83,7 +69,7 @@ export async function generatePromptsForProfile(profileId: string) {
     "";
 
   // 2) Mark progress
-  await update(profileRef, {
+  await updateProfile(profileId, {
     status: "generating_prompts",
     progress: 55,
     updatedAt: serverTimestamp(),
@@ -114,7 +100,7 @@ export async function generatePromptsForProfile(profileId: string) {
 
   const input = [
     `Company: ${profile.companyName} (${profile.websiteUrl})`,
-    profile.remarks ? `Short tail keywords (comma-separated): ${profile.remarks}` : "",
+    profile.topics?.length ? `Short tail keywords (comma-separated): ${profile.topics.join(", ")}` : "",
     "Relevant site content:",
     CONTEXT,
     "",
@@ -131,13 +117,19 @@ export async function generatePromptsForProfile(profileId: string) {
     jsonShape,
   ].join("\n");
 
-  const resp = await openai.responses.create({
-    model: "gpt-4.1",
-    instructions,
-    input,
-    temperature: 0.5,
-    max_output_tokens: 1200,
-  });
+  const resp = await withRetry(
+    async () => {
+      await acquire("openai", signal);
+      return openai.responses.create({
+        model: "gpt-4.1",
+        instructions,
+        input,
+        temperature: 0.5,
+        max_output_tokens: 1200,
+      }, { signal });
+    },
+    { signal, label: "openai:prompts" }
+  );
 
   const rawText =
     resp.output_text ||
@@ -159,21 +151,16 @@ export async function generatePromptsForProfile(profileId: string) {
     info_seeking: coerceTen(parsed.info_seeking),
   };
 
-  // Persist to RTDB as objects with keys 00..09 (overwrite)
+  // Persist to RTDB as objects with keys 00..09 (overwrite; keys of trashed prompts are skipped)
   for (const category of Object.keys(result) as PromptCategory[]) {
     const arr = result[category];
+    const keys = await regeneratedPromptKeys(profileId, category, arr.length);
     for (let i = 0; i < arr.length; i++) {
-      const key = String(i).padStart(2, "0");
-      await set(ref(db, `profiles/${profileId}/prompts/${category}/${key}`), {
-        id: key,
-        text: arr[i],
-        category,
-        createdAt: Date.now(),
-      });
+      await savePrompt(profileId, category, keys[i], arr[i]);
     }
   }
 
-  await update(profileRef, { progress: 70, updatedAt: serverTimestamp() });
+  await updateProfile(profileId, { progress: 70, updatedAt: serverTimestamp() });
 
   return {
     counts: Object.fromEntries(
@@ -182,6 +169,28 @@ export async function generatePromptsForProfile(profileId: string) {
   };
 }
 
+/**
+ * Pipeline with generation turned off: the profile's prompts become exactly the
+ * fixed list (same storage shape as generated prompts; keys 00, 01, …).
+ */
+export async function seedFixedPrompts(profileId: string, prompts: FixedPrompts) {
+  await requireProfile(profileId);
+
+  await updateProfile(profileId, {
+    status: "generating_prompts",
+    progress: 55,
+    updatedAt: serverTimestamp(),
+  });
+
+  await replacePrompts(profileId, prompts);
+
+  await updateProfile(profileId, { progress: 70, updatedAt: serverTimestamp() });
+
+  return {
+    counts: Object.fromEntries(PROMPT_CATEGORIES.map((c) => [c, prompts[c]?.length || 0])),
+  };
+}
+
 /** Generate up to 10 more prompts for one category, using current prompts + optional remarks. */
 export async function generateMorePromptsForCategory(
   profileId: string,
@@ -193,22 +202,12 @@ export async function generateMorePromptsForCategory(
   if (count < 1) throw new Error("count must be >= 1");
   if (count > 10) count = 10;
 
-  const profileRef = ref(db, `profiles/${profileId}`);
-  const snap = await get(profileRef);
-  if (!snap.exists()) throw new Error("Profile not found");
-
-  const profile = snap.val() as {
-    companyName: string;
-    websiteUrl: string;
-    remarks?: string;
-  };
+  const profile = await requireProfile(profileId);
 
   // pull existing prompts in this category
-  const catSnap = await get(child(profileRef, `prompts/${category}`));
-  const existingObj = (catSnap.val() || {}) as Record<string, { text: string }>;
-  const existingList = Object.keys(existingObj)
-    .sort()
-    .map((k) => existingObj[k].text)
+  const existingList = (await listPrompts(profileId))
+    .filter((p) => p.category === category)
+    .map((p) => p.text)
     .filter(Boolean);
 
   const catDefinition = CAT_DEF[category];
@@ -240,13 +239,19 @@ export async function generateMorePromptsForCategory(
     jsonShape,
   ].join("\n");
 
-  const resp = await openai.responses.create({
-    model: "gpt-4.1",
-    instructions,
-    input,
-    temperature: 0.5,
-    max_output_tokens: 600,
-  });
+  const resp = await withRetry(
+    async () => {
+      await acquire("openai");
+      return openai.responses.create({
+        model: "gpt-4.1",
+        instructions,
+        input,
+        temperature: 0.5,
+        max_output_tokens: 600,
+      });
+    },
+    { label: "openai:prompts-more" }
+  );
 
   const rawText =
     resp.output_text ||
@@ -263,23 +268,11 @@ export async function generateMorePromptsForCategory(
   const newPrompts = (parsed.prompts || []).map((s) => s.trim()).filter(Boolean).slice(0, count);
 
   // compute next keys
-  const usedKeys = Object.keys(existingObj)
-    .map((k) => parseInt(k, 10))
-    .filter((n) => !isNaN(n))
-    .sort((a, b) => a - b);
-  let nextIndex = usedKeys.length ? usedKeys[usedKeys.length - 1] + 1 : 0;
+  const keys = await nextPromptKeys(profileId, category, newPrompts.length);
 
   const createdKeys: string[] = [];
-  for (const text of newPrompts) {
-    const key = String(nextIndex).padStart(2, "0");
-    await set(ref(db, `profiles/${profileId}/prompts/${category}/${key}`), {
-      id: key,
-      text,
-      category,
-      createdAt: Date.now(),
-    });
-    createdKeys.push(`${category}:${key}`);
-    nextIndex++;
+  for (let i = 0; i < newPrompts.length; i++) {
+    createdKeys.push(await savePrompt(profileId, category, keys[i], newPrompts[i]));
   }
 
   return { createdPromptIds: createdKeys };
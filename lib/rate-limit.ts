@@ -0,0 +1,170 @@
+// lib/rate-limit.ts
+// Shared token buckets per provider. The bucket lives in the store under
+// rateLimits/{provider} and every request slot is taken in a transaction, so
+// all audits (job worker + route-triggered runs, on every server instance)
+// draw from the same bucket and queue instead of tripping provider rate limits
+// together. Within one process, callers wait in FIFO order and only the head
+// of the queue polls the store.
+//
+// Limits: RATE_LIMIT_<PROVIDER>="<requests per minute>[/<burst>]",
+// e.g. RATE_LIMIT_SERPAPI="60/5". Every instance must use the same settings.
+import { getStore } from "./store";
+
+export type RateProvider = "serpapi" | "openai" | "perplexity" | "firecrawl" | "dataforseo";
+export const RATE_PROVIDERS: RateProvider[] = ["serpapi", "openai", "perplexity", "firecrawl", "dataforseo"];
+
+const DEFAULTS: Record<RateProvider, { perMinute: number; burst: number }> = {
+  serpapi: { perMinute: 60, burst: 5 },
+  openai: { perMinute: 120, burst: 10 },
+  perplexity: { perMinute: 50, burst: 5 },
+  firecrawl: { perMinute: 20, burst: 2 },
+  dataforseo: { perMinute: 30, burst: 3 },
+};
+
+const MIN_POLL_MS = 50;
+// A waiting count not refreshed for this long belongs to an instance that went away
+const WAITING_STALE_MS = 2 * 60_000;
+
+export type RateLimitStatus = {
+  perMinute: number;
+  burst: number;
+  tokens: number; // available right now (floored)
+  queued: number; // callers waiting for a token, on every instance
+};
+
+/** Stored at rateLimits/{provider}. */
+type BucketNode = {
+  tokens: number;
+  last: number; // ms; tokens were last refilled at this time
+  waiting?: Record<string, { n: number; at: number }>; // per instance: callers queued there
+};
+
+/** Callers of this process waiting on one provider (FIFO through the promise chain). */
+type LocalQueue = { waiting: number; tail: Promise<void> };
+
+// Identifies this process in BucketNode.waiting
+const INSTANCE = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+function readLimit(provider: RateProvider) {
+  const raw = process.env[`RATE_LIMIT_${provider.toUpperCase()}`];
+  const [rate, burst] = String(raw || "").split("/").map((x) => Number(x));
+  const d = DEFAULTS[provider];
+  return {
+    perMinute: Number.isFinite(rate) && rate > 0 ? rate : d.perMinute,
+    burst: Number.isFinite(burst) && burst >= 1 ? Math.floor(burst) : d.burst,
+  };
+}
+
+const bucketPath = (provider: RateProvider) => `rateLimits/${provider}`;
+
+/** Tokens in the bucket at now (a missing bucket is full; clock skew never drains it). */
+function refill(node: BucketNode | null, limit: { perMinute: number; burst: number }, now: number) {
+  if (!node || typeof node.tokens !== "number" || typeof node.last !== "number") return limit.burst;
+  const elapsed = Math.max(0, now - node.last);
+  return Math.min(limit.burst, node.tokens + (elapsed * limit.perMinute) / 60_000);
+}
+
+/** Waiting counts that are still fresh, with this instance's set to n (dropped at 0). */
+function withWaiting(node: BucketNode | null, n: number, now: number) {
+  const out: Record<string, { n: number; at: number }> = {};
+  for (const [k, w] of Object.entries(node?.waiting || {})) {
+    if (k !== INSTANCE && w && now - w.at < WAITING_STALE_MS) out[k] = w;
+  }
+  if (n > 0) out[INSTANCE] = { n, at: now };
+  return out;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const t = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+const queues = new Map<RateProvider, LocalQueue>();
+
+function queueFor(provider: RateProvider): LocalQueue {
+  let q = queues.get(provider);
+  if (!q) {
+    q = { waiting: 0, tail: Promise.resolve() };
+    queues.set(provider, q);
+  }
+  return q;
+}
+
+/** Take one token from the shared bucket, polling until one is free. */
+async function takeToken(provider: RateProvider, q: LocalQueue, signal?: AbortSignal) {
+  const limit = readLimit(provider);
+  for (;;) {
+    if (signal?.aborted) throw signal.reason;
+    // The update function may run several times; only its last run counts
+    let took = false;
+    let waitMs = 0;
+    await getStore().transaction<BucketNode>(bucketPath(provider), (cur) => {
+      const now = Date.now();
+      const tokens = refill(cur, limit, now);
+      took = tokens >= 1;
+      waitMs = took ? 0 : Math.ceil(((1 - tokens) * 60_000) / limit.perMinute);
+      return {
+        tokens: took ? tokens - 1 : tokens,
+        last: Math.max(now, cur?.last || 0),
+        waiting: withWaiting(cur, took ? q.waiting - 1 : q.waiting, now),
+      };
+    });
+    if (took) return;
+    // Jitter keeps instances from polling in lockstep
+    await sleep(Math.max(MIN_POLL_MS, waitMs) * (1 + Math.random() * 0.2), signal);
+  }
+}
+
+/** Wait for a request slot with the provider (rejects if the signal aborts first). */
+export function acquire(provider: RateProvider, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  const q = queueFor(provider);
+  q.waiting += 1;
+
+  // Callers that gave up while queued are skipped when their turn comes
+  const turn = q.tail.then(() => (signal?.aborted ? undefined : takeToken(provider, q, signal)));
+  q.tail = turn.catch(() => {});
+
+  return new Promise<void>((resolve, reject) => {
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      q.waiting -= 1;
+      signal?.removeEventListener("abort", onAbort);
+      fn();
+    };
+    const onAbort = () => settle(() => reject(signal?.reason));
+    signal?.addEventListener("abort", onAbort, { once: true });
+    turn.then(
+      () => settle(resolve),
+      (e) => settle(() => reject(e))
+    );
+  });
+}
+
+/** Current bucket state per provider (queue depth across instances, for the dashboard). */
+export async function rateLimitStatus(): Promise<Record<RateProvider, RateLimitStatus>> {
+  const nodes = (await getStore().get<Partial<Record<RateProvider, BucketNode>>>("rateLimits")) || {};
+  const now = Date.now();
+  const out = {} as Record<RateProvider, RateLimitStatus>;
+  for (const p of RATE_PROVIDERS) {
+    const limit = readLimit(p);
+    const node = nodes[p] || null;
+    const queued = Object.values(node?.waiting || {})
+      .filter((w) => w && now - w.at < WAITING_STALE_MS)
+      .reduce((n, w) => n + w.n, 0);
+    out[p] = { ...limit, tokens: Math.floor(refill(node, limit, now)), queued };
+  }
+  return out;
+}
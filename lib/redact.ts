@@ -0,0 +1,32 @@
+// lib/redact.ts
+// Scrub credentials out of anything we log or persist (URLs, error messages).
+// Client-safe (no server imports).
+
+const SECRET_PARAMS = /([?&](?:api_key|apikey|key|token|access_token|secret)=)[^&#\s"']+/gi;
+const BEARER = /(Bearer\s+)[A-Za-z0-9._~+/=-]+/g;
+// Provider key shapes (OpenAI sk-…, Perplexity pplx-…, Firecrawl fc-…)
+const KEY_SHAPES = /\b(?:sk|pplx|fc)-[A-Za-z0-9_-]{12,}\b/g;
+
+// Server env secrets, matched verbatim wherever they appear
+const ENV_SECRETS = [
+  "SERP_API_KEY",
+  "SERPAPI_KEY",
+  "OPENAI_API_KEY",
+  "PERPLEXITY_API_KEY",
+  "FIRECRAWL_API_KEY",
+  "DATAFORSEO_PASSWORD",
+];
+
+export function redactSecrets(text: string): string {
+  let out = text
+    .replace(SECRET_PARAMS, "$1[redacted]")
+    .replace(BEARER, "$1[redacted]")
+    .replace(KEY_SHAPES, "[redacted]");
+  if (typeof process !== "undefined") {
+    for (const name of ENV_SECRETS) {
+      const v = process.env?.[name];
+      if (v && v.length >= 8) out = out.split(v).join("[redacted]");
+    }
+  }
+  return out;
+}
@@ -0,0 +1,102 @@
+// lib/report-diff.ts
+// Differences between two overall report versions (pure — safe to import from
+// client components). Versions are stored by the report/overall route; see
+// saveReportVersion in lib/repository.ts.
+
+type Category = string;
+
+/** The parts of an overall report the diff reads. */
+export type DiffableReport = {
+  generatedAt: number;
+  metrics: { sov: number; whiteSpacePct: number; competitorPressureIdx: number };
+  clusters?: Array<{ title: string; items?: string[] }>;
+  nextActions?: Array<{ rank: number; promptId: string; prompt: string }>;
+  visualData?: {
+    heatmap?: Array<{ promptId: string; prompt: string }>;
+    funnelSov?: Array<{ category: Category; presentPct: number; whiteSpacePct: number }>;
+    radarCategory?: Array<{ category: Category; pressure: number }>;
+  };
+};
+
+export type MetricDelta = { from: number; to: number; delta: number };
+
+export type ReportDiff = {
+  sov: MetricDelta;
+  whiteSpace: MetricDelta;
+  competitorPressure: MetricDelta;
+  byCategory: Array<{ category: Category; sov: MetricDelta; whiteSpace: MetricDelta; pressure: MetricDelta }>;
+  clusters: {
+    added: string[];   // cluster titles only in the newer version
+    removed: string[]; // cluster titles only in the older version
+    moved: Array<{ promptId: string; prompt: string; from: string | null; to: string | null }>;
+  };
+  nextActions: {
+    entered: Array<{ promptId: string; prompt: string; rank: number }>;
+    dropped: Array<{ promptId: string; prompt: string; rank: number }>;
+    moved: Array<{ promptId: string; prompt: string; from: number; to: number }>;
+  };
+};
+
+function delta(from = 0, to = 0): MetricDelta {
+  return { from, to, delta: to - from };
+}
+
+function clusterOf(r: DiffableReport): Map<string, string> {
+  const m = new Map<string, string>();
+  for (const c of r.clusters || []) for (const pid of c.items || []) if (!m.has(pid)) m.set(pid, c.title);
+  return m;
+}
+
+/** Diff from the older report a to the newer report b. */
+export function diffReports(a: DiffableReport, b: DiffableReport): ReportDiff {
+  const text = new Map<string, string>();
+  for (const r of [a, b]) {
+    for (const h of r.visualData?.heatmap || []) text.set(h.promptId, h.prompt);
+    for (const n of r.nextActions || []) text.set(n.promptId, n.prompt);
+  }
+  const promptText = (pid: string) => text.get(pid) || pid;
+
+  const categories = Array.from(
+    new Set([...(a.visualData?.funnelSov || []), ...(b.visualData?.funnelSov || [])].map((f) => f.category))
+  );
+  const funnel = (r: DiffableReport, cat: Category) => r.visualData?.funnelSov?.find((f) => f.category === cat);
+  const radar = (r: DiffableReport, cat: Category) => r.visualData?.radarCategory?.find((x) => x.category === cat);
+
+  const titlesA = new Set((a.clusters || []).map((c) => c.title));
+  const titlesB = new Set((b.clusters || []).map((c) => c.title));
+  const inA = clusterOf(a);
+  const inB = clusterOf(b);
+  const moved: ReportDiff["clusters"]["moved"] = [];
+  for (const pid of new Set([...inA.keys(), ...inB.keys()])) {
+    const from = inA.get(pid) ?? null;
+    const to = inB.get(pid) ?? null;
+    if (from !== to) moved.push({ promptId: pid, prompt: promptText(pid), from, to });
+  }
+
+  const rankA = new Map((a.nextActions || []).map((n) => [n.promptId, n.rank]));
+  const rankB = new Map((b.nextActions || []).map((n) => [n.promptId, n.rank]));
+
+  return {
+    sov: delta(a.metrics?.sov, b.metrics?.sov),
+    whiteSpace: delta(a.metrics?.whiteSpacePct, b.metrics?.whiteSpacePct),
+    competitorPressure: delta(a.metrics?.competitorPressureIdx, b.metrics?.competitorPressureIdx),
+    byCategory: categories.map((category) => ({
+      category,
+      sov: delta(funnel(a, category)?.presentPct, funnel(b, category)?.presentPct),
+      whiteSpace: delta(funnel(a, category)?.whiteSpacePct, funnel(b, category)?.whiteSpacePct),
+      pressure: delta(radar(a, category)?.pressure, radar(b, category)?.pressure),
+    })),
+    clusters: {
+      added: [...titlesB].filter((t) => !titlesA.has(t)),
+      removed: [...titlesA].filter((t) => !titlesB.has(t)),
+      moved,
+    },
+    nextActions: {
+      entered: [...rankB].filter(([pid]) => !rankA.has(pid)).map(([pid, rank]) => ({ promptId: pid, prompt: promptText(pid), rank })),
+      dropped: [...rankA].filter(([pid]) => !rankB.has(pid)).map(([pid, rank]) => ({ promptId: pid, prompt: promptText(pid), rank })),
+      moved: [...rankB]
+        .filter(([pid, rank]) => rankA.has(pid) && rankA.get(pid) !== rank)
+        .map(([pid, rank]) => ({ promptId: pid, prompt: promptText(pid), from: rankA.get(pid)!, to: rank })),
+    },
+  };
+}
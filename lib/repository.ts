@@ -0,0 +1,351 @@
+// lib/repository.ts
+// Typed access to audit data — profiles, prompts, results, reports, volume —
+// on top of the configured store (lib/store.ts). Data paths are built here
+// only; server modules and routes call these functions instead of raw refs.
+//
+// Layout under profiles/{id}:
+//   prompts/{category}/{key}          StoredPrompt (+ volume)
+//   results/{category:key}/{engine}   StoredEngineResult
+//   reports/{category:key}            PromptReport
+//   reports/overall                   latest overall report (see report/overall route)
+//   reportVersions/{versionId}        every overall report generated
+//   reportIndex/{versionId}           ReportVersionInfo (lists versions without loading them)
+//
+// Run history lives outside the profile node, so loading or watching a
+// profile doesn't pull every snapshot along. Under history/{id}:
+//   runs/{runId}                      AuditRun (SERP run summary + timeline points)
+//   snapshots/{runId}                 results tree as it was when the run ended
+//                                     (the newest HISTORY_SNAPSHOTS runs keep one, default 20)
+import { getStore } from "./store";
+import type { EngineId, StoredEngineResult } from "./engines";
+import { PROMPT_CATEGORIES, PromptCategory, PipelineSettings } from "./pipeline";
+import type { SerpRegionKey } from "./serp";
+
+export type StoredVolume = {
+  value: number;
+  monthly: unknown[];
+  language_name: string;
+  location_code: number;
+  updatedAt: number;
+};
+
+export type StoredPrompt = {
+  id: string; // key within the category (00, 01, …)
+  text: string;
+  category: PromptCategory;
+  createdAt: number;
+  volume?: StoredVolume;
+  deletedAt?: number; // in the trash (lib/trash.ts); skipped by listPrompts
+  deletedBy?: string;
+  schemaVersion?: number;
+};
+
+/** A prompt with its profile-wide id "category:key". */
+export type PromptRef = StoredPrompt & { promptId: string; key: string };
+
+export type PromptResults = Partial<Record<EngineId, StoredEngineResult>>;
+
+export type PromptReport = {
+  promptId: string;
+  prompt: string;
+  markdown: string;
+  createdAt: number;
+  schemaVersion?: number;
+};
+
+/** Profile fields. The node also holds prompts/results/reports; read those with the functions below. */
+export type StoredProfile = {
+  companyName: string;
+  websiteUrl: string;
+  competitorUrls?: string[];
+  competitorNames?: Array<{ domain: string; names?: string[] }>;
+  brandAliases?: string[];
+  topics?: string[];
+  owner?: string;
+  status?: string;
+  progress?: number;
+  region?: SerpRegionKey;
+  engines?: unknown;
+  samples?: unknown;
+  pipeline?: PipelineSettings;
+  forceSerpRefresh?: boolean;
+  scrape?: { url?: string; source?: string; markdownPreview?: string; combinedMarkdownPreview?: string };
+  jobId?: string;
+  lastError?: string;
+  cancel?: { requestedAt: number; by: string }; // pending cancel request (lib/cancel.ts)
+  deletedAt?: number; // in the trash (lib/trash.ts)
+  deletedBy?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  schemaVersion?: number; // lib/schema.ts
+};
+
+/** Outcome of one engine/prompt pair in one run (timeline point). */
+export type RunPoint = {
+  status: "done" | "error";
+  present?: boolean; // absent when there was nothing to judge (e.g. no AI Overview)
+  rate?: number; // multi-sample presence rate
+  competitorsHit?: string[];
+  competitorRate: number;
+  checkedAt: number;
+};
+
+export type AuditRun = {
+  runId: string;
+  kind: string; // job | serp | retry-failed | rerun | add-prompt | generate-more
+  status: "done" | "cancelled" | "error";
+  startedAt: number;
+  finishedAt: number;
+  engines: EngineId[];
+  /** Pairs checked in this run only: points[promptId][engine]. */
+  points?: Record<string, Partial<Record<EngineId, RunPoint>>>;
+};
+
+/** What an overall report version was generated from. */
+export type ReportInputs = {
+  runId?: string; // latest finished run at generation time (later edits/reruns may have changed results since)
+  resultsAsOf?: number; // newest engine result used
+  // What the report read (absent on older versions): every prompt id, and per
+  // prompt the updatedAt of each engine result used
+  promptIds?: string[];
+  results?: Record<string, Partial<Record<EngineId, number>>>;
+  prompts: number;
+  engines: EngineId[];
+  companyName: string;
+  websiteUrl: string;
+  competitorUrls?: string[];
+  model: string;
+};
+
+export type ReportVersionInfo = {
+  versionId: string;
+  generatedAt: number;
+  sov: number;
+  inputs: ReportInputs;
+};
+
+const profilePath = (id: string) => `profiles/${id}`;
+const historyPath = (id: string) => `history/${id}`;
+
+const DEFAULT_KEPT_SNAPSHOTS = 20;
+
+function keptSnapshots(): number {
+  const n = Number(process.env.HISTORY_SNAPSHOTS);
+  return Number.isFinite(n) && n >= 1 ? Math.round(n) : DEFAULT_KEPT_SNAPSHOTS;
+}
+
+/** "category:key" → [category, key]. */
+export function splitPromptId(promptId: string): [PromptCategory, string] {
+  const [category, key] = promptId.split(":");
+  return [category as PromptCategory, key];
+}
+
+// ───────────────── Profiles ─────────────────
+
+export async function getProfile(id: string): Promise<StoredProfile | null> {
+  return getStore().get<StoredProfile>(profilePath(id));
+}
+
+/** Like getProfile, but a missing profile throws "Profile not found". */
+export async function requireProfile(id: string): Promise<StoredProfile> {
+  const profile = await getProfile(id);
+  if (!profile) throw new Error("Profile not found");
+  return profile;
+}
+
+/** Patch profile fields (keys may be nested paths, e.g. "scrape/url"). */
+export async function updateProfile(id: string, patch: Record<string, unknown>) {
+  await getStore().update(profilePath(id), patch);
+}
+
+// ───────────────── Prompts ─────────────────
+
+/** Every prompt of the profile, in category then key order. Trashed prompts are left out unless asked for. */
+export async function listPrompts(id: string, opts: { includeDeleted?: boolean } = {}): Promise<PromptRef[]> {
+  const tree = (await getStore().get<Record<string, Record<string, StoredPrompt>>>(`${profilePath(id)}/prompts`)) || {};
+  const out: PromptRef[] = [];
+  for (const category of PROMPT_CATEGORIES) {
+    const items = tree[category] || {};
+    for (const key of Object.keys(items).sort()) {
+      const p = items[key];
+      if (!p || (p.deletedAt && !opts.includeDeleted)) continue;
+      out.push({ ...p, category, key, promptId: `${category}:${key}` });
+    }
+  }
+  return out;
+}
+
+export async function getPrompt(id: string, promptId: string): Promise<StoredPrompt | null> {
+  const [category, key] = splitPromptId(promptId);
+  return getStore().get<StoredPrompt>(`${profilePath(id)}/prompts/${category}/${key}`);
+}
+
+/** The next n free keys in a category (00, 01, … after the highest numeric key). */
+export async function nextPromptKeys(id: string, category: PromptCategory, n = 1): Promise<string[]> {
+  const items = (await getStore().get<Record<string, unknown>>(`${profilePath(id)}/prompts/${category}`)) || {};
+  const used = Object.keys(items)
+    .map((k) => parseInt(k, 10))
+    .filter((x) => !isNaN(x));
+  const start = used.length ? Math.max(...used) + 1 : 0;
+  return Array.from({ length: n }, (_, i) => String(start + i).padStart(2, "0"));
+}
+
+export async function savePrompt(id: string, category: PromptCategory, key: string, text: string) {
+  const prompt: StoredPrompt = { id: key, text, category, createdAt: Date.now() };
+  await getStore().set(`${profilePath(id)}/prompts/${category}/${key}`, prompt);
+  return `${category}:${key}`;
+}
+
+// n keys 00, 01, … (at least width digits) that aren't taken
+function freeKeys(taken: Set<string>, n: number, width = 2): string[] {
+  const keys: string[] = [];
+  for (let i = 0; keys.length < n; i++) {
+    const key = String(i).padStart(width, "0");
+    if (!taken.has(key)) keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Keys for n regenerated prompts of a category: the slots 00 … n-1 they replace,
+ * minus those holding trashed prompts (they stay restorable). Every key outside
+ * the slots is taken, so a spill-over never lands on a prompt added by hand.
+ */
+export async function regeneratedPromptKeys(id: string, category: PromptCategory, n: number): Promise<string[]> {
+  const items = (await getStore().get<Record<string, StoredPrompt>>(`${profilePath(id)}/prompts/${category}`)) || {};
+  const slots = new Set(freeKeys(new Set(), n));
+  return freeKeys(new Set(Object.keys(items).filter((k) => items[k]?.deletedAt || !slots.has(k))), n);
+}
+
+/**
+ * Replace all prompts of the profile (texts by category; keys 00, 01, …).
+ * Trashed prompts are kept under their keys so they can still be restored.
+ */
+export async function replacePrompts(id: string, prompts: Partial<Record<PromptCategory, string[]>>) {
+  const current = (await getStore().get<Record<string, Record<string, StoredPrompt>>>(`${profilePath(id)}/prompts`)) || {};
+  const tree: Record<string, Record<string, StoredPrompt>> = {};
+  const now = Date.now();
+  for (const category of PROMPT_CATEGORIES) {
+    for (const [key, p] of Object.entries(current[category] || {})) {
+      if (p?.deletedAt) (tree[category] ||= {})[key] = p;
+    }
+    const arr = prompts[category] || [];
+    const taken = new Set(Object.keys(tree[category] || {}));
+    const keys = freeKeys(taken, arr.length, Math.max(2, String(arr.length + taken.size - 1).length));
+    arr.forEach((text, i) => {
+      (tree[category] ||= {})[keys[i]] = { id: keys[i], text, category, createdAt: now };
+    });
+  }
+  await getStore().set(`${profilePath(id)}/prompts`, tree);
+}
+
+export async function setPromptVolume(id: string, promptId: string, volume: StoredVolume) {
+  const [category, key] = splitPromptId(promptId);
+  await getStore().set(`${profilePath(id)}/prompts/${category}/${key}/volume`, volume);
+}
+
+// ───────────────── Results ─────────────────
+
+export async function getResults(id: string): Promise<Record<string, PromptResults>> {
+  return (await getStore().get<Record<string, PromptResults>>(`${profilePath(id)}/results`)) || {};
+}
+
+export async function getPromptResults(id: string, promptId: string): Promise<PromptResults> {
+  return (await getStore().get<PromptResults>(`${profilePath(id)}/results/${promptId}`)) || {};
+}
+
+export async function setEngineResult(id: string, promptId: string, engine: EngineId, record: StoredEngineResult) {
+  await getStore().set(`${profilePath(id)}/results/${promptId}/${engine}`, record);
+}
+
+/** Patch several results at once; keys are "promptId/engine". */
+export async function updateResults(id: string, patch: Record<string, StoredEngineResult>) {
+  if (Object.keys(patch).length) await getStore().update(`${profilePath(id)}/results`, patch);
+}
+
+// ───────────────── Reports ─────────────────
+
+export async function getPromptReport(id: string, promptId: string): Promise<PromptReport | null> {
+  return getStore().get<PromptReport>(`${profilePath(id)}/reports/${promptId}`);
+}
+
+export async function savePromptReport(id: string, report: PromptReport) {
+  await getStore().set(`${profilePath(id)}/reports/${report.promptId}`, report);
+}
+
+export async function getOverallReport<T>(id: string): Promise<T | null> {
+  return getStore().get<T>(`${profilePath(id)}/reports/overall`);
+}
+
+export function newReportVersionId(id: string): string {
+  return getStore().newKey(`${profilePath(id)}/reportVersions`);
+}
+
+/** Store a generated overall report as a new version and make it the latest. */
+export async function saveReportVersion(id: string, info: ReportVersionInfo, report: unknown) {
+  await getStore().update(profilePath(id), {
+    "reports/overall": report,
+    [`reportVersions/${info.versionId}`]: report,
+    [`reportIndex/${info.versionId}`]: info,
+  });
+}
+
+// ───────────────── Runs (history) ─────────────────
+
+/** Every recorded run of a profile, keyed by runId. */
+export async function getRuns(id: string): Promise<Record<string, AuditRun>> {
+  return (await getStore().get<Record<string, AuditRun>>(`${historyPath(id)}/runs`)) || {};
+}
+
+/** The run that finished last, if any. */
+export async function getLatestRun(id: string): Promise<AuditRun | null> {
+  const runs = await getRuns(id);
+  return Object.values(runs).reduce<AuditRun | null>((a, r) => (!a || r.finishedAt > a.finishedAt ? r : a), null);
+}
+
+export async function getRun(id: string, runId: string): Promise<AuditRun | null> {
+  return getStore().get<AuditRun>(`${historyPath(id)}/runs/${runId}`);
+}
+
+/**
+ * Record a run: summary fields are replaced, points are merged (a run that
+ * checks prompts in several passes keeps them all), and the results snapshot
+ * is replaced with the given tree. Snapshots of older runs past the newest
+ * HISTORY_SNAPSHOTS are dropped; their run summaries and points stay.
+ */
+export async function saveRunSnapshot(
+  id: string,
+  run: Omit<AuditRun, "points">,
+  points: Array<{ promptId: string; engine: EngineId; point: RunPoint }>,
+  results: Record<string, PromptResults>
+) {
+  const patch: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(run)) patch[`runs/${run.runId}/${k}`] = v;
+  for (const p of points) patch[`runs/${run.runId}/points/${p.promptId}/${p.engine}`] = p.point;
+  patch[`snapshots/${run.runId}`] = results;
+  await getStore().update(historyPath(id), patch);
+
+  const older = Object.values(await getRuns(id))
+    .filter((r) => r.runId !== run.runId)
+    .sort((a, b) => b.finishedAt - a.finishedAt)
+    .slice(keptSnapshots() - 1);
+  if (older.length) {
+    await getStore().update(historyPath(id), Object.fromEntries(older.map((r) => [`snapshots/${r.runId}`, null])));
+  }
+}
+
+/** Runs and snapshots of a profile as stored (export). */
+export async function getHistory(id: string): Promise<{ runs: Record<string, unknown>; snapshots: Record<string, unknown> }> {
+  const node = await getStore().get<{ runs?: Record<string, unknown>; snapshots?: Record<string, unknown> }>(historyPath(id));
+  return { runs: node?.runs || {}, snapshots: node?.snapshots || {} };
+}
+
+/** Replace the history of a profile (import). */
+export async function setHistory(id: string, history: { runs: Record<string, unknown>; snapshots: Record<string, unknown> }) {
+  await getStore().set(historyPath(id), history);
+}
+
+/** Drop a profile's history (purge). */
+export async function deleteHistory(id: string) {
+  await getStore().remove(historyPath(id));
+}
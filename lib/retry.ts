@@ -0,0 +1,87 @@
+// lib/retry.ts
+// Exponential backoff for provider calls (SerpAPI, Perplexity, Firecrawl, OpenAI).
+// Only transient failures are retried: rate limits, 5xx and network timeouts.
+
+/** Non-2xx response from a provider; keeps the status for transient/permanent triage. */
+export class HttpError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+const TRANSIENT_STATUS = new Set([408, 409, 425, 429]);
+const TRANSIENT_CODES = new Set([
+  "ETIMEDOUT",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+const TRANSIENT_NAMES = new Set(["TimeoutError", "APIConnectionError", "APIConnectionTimeoutError"]);
+
+type ErrorLike = { status?: unknown; code?: unknown; name?: unknown; message?: unknown; cause?: unknown };
+
+/**
+ * 429 / 5xx / timeouts / dropped connections are worth retrying; anything else
+ * (bad key, 4xx, parse errors, cancellation) fails straight away.
+ */
+export function isTransientError(e: unknown): boolean {
+  if (!e) return false; // cancellation (AbortError, AuditCancelledError) falls through to false
+  const err = e as ErrorLike;
+  if (typeof err.status === "number") return err.status >= 500 || TRANSIENT_STATUS.has(err.status);
+  if (typeof err.code === "string" && TRANSIENT_CODES.has(err.code)) return true;
+  if (typeof err.name === "string" && TRANSIENT_NAMES.has(err.name)) return true;
+  // fetch() wraps socket errors: TypeError("fetch failed", { cause })
+  if (err.name === "TypeError" && err.message === "fetch failed") return true;
+  return err.cause ? isTransientError(err.cause) : false;
+}
+
+export type RetryOptions = {
+  retries?: number;     // extra attempts after the first (default 3)
+  baseDelayMs?: number; // first backoff; doubles each attempt (default 1s)
+  maxDelayMs?: number;  // cap per wait (default 20s)
+  signal?: AbortSignal; // stop waiting when the audit is cancelled
+  label?: string;       // log tag, e.g. "serp:google"
+};
+
+/** Error after the last attempt, annotated with how many attempts were made. */
+export type RetriedError = Error & { attempts?: number; transient?: boolean };
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const t = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Run fn, retrying transient failures with exponential backoff + jitter. */
+export async function withRetry<T>(fn: () => Promise<T>, opts: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 20_000, signal, label = "call" } = opts;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      const transient = isTransientError(e);
+      if (!transient || attempt > retries || signal?.aborted) {
+        if (e instanceof Error) Object.assign(e, { attempts: attempt, transient });
+        throw e;
+      }
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+      console.warn("[RETRY]", { label, attempt, delayMs: Math.round(delay), error: String(e) });
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+// lib/run-lock.ts
+// One pipeline at a time per profile, plus idempotent starts.
+// - Run lock: profiles/{id}/runLock {runId, kind, owner, acquiredAt, expiresAt},
+//   taken in a transaction and renewed while the run is alive; an expired lock
+//   (crashed process) can be taken over.
+// - Idempotency: profiles/{id}/idempotency/{key} remembers what a start request
+//   returned, so a retried/double-clicked request gets the same answer. A key
+//   is bound to the endpoint that claimed it (kind).
+import { getStore } from "./store";
+
+// ───────────────── Run lock ─────────────────
+
+export type RunKind = "audit" | "serp" | "retry-failed" | "rerun" | "edit" | "add-prompt" | "generate-more";
+
+export type RunLock = {
+  runId: string;
+  kind: RunKind;
+  owner: string;      // who started the run (username, "worker", …)
+  acquiredAt: number;
+  expiresAt: number;
+};
+
+const LOCK_TTL_MS = 5 * 60_000;
+const LOCK_RENEW_MS = 60_000;
+
+export type HeldRunLock = { acquired: true; lock: RunLock; release: () => Promise<void> };
+export type BusyRunLock = { acquired: false; lock: RunLock };
+
+/**
+ * Take the profile's run lock (re-entrant for the same runId) and keep it
+ * renewed until release(). When another live run holds it, returns that run.
+ */
+export async function acquireRunLock(
+  profileId: string,
+  run: { runId: string; kind: RunKind; owner: string }
+): Promise<HeldRunLock | BusyRunLock> {
+  const lockPath = `profiles/${profileId}/runLock`;
+  const now = Date.now();
+  const mine: RunLock = { ...run, acquiredAt: now, expiresAt: now + LOCK_TTL_MS };
+
+  const res = await getStore().transaction<RunLock>(lockPath, (cur) => {
+    if (!cur || cur.expiresAt < Date.now() || cur.runId === run.runId) return mine;
+    return undefined; // held by a live run → abort
+  });
+  if (!res.committed) return { acquired: false, lock: res.value as RunLock };
+
+  const renew = setInterval(() => {
+    getStore()
+      .transaction<RunLock>(lockPath, (cur) =>
+        cur?.runId === run.runId ? { ...cur, expiresAt: Date.now() + LOCK_TTL_MS } : undefined
+      )
+      .catch(() => {});
+  }, LOCK_RENEW_MS);
+
+  return {
+    acquired: true,
+    lock: mine,
+    release: async () => {
+      clearInterval(renew);
+      await releaseRunLock(profileId, run.runId);
+    },
+  };
+}
+
+/** Drop the lock if runId still holds it (no-op otherwise). */
+export async function releaseRunLock(profileId: string, runId: string) {
+  await getStore().transaction<RunLock>(`profiles/${profileId}/runLock`, (cur) =>
+    cur?.runId === runId ? null : undefined
+  );
+}
+
+/** The live lock of a profile, or null when free/expired. */
+export async function getRunLock(profileId: string): Promise<RunLock | null> {
+  const lock = await getStore().get<RunLock>(`profiles/${profileId}/runLock`);
+  return lock && lock.expiresAt >= Date.now() ? lock : null;
+}
+
+// ───────────────── Idempotency keys ─────────────────
+
+export type IdempotencyRecord = {
+  kind: string;            // endpoint ("bootstrap", "serp", "report-overall", …)
+  status: "pending" | "done";
+  createdAt: number;
+  data?: unknown;          // response data of the first request once done
+};
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60_000;
+// A pending key whose request died is given up after this long
+const PENDING_TTL_MS = 15 * 60_000;
+
+/** A live idempotency key was claimed by another endpoint (→ 409). */
+export class IdempotencyKeyConflictError extends Error {
+  constructor(public key: string, public claimedBy: string, public requestedBy: string) {
+    super(`Idempotency-Key was already used for ${claimedBy}`);
+    this.name = "IdempotencyKeyConflictError";
+  }
+}
+
+/** Idempotency-Key header, made safe as an RTDB key (null when absent). */
+export function idempotencyKeyFrom(req: Request): string | null {
+  const raw = req.headers.get("idempotency-key")?.trim();
+  if (!raw) return null;
+  return raw.replace(/[.#$[\]/]/g, "_").slice(0, 120);
+}
+
+/**
+ * Claim key for this request. Returns null when the caller owns it (first
+ * request), or the earlier request's record when this one is a duplicate.
+ * Throws IdempotencyKeyConflictError when the key is live for another kind.
+ */
+export async function claimIdempotencyKey(
+  profileId: string,
+  key: string,
+  kind: string
+): Promise<IdempotencyRecord | null> {
+  const fresh: IdempotencyRecord = { kind, status: "pending", createdAt: Date.now() };
+
+  const res = await getStore().transaction<IdempotencyRecord>(`profiles/${profileId}/idempotency/${key}`, (cur) => {
+    if (!cur) return fresh;
+    const age = Date.now() - (cur.createdAt || 0);
+    const expired = age > (cur.status === "pending" ? PENDING_TTL_MS : IDEMPOTENCY_TTL_MS);
+    return expired ? fresh : undefined;
+  });
+  if (res.committed) return null;
+  const prior = res.value as IdempotencyRecord;
+  if (prior.kind !== kind) throw new IdempotencyKeyConflictError(key, prior.kind, kind);
+  return prior;
+}
+
+/** Remember the response data for replays. */
+export async function completeIdempotencyKey(profileId: string, key: string, kind: string, data: unknown) {
+  const record: IdempotencyRecord = { kind, status: "done", createdAt: Date.now(), data: data ?? null };
+  await getStore().set(`profiles/${profileId}/idempotency/${key}`, record);
+}
+
+/** Forget a key whose request failed, so the client can retry with it. */
+export async function releaseIdempotencyKey(profileId: string, key: string) {
+  await getStore().remove(`profiles/${profileId}/idempotency/${key}`);
+}
@@ -0,0 +1,129 @@
+// lib/run-log.ts
+// Structured pipeline event log, persisted under profiles/{id}/runLog so an
+// audit can be debugged from the dashboard. Messages are redacted before they
+// are stored or printed; logging never fails the pipeline. The log keeps the
+// newest RUN_LOG_MAX_EVENTS events (default 2000), trimmed when a run ends.
+import { getStore } from "./store";
+import { redactSecrets } from "./redact";
+import { isCancelError } from "./cancel";
+import { isTransientError } from "./retry";
+
+export type RunLogLevel = "info" | "warn" | "error";
+export type RunLogStatus = "ok" | "error" | "cancelled";
+export type ErrorClass = "transient" | "permanent" | "cancelled";
+
+export type RunLogEvent = {
+  at: number;
+  runId: string;          // job id, or "<kind>-<timestamp>" for route-triggered runs
+  level: RunLogLevel;
+  step: string;           // scrape | prompts | volume | serp | fact-check | …
+  message: string;        // redacted
+  promptId?: string;
+  provider?: string;      // engine id or API (firecrawl, openai, …)
+  latencyMs?: number;
+  status?: RunLogStatus;
+  errorClass?: ErrorClass;
+  attempts?: number;
+};
+
+const DEFAULT_MAX_EVENTS = 2000;
+
+function maxEvents(): number {
+  const n = Number(process.env.RUN_LOG_MAX_EVENTS);
+  return Number.isFinite(n) && n >= 1 ? Math.round(n) : DEFAULT_MAX_EVENTS;
+}
+
+// Current run per profile (runs execute in this process; see lib/jobs.ts)
+const currentRun = new Map<string, { runId: string; kind: string }>();
+
+/** Tag subsequent events of a profile with runId (defaults to "<kind>-<now>"). */
+export function startRunLog(profileId: string, kind: string, runId?: string): string {
+  const id = runId || `${kind}-${Date.now()}`;
+  currentRun.set(profileId, { runId: id, kind });
+  return id;
+}
+
+/**
+ * Stop tagging events with runId (no-op when another run has started since)
+ * and trim the log to its newest events.
+ */
+export async function endRunLog(profileId: string, runId: string) {
+  if (currentRun.get(profileId)?.runId === runId) currentRun.delete(profileId);
+  await trimRunLog(profileId);
+}
+
+/** Drop the oldest events past RUN_LOG_MAX_EVENTS (best-effort; push keys sort by time). */
+export async function trimRunLog(profileId: string) {
+  try {
+    const path = `profiles/${profileId}/runLog`;
+    const keys = Object.keys((await getStore().get<Record<string, unknown>>(path)) || {}).sort();
+    const excess = keys.length - maxEvents();
+    if (excess > 0) await getStore().update(path, Object.fromEntries(keys.slice(0, excess).map((k) => [k, null])));
+  } catch (e) {
+    console.error("[RUN][log][trim-error]", String(e));
+  }
+}
+
+/** The run events of a profile are currently tagged with (see startRunLog). */
+export function currentRunOf(profileId: string): { runId: string; kind: string } | undefined {
+  return currentRun.get(profileId);
+}
+
+export function classifyError(e: unknown): ErrorClass {
+  if (isCancelError(e)) return "cancelled";
+  return isTransientError(e) ? "transient" : "permanent";
+}
+
+/** Append one event (best-effort). Undefined fields are dropped (RTDB rejects them). */
+export async function logEvent(
+  profileId: string,
+  event: Omit<RunLogEvent, "at" | "runId" | "level"> & { level?: RunLogLevel }
+) {
+  const row: RunLogEvent = {
+    at: Date.now(),
+    runId: currentRun.get(profileId)?.runId || "adhoc",
+    ...event,
+    level: event.level || (event.status === "error" ? "error" : "info"),
+    message: redactSecrets(event.message).slice(0, 500),
+  };
+  const clean = Object.fromEntries(Object.entries(row).filter(([, v]) => v !== undefined));
+
+  const tag = `[RUN][${row.step}]${row.provider ? `[${row.provider}]` : ""}`;
+  (row.level === "error" ? console.error : row.level === "warn" ? console.warn : console.log)(tag, row.message);
+
+  try {
+    await getStore().push(`profiles/${profileId}/runLog`, clean);
+  } catch (e) {
+    console.error("[RUN][log][error]", String(e));
+  }
+}
+
+/**
+ * Time fn and log one ok/error event for it. Errors are re-thrown unchanged;
+ * attempts come from withRetry's annotation when present.
+ */
+export async function timed<T>(
+  profileId: string,
+  base: { step: string; message: string; promptId?: string; provider?: string },
+  fn: () => Promise<T>
+): Promise<T> {
+  const started = Date.now();
+  try {
+    const out = await fn();
+    await logEvent(profileId, { ...base, status: "ok", latencyMs: Date.now() - started });
+    return out;
+  } catch (e) {
+    const errorClass = classifyError(e);
+    const attempts = (e as { attempts?: unknown })?.attempts;
+    await logEvent(profileId, {
+      ...base,
+      level: errorClass === "cancelled" ? "warn" : "error",
+      status: errorClass === "cancelled" ? "cancelled" : "error",
+      errorClass,
+      attempts: typeof attempts === "number" ? attempts : undefined,
+      message: `${base.message}: ${e instanceof Error ? e.message : String(e)}`,
+      latencyMs: Date.now() - started,
+    });
+    throw e;
+  }
+}
@@ -0,0 +1,303 @@
+// lib/schema.ts
+// Versioned runtime schemas for stored records (profiles, prompts, engine
+// results, reports). Every store write goes through prepareWrite (see
+// lib/store.ts and lib/client-store.ts): records written at a known path are
+// checked field by field and full records are stamped with schemaVersion.
+// Older records are upgraded by lib/migrations.ts. Pure — safe to import from
+// client components.
+import { ENGINE_IDS } from "./engines";
+import { PROMPT_CATEGORIES } from "./pipeline";
+
+export type RecordKind = "profile" | "prompt" | "result" | "report" | "promptReport";
+
+/** Current version per kind; records without schemaVersion are version 1. */
+export const SCHEMA_VERSION: Record<RecordKind, number> = {
+  profile: 2, // region (not country), topics (not remarks)
+  prompt: 2, // volume.value + volume.monthly (not volume / ai_monthly_searches)
+  result: 1,
+  report: 1,
+  promptReport: 1,
+};
+
+export type SchemaIssue = { path: string; message: string };
+
+export class SchemaError extends Error {
+  constructor(public issues: SchemaIssue[]) {
+    super(`Invalid record: ${issues.map((i) => `${i.path}: ${i.message}`).join("; ")}`);
+    this.name = "SchemaError";
+  }
+}
+
+export function recordVersion(value: unknown): number {
+  const v = isObject(value) ? value.schemaVersion : undefined;
+  return typeof v === "number" ? v : 1;
+}
+
+// ───────────────── Field checks ─────────────────
+
+type Check = (v: unknown) => string | null; // message, or null when valid
+type Shape = { fields: Record<string, Check>; required?: string[]; legacy?: Record<string, string> };
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+const str: Check = (v) => (typeof v === "string" ? null : "expected a string");
+const nonEmpty: Check = (v) => (typeof v === "string" && v.trim() ? null : "expected a non-empty string");
+const num: Check = (v) => (typeof v === "number" && Number.isFinite(v) ? null : "expected a number");
+const bool: Check = (v) => (typeof v === "boolean" ? null : "expected a boolean");
+const rate: Check = (v) => (typeof v === "number" && v >= 0 && v <= 1 ? null : "expected a number in 0..1");
+const obj: Check = (v) => (isObject(v) ? null : "expected an object");
+const arr: Check = (v) => (Array.isArray(v) ? null : "expected an array");
+const strArray: Check = (v) =>
+  Array.isArray(v) && v.every((x) => typeof x === "string") ? null : "expected an array of strings";
+const oneOf =
+  (...allowed: readonly string[]): Check =>
+  (v) =>
+    typeof v === "string" && allowed.includes(v) ? null : `expected one of ${allowed.join(", ")}`;
+const arrayOf =
+  (allowed: readonly string[]): Check =>
+  (v) =>
+    Array.isArray(v) && v.every((x) => allowed.includes(x as string)) ? null : `expected values from ${allowed.join(", ")}`;
+// Numbers, or the server timestamp marker resolved by the backend
+const time: Check = (v) =>
+  typeof v === "number" || (isObject(v) && v[".sv"] === "timestamp") ? null : "expected a timestamp";
+
+const PROFILE: Shape = {
+  required: ["companyName", "websiteUrl"],
+  fields: {
+    companyName: nonEmpty,
+    websiteUrl: nonEmpty,
+    competitorUrls: strArray,
+    competitorNames: (v) =>
+      Array.isArray(v) && v.every((x) => isObject(x) && typeof x.domain === "string") ? null : "expected [{ domain, names? }]",
+    brandAliases: strArray,
+    topics: strArray,
+    owner: str,
+    status: oneOf("creating", "queued", "scraping", "generating_prompts", "serp_check", "done", "error", "cancelled"),
+    progress: (v) => (typeof v === "number" && v >= 0 && v <= 100 ? null : "expected a number in 0..100"),
+    region: oneOf("sg", "us"),
+    engines: arrayOf(ENGINE_IDS),
+    samples: num,
+    pipeline: obj,
+    forceSerpRefresh: bool,
+    jobId: str,
+    lastError: str,
+    deletedAt: num, // in the trash since (lib/trash.ts)
+    deletedBy: str,
+    createdAt: time,
+    updatedAt: time,
+  },
+  legacy: { country: "use region", remarks: "use topics" },
+};
+
+const VOLUME: Shape = {
+  required: ["value", "monthly"],
+  fields: { value: num, monthly: arr, language_name: str, location_code: num, updatedAt: time },
+  legacy: { volume: "use value", ai_monthly_searches: "use monthly" },
+};
+
+const PROMPT: Shape = {
+  required: ["text", "category"],
+  fields: {
+    id: str,
+    text: nonEmpty,
+    category: oneOf(...PROMPT_CATEGORIES),
+    createdAt: time,
+    deletedAt: num,
+    deletedBy: str,
+    volume: (v) => (isObject(v) ? null : "expected an object"), // checked with VOLUME below
+  },
+};
+
+const RESULT: Shape = {
+  fields: {
+    status: oneOf("checking", "done", "error", "cancelled"),
+    error: str,
+    attempts: num,
+    transient: bool,
+    hasCompany: bool,
+    competitorsHit: strArray,
+    updatedAt: time,
+    sampleCount: num,
+    failedSamples: num,
+    presenceRate: rate,
+    competitorRate: rate,
+    samples: arr,
+    top10: strArray,
+    answer: str,
+    citations: strArray,
+    serpCache: obj,
+    mentions: obj,
+    framing: obj,
+    shopping: obj,
+    immersive: obj,
+    aiOverview: obj,
+  },
+};
+
+const REPORT: Shape = {
+  required: ["generatedAt", "metrics"],
+  fields: {
+    generatedAt: time,
+    versionId: str,
+    inputs: obj,
+    metrics: (v) =>
+      isObject(v) && ["sov", "whiteSpacePct", "competitorPressureIdx"].every((k) => typeof v[k] === "number")
+        ? null
+        : "expected { sov, whiteSpacePct, competitorPressureIdx } numbers",
+    categorySummaries: obj,
+    clusters: arr,
+    opportunities: arr,
+    nextActions: arr,
+    visualData: obj,
+  },
+};
+
+const PROMPT_REPORT: Shape = {
+  required: ["promptId", "prompt", "markdown"],
+  fields: { promptId: str, prompt: str, markdown: str, createdAt: time },
+};
+
+const SHAPES: Record<RecordKind, Shape> = {
+  profile: PROFILE,
+  prompt: PROMPT,
+  result: RESULT,
+  report: REPORT,
+  promptReport: PROMPT_REPORT,
+};
+
+function checkShape(shape: Shape, value: Record<string, unknown>, where: string, partial: boolean): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (!partial) {
+    for (const k of shape.required || []) {
+      if (value[k] === undefined || value[k] === null) issues.push({ path: `${where}/${k}`, message: "required" });
+    }
+  }
+  for (const [k, v] of Object.entries(value)) {
+    if (v === null || v === undefined) {
+      // deletes (and RTDB rejects undefined anyway), except of required fields
+      if (partial && v === null && shape.required?.includes(k)) issues.push({ path: `${where}/${k}`, message: "required" });
+      continue;
+    }
+    if (shape.legacy?.[k]) {
+      issues.push({ path: `${where}/${k}`, message: `legacy field (${shape.legacy[k]})` });
+      continue;
+    }
+    const msg = shape.fields[k]?.(v);
+    if (msg) issues.push({ path: `${where}/${k}`, message: msg });
+  }
+  return issues;
+}
+
+/**
+ * Issues with a record (full, or a partial patch of its fields). Fields the
+ * schema doesn't know are allowed: profiles also carry pipeline bookkeeping.
+ */
+export function validateRecord(kind: RecordKind, value: unknown, where: string = kind, partial = false): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: where, message: "expected an object" }];
+  const issues = checkShape(SHAPES[kind], value, where, partial);
+  if (kind === "prompt" && isObject(value.volume)) issues.push(...checkShape(VOLUME, value.volume, `${where}/volume`, false));
+  if (typeof value.schemaVersion === "number" && value.schemaVersion > SCHEMA_VERSION[kind]) {
+    issues.push({ path: `${where}/schemaVersion`, message: `newer than supported (${SCHEMA_VERSION[kind]})` });
+  }
+  return issues;
+}
+
+// ───────────────── Writes by path ─────────────────
+
+function full(kind: RecordKind, value: unknown, where: string, issues: SchemaIssue[]): unknown {
+  issues.push(...validateRecord(kind, value, where));
+  return isObject(value) ? { ...value, schemaVersion: SCHEMA_VERSION[kind] } : value;
+}
+
+function field(kind: RecordKind, name: string, value: unknown, where: string, issues: SchemaIssue[]) {
+  issues.push(...validateRecord(kind, { [name]: value }, where.slice(0, where.lastIndexOf("/")), true));
+  return value;
+}
+
+function mapChildren(value: unknown, where: string, fn: (child: unknown, where: string) => unknown): unknown {
+  if (!isObject(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, v === null ? v : fn(v, `${where}/${k}`)]));
+}
+
+// rest = path segments under profiles/{id}
+function prepareProfilePath(rest: string[], value: unknown, where: string, issues: SchemaIssue[]): unknown {
+  const [head, a, b, c] = rest;
+  const prompts = (v: unknown, w: string) => mapChildren(v, w, (cat, wc) => mapChildren(cat, wc, (p, wp) => full("prompt", p, wp, issues)));
+  const results = (v: unknown, w: string) => mapChildren(v, w, (per, wr) => mapChildren(per, wr, (r, we) => full("result", r, we, issues)));
+  const reports = (v: unknown, w: string) =>
+    mapChildren(v, w, (r, wr) => full(wr.endsWith("/overall") ? "report" : "promptReport", r, wr, issues));
+  const versions = (v: unknown, w: string) => mapChildren(v, w, (r, wr) => full("report", r, wr, issues));
+
+  if (head === undefined) {
+    // whole profile node: its own fields + any subtrees it carries
+    if (!isObject(value)) return full("profile", value, where, issues);
+    const { prompts: p, results: r, reports: rp, reportVersions: rv, ...own } = value;
+    const out: Record<string, unknown> = full("profile", own, where, issues) as Record<string, unknown>;
+    if (p !== undefined) out.prompts = prompts(p, `${where}/prompts`);
+    if (r !== undefined) out.results = results(r, `${where}/results`);
+    if (rp !== undefined) out.reports = reports(rp, `${where}/reports`);
+    if (rv !== undefined) out.reportVersions = versions(rv, `${where}/reportVersions`);
+    return out;
+  }
+  if (head === "prompts") {
+    if (a === undefined) return prompts(value, where);
+    if (b === undefined) return mapChildren(value, where, (p, wp) => full("prompt", p, wp, issues));
+    if (c === undefined) return full("prompt", value, where, issues);
+    return rest.length === 4 ? field("prompt", c, value, where, issues) : value;
+  }
+  if (head === "results") {
+    if (a === undefined) return results(value, where);
+    if (b === undefined) return mapChildren(value, where, (r, we) => full("result", r, we, issues));
+    return c === undefined ? full("result", value, where, issues) : value;
+  }
+  if (head === "reports") {
+    if (a === undefined) return reports(value, where);
+    return b === undefined ? full(a === "overall" ? "report" : "promptReport", value, where, issues) : value;
+  }
+  if (head === "reportVersions") {
+    if (a === undefined) return versions(value, where);
+    return b === undefined ? full("report", value, where, issues) : value;
+  }
+  if (rest.length === 1 && (head in PROFILE.fields || head in PROFILE.legacy!)) return field("profile", head, value, where, issues);
+  return value; // bookkeeping (rerun, runLog, …)
+}
+
+// Required fields addressed by their own path (rest = segments under profiles/{id})
+function requiredFieldShape(rest: string[]): Shape | null {
+  const [head, a, b, c, d] = rest;
+  if (rest.length === 1) return PROFILE.required!.includes(head) ? PROFILE : null;
+  if (head === "prompts" && rest.length === 4) return PROMPT.required!.includes(c) ? PROMPT : null;
+  if (head === "prompts" && rest.length === 5 && c === "volume") return VOLUME.required!.includes(d) ? VOLUME : null;
+  if ((head === "reports" || head === "reportVersions") && rest.length === 3) {
+    const shape = head === "reports" && a !== "overall" ? PROMPT_REPORT : REPORT;
+    return shape.required!.includes(b) ? shape : null;
+  }
+  return null;
+}
+
+/**
+ * Validate a write of value at path and return what to store (full records
+ * stamped with schemaVersion). Throws SchemaError. Deletes pass, except of a
+ * required field on its own (a record is deleted as a whole).
+ */
+export function prepareWrite(path: string, value: unknown): unknown {
+  const segs = path.split("/").filter(Boolean);
+  if (segs[0] !== "profiles") return value;
+  if (value === null || value === undefined) {
+    if (value === null && segs.length > 2 && requiredFieldShape(segs.slice(2))) {
+      throw new SchemaError([{ path: segs.join("/"), message: "required" }]);
+    }
+    return value;
+  }
+  const issues: SchemaIssue[] = [];
+  let out: unknown;
+  if (segs.length === 1) {
+    out = mapChildren(value, "profiles", (p, w) => prepareProfilePath([], p, w, issues));
+  } else {
+    out = prepareProfilePath(segs.slice(2), value, segs.join("/"), issues);
+  }
+  if (issues.length) throw new SchemaError(issues);
+  return out;
+}
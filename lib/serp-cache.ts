@@ -0,0 +1,124 @@
+// lib/serp-cache.ts
+// Shared SerpAPI response cache (all profiles): serpCache/{sha256(engine|query|region|device)}.
+// Agencies audit several brands in one niche, so the same query + region is
+// fetched once per TTL instead of once per profile. Best-effort: a cache
+// read/write failure falls back to the live call. Expired entries are swept
+// from the worker (sweepExpiredSerpCache).
+import { createHash } from "crypto";
+import { getStore } from "./store";
+import type { SerpCache, SerpCacheKey } from "./serp";
+
+// SERP_CACHE_TTL_HOURS (default 24); 0 disables the cache
+const DEFAULT_TTL_HOURS = 24;
+const SWEEP_EVERY_MS = 60 * 60_000;
+
+function ttlMs(): number {
+  const h = Number(process.env.SERP_CACHE_TTL_HOURS);
+  return (Number.isFinite(h) && h >= 0 ? h : DEFAULT_TTL_HOURS) * 60 * 60_000;
+}
+
+type CacheEntry = SerpCacheKey & {
+  json: string; // payload as a string (SerpAPI keys are not all valid RTDB keys)
+  fetchedAt: number;
+};
+
+/** Cache usage of one engine check (stored on the result → "from cache" in the UI). */
+export type SerpCacheStats = {
+  hits: number;
+  misses: number;
+  cachedAt?: number; // oldest fetchedAt among the hits
+};
+
+function normalizeQuery(q: string) {
+  return q.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function serpCacheId(key: SerpCacheKey): string {
+  const raw = [key.engine, normalizeQuery(key.query), key.region, key.device].join("|");
+  return createHash("sha256").update(raw).digest("hex");
+}
+
+/**
+ * Cache handle for one check. forceRefresh skips reads (fresh data is still
+ * written back, so other profiles benefit from the refresh). With deferWrites,
+ * put() only buffers; flush() writes the buffer once every call of the check
+ * succeeded, so a SERP is never cached without the follow-ups it points to.
+ */
+export function createSerpCache(
+  opts: { forceRefresh?: boolean; deferWrites?: boolean } = {}
+): SerpCache & { stats(): SerpCacheStats; flush(): Promise<void> } {
+  const ttl = ttlMs();
+  const stats: SerpCacheStats = { hits: 0, misses: 0 };
+  const pending: Array<{ key: SerpCacheKey; data: unknown }> = [];
+
+  const write = async (key: SerpCacheKey, data: unknown) => {
+    try {
+      const entry: CacheEntry = {
+        ...key,
+        query: normalizeQuery(key.query),
+        json: JSON.stringify(data),
+        fetchedAt: Date.now(),
+      };
+      await getStore().set(`serpCache/${serpCacheId(key)}`, entry);
+    } catch (e) {
+      console.warn("[SERP][cache][write-error]", String(e));
+    }
+  };
+
+  return {
+    async get(key) {
+      if (!ttl || opts.forceRefresh) {
+        stats.misses += 1;
+        return undefined;
+      }
+      try {
+        const entry = await getStore().get<CacheEntry>(`serpCache/${serpCacheId(key)}`);
+        if (entry && Date.now() - entry.fetchedAt < ttl) {
+          stats.hits += 1;
+          stats.cachedAt = Math.min(stats.cachedAt ?? entry.fetchedAt, entry.fetchedAt);
+          return JSON.parse(entry.json) as unknown;
+        }
+      } catch (e) {
+        console.warn("[SERP][cache][read-error]", String(e));
+      }
+      stats.misses += 1;
+      return undefined;
+    },
+    async put(key, data) {
+      if (!ttl) return;
+      if (opts.deferWrites) pending.push({ key, data });
+      else await write(key, data);
+    },
+    async flush() {
+      for (const { key, data } of pending.splice(0)) await write(key, data);
+    },
+    stats: () => ({ ...stats }),
+  };
+}
+
+/** Delete cache entries older than the TTL (all of them when the cache is disabled). */
+export async function purgeExpiredSerpCache(now = Date.now()) {
+  const cutoff = now - ttlMs();
+  const entries = (await getStore().get<Record<string, Partial<CacheEntry>>>("serpCache")) || {};
+  const expired = Object.entries(entries)
+    .filter(([, e]) => !(typeof e?.fetchedAt === "number" && e.fetchedAt >= cutoff))
+    .map(([id]) => id);
+  if (expired.length) {
+    await getStore().update("serpCache", Object.fromEntries(expired.map((id) => [id, null])));
+    console.log("[SERP][cache][purge]", { purged: expired.length });
+  }
+  return { purged: expired.length };
+}
+
+let lastSweep = 0;
+
+/** purgeExpiredSerpCache at most once an hour per process (best-effort). */
+export async function sweepExpiredSerpCache() {
+  if (Date.now() - lastSweep < SWEEP_EVERY_MS) return;
+  lastSweep = Date.now();
+  try {
+    await purgeExpiredSerpCache();
+  } catch (e) {
+    console.error("[SERP][cache][purge][error]", e instanceof Error ? e.message : String(e));
+  }
+}
@@ -1,40 +1,42 @@
 // lib/serp-runner.ts
 
-import { initializeApp, getApps } from "firebase/app";
-import { getDatabase, ref, get, set, update, serverTimestamp, child } from "firebase/database";
+import { getStore, serverTimestamp } from "./store";
 import {
-  analyzeTop10,
-  hostnameFromUrl,
-  serpTop10,
-  serpSearchRaw,
-  extractOrganicTop10,
-  extractShoppingSellerHosts,
-  fetchImmersiveStoresAndBrands,
-  analyzePresence,
-  analyzeImmersiveByBrand,
-  SerpRegionKey,
-} from "./serp";
-
-// Firebase init (client SDK via env)
-if (!getApps().length) {
-  initializeApp({
-    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-    databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL!,
-    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-    storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-    messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
-  });
-}
-const db = getDatabase();
+  getProfile,
+  getPrompt,
+  getResults,
+  listPrompts,
+  setEngineResult,
+  updateProfile,
+  updateResults,
+} from "./repository";
+import { analyzeTop10, hostnameFromUrl, SerpRegionKey } from "./serp";
+import {
+  EngineId,
+  EngineMeta,
+  StoredEngineResult,
+  enginePresence,
+  resolveEngines,
+  resolveSamples,
+} from "./engines";
+import { ADAPTERS, EngineContext, addFraming, rematchStored, runAdapter } from "./engine-adapters";
+import { buildBrandTerms } from "./mentions";
+import { AuditCancelledError, isCancelError, markProfileCancelled } from "./cancel";
+import { classifyError, logEvent } from "./run-log";
+import { CheckedPair, recordRunSnapshot } from "./history";
 
 type PromptItem = { id: string; text: string; category: string };
 
-async function asyncPool<T>(limit: number, array: T[], worker: (item: T, i: number) => Promise<void>) {
+async function asyncPool<T>(
+  limit: number,
+  array: T[],
+  worker: (item: T, i: number) => Promise<void>,
+  signal?: AbortSignal
+) {
   const ret: Promise<void>[] = [];
   const executing: Promise<void>[] = [];
   for (let i = 0; i < array.length; i++) {
+    if (signal?.aborted) break; // cancelled: don't start more items, let in-flight ones settle
     const p = Promise.resolve().then(() => worker(array[i], i));
     ret.push(p);
     if (limit <= array.length) {
@@ -49,275 +51,433 @@ async function asyncPool<T>(limit: number, array: T[], worker: (item: T, i: numb
   await Promise.all(ret);
 }
 
-export async function runSerpChecksForProfile(profileId: string) {
-  const profileRef = ref(db, `profiles/${profileId}`);
-  const snap = await get(profileRef);
-  if (!snap.exists()) throw new Error("Profile not found");
+type ProfileForSerp = {
+  companyName?: string;
+  websiteUrl: string;
+  brandAliases?: string[];
+  competitorUrls?: string[];
+  competitorNames?: Array<{ domain: string; names?: string[] }>;
+  region?: SerpRegionKey;
+  engines?: unknown;
+  samples?: unknown;
+  forceSerpRefresh?: boolean; // bypass the shared SERP cache (see lib/serp-cache.ts)
+};
+
+/** Load the profile and derive the matching context + enabled engines. */
+async function loadSerpSetup(profileId: string) {
+  const profile = (await getProfile(profileId)) as ProfileForSerp | null;
+  if (!profile) throw new Error("Profile not found");
+
+  const base: Omit<EngineContext, "promptId"> = {
+    region: profile.region || "sg",
+    companyDomain: hostnameFromUrl(profile.websiteUrl),
+    competitorDomains: (profile.competitorUrls || []).map(hostnameFromUrl),
+    brands: buildBrandTerms(profile),
+    forceRefresh: profile.forceSerpRefresh === true,
+  };
+  return { profile, base, engines: resolveEngines(profile), samples: resolveSamples(profile) };
+}
+
+/** Mark every enabled engine of a prompt as checking (drives the spinner in the UI). */
+async function markChecking(profileId: string, promptId: string, engines: EngineMeta[]) {
+  const patch: Record<string, StoredEngineResult> = {};
+  for (const e of engines) patch[`${promptId}/${e.id}`] = { status: "checking" };
+  await updateResults(profileId, patch);
+}
+
+/** The URLs presence was judged from for one sample (same lists as enginePresence, in full). */
+function sampleSources(id: EngineId, r: StoredEngineResult): string[] {
+  if (id === "google") return r.aiOverview?.present ? (r.aiOverview.references || []).map((x) => x.link) : [];
+  return (id === "bing" ? r.top10 : r.citations) || [];
+}
 
-  const profile = snap.val() as {
-    websiteUrl: string;
-    competitorUrls?: string[];
-    region?: SerpRegionKey;
+/**
+ * Fold N samples of one engine/prompt pair into one record: sample #1 stays the
+ * representative answer; presence/competitor rates + per-sample evidence are added.
+ */
+function aggregateSamples(id: EngineId, records: StoredEngineResult[], failed = 0): StoredEngineResult {
+  const [first] = records;
+  if (records.length < 2 && !failed) return first;
+
+  const pres = records.map((r) => enginePresence(id, r));
+  const judged = pres.some((p) => p.hasCompany !== undefined);
+  const n = records.length;
+
+  return {
+    ...first,
+    sampleCount: n,
+    ...(failed ? { failedSamples: failed } : {}),
+    ...(judged ? { presenceRate: pres.filter((p) => p.hasCompany).length / n } : {}),
+    competitorRate: pres.filter((p) => p.competitorsHit.length > 0).length / n,
+    samples: records.map((r, i) => ({
+      present: pres[i].hasCompany === true,
+      competitorsHit: pres[i].competitorsHit,
+      sources: sampleSources(id, r),
+      rematchable: true,
+    })),
   };
+}
 
-  const companyDomain = hostnameFromUrl(profile.websiteUrl);
-  const competitorDomains = (profile.competitorUrls || []).map(hostnameFromUrl);
-  const region: SerpRegionKey = profile.region || "sg";
+/**
+ * Run one engine for one prompt (N samples) and persist the result under
+ * results/{promptId}/{engine}. Rates come from the samples that succeeded
+ * (failedSamples counts the others); the pair is an error only when none did.
+ */
+async function checkEngine(
+  profileId: string,
+  engine: EngineMeta,
+  text: string,
+  ctx: EngineContext,
+  samples = 1,
+  onSample?: () => Promise<void>
+) {
+  const started = Date.now();
+  const logBase = { step: "serp", promptId: ctx.promptId, provider: engine.id };
+  let ticked = 0;
+  try {
+    const records: StoredEngineResult[] = [];
+    let lastError: unknown;
+    for (let i = 0; i < samples; i++) {
+      try {
+        // Later samples skip cached SERP reads: a replay of sample 1 isn't a sample
+        records.push(await runAdapter(ADAPTERS[engine.id], text, i > 0 ? { ...ctx, forceRefresh: true } : ctx));
+      } catch (e) {
+        if (isCancelError(e) || ctx.signal?.aborted) throw e;
+        lastError = e;
+        console.error("[SERP][sample][error]", { promptId: ctx.promptId, engine: engine.id, sample: i + 1, error: String(e) });
+      }
+      ticked += 1;
+      await onSample?.();
+    }
+    if (!records.length) throw lastError;
+
+    const failed = samples - records.length;
+    const record = aggregateSamples(engine.id, records, failed);
+    await addFraming(ADAPTERS[engine.id], record, ctx);
+    await setEngineResult(profileId, ctx.promptId, engine.id, { status: "done", ...record, updatedAt: Date.now() });
+    await logEvent(profileId, {
+      ...logBase,
+      status: "ok",
+      level: failed ? "warn" : "info",
+      latencyMs: Date.now() - started,
+      message: failed
+        ? `${engine.label}: ${records.length}/${samples} sample(s) checked (${failed} failed: ${String((lastError as Error)?.message ?? lastError)})`
+        : `${engine.label}: ${samples} sample(s) checked`,
+    });
+  } catch (e: any) {
+    if (isCancelError(e) || ctx.signal?.aborted) {
+      await setEngineResult(profileId, ctx.promptId, engine.id, { status: "cancelled", updatedAt: Date.now() });
+      await logEvent(profileId, {
+        ...logBase,
+        level: "warn",
+        status: "cancelled",
+        errorClass: "cancelled",
+        latencyMs: Date.now() - started,
+        message: `${engine.label}: cancelled`,
+      });
+      return;
+    }
+    await logEvent(profileId, {
+      ...logBase,
+      status: "error",
+      errorClass: classifyError(e),
+      attempts: typeof e?.attempts === "number" ? e.attempts : undefined,
+      latencyMs: Date.now() - started,
+      message: `${engine.label}: ${String(e?.message ?? e)}`,
+    });
+    await setEngineResult(profileId, ctx.promptId, engine.id, {
+      status: "error",
+      error: String(e?.message ?? e),
+      attempts: typeof e?.attempts === "number" ? e.attempts : 1,
+      transient: e?.transient === true,
+      updatedAt: Date.now(),
+    });
+  } finally {
+    // a cancelled pair skips its remaining samples; keep progress counts whole
+    for (; ticked < samples; ticked++) await onSample?.();
+  }
+}
 
-  // gather prompts
-  const promptsSnap = await get(child(profileRef, "prompts"));
-  const promptsVal = promptsSnap.val() || {};
-  const prompts: PromptItem[] = [];
-  for (const cat of ["brainstorming", "identified_problem", "solution_comparing", "info_seeking"]) {
-    const items = promptsVal[cat] || {};
-    for (const [key, v] of Object.entries(items)) {
-      const text = (v as any)?.text as string;
-      prompts.push({ id: `${cat}:${key}`, text, category: cat });
+/** Prompts still marked checking after a cancelled run → cancelled. */
+async function markLeftoverCancelled(profileId: string) {
+  const results = await getResults(profileId);
+  const patch: Record<string, StoredEngineResult> = {};
+  for (const [promptId, perEngine] of Object.entries(results)) {
+    for (const [engineId, r] of Object.entries(perEngine || {})) {
+      if (r?.status === "checking") patch[`${promptId}/${engineId}`] = { status: "cancelled", updatedAt: Date.now() };
     }
   }
+  await updateResults(profileId, patch);
+}
+
+/** Every stored prompt of the profile, in category order. */
+async function loadPrompts(profileId: string): Promise<PromptItem[]> {
+  return (await listPrompts(profileId)).map((p) => ({ id: p.promptId, text: p.text, category: p.category }));
+}
+
+export async function runSerpChecksForProfile(profileId: string, signal?: AbortSignal) {
+  const startedAt = Date.now();
+  const { base, engines, samples } = await loadSerpSetup(profileId);
+
+  // gather prompts
+  const prompts = await loadPrompts(profileId);
 
   // status → serp_check
-  await update(profileRef, {
+  await updateProfile(profileId, {
     status: "serp_check",
     progress: 72,
     updatedAt: serverTimestamp(),
   });
 
-  // mark each prompt's engines as checking (drives the spinner in the UI)
   for (const p of prompts) {
-    await update(child(profileRef, `results/${p.id}`), {
-      google: { status: "checking" },
-      bing: { status: "checking" },
-    });
+    await markChecking(profileId, p.id, engines);
   }
 
+  // progress counts engine/prompt/sample runs
   let done = 0;
-  const total = Math.max(1, prompts.length);
-
-  // Run with small concurrency
-  await asyncPool(4, prompts, async (p) => {
-    try {
-      // GOOGLE (enhanced: organic + shopping + immersive)
-      try {
-        // 1) Full SERP JSON (region-aware)
-        const gData = await serpSearchRaw(p.text, region);
-
-        // 2) Organic (legacy fields) — store ALL URLs (top10)
-        const gTop10 = extractOrganicTop10(gData);
-        const organic = analyzeTop10(gTop10, companyDomain, competitorDomains);
-
-        // Log search URLs & matched count (unchanged logic)
-        try {
-          console.log("[SERP][search][urls]", gTop10);
-          const searchMatches = gTop10.filter((u) => {
-            const h = hostnameFromUrl(u);
-            return h === companyDomain || h.endsWith("." + companyDomain);
-          }).length;
-          console.log("[SERP][search][matched-count]", { promptId: p.id, matchedCount: searchMatches });
-        } catch {}
-
-        // 3) Shopping sellers on main SERP (host-based, informational)
-        const shoppingHosts = extractShoppingSellerHosts(gData);
-        const shopping = analyzePresence([...shoppingHosts], companyDomain, competitorDomains);
-
-        // 4) Immersive Products → follow & collect (hosts + brands)
-        const { hosts: immersiveHosts, brands: immersiveBrands } = await fetchImmersiveStoresAndBrands(gData, region);
-
-        // Log all brands & matched count (brand→domain)
-        try {
-          const brandsArr = Array.from(immersiveBrands);
-          console.log("[SERP][immersive][brands][prompt]", { promptId: p.id, brands: brandsArr });
-          const brandMatchedCount = brandsArr.filter((b) => {
-            const normB = b && b.trim();
-            return normB ? companyDomain.toLowerCase().includes(
-              normB.toLowerCase()
-                .normalize("NFD")
-                .replace(/[\u0300-\u036f]/g, "")
-                .replace(/[^a-z0-9]+/g, "")
-            ) : false;
-          }).length;
-          console.log("[SERP][immersive][brands-matched-count]", { promptId: p.id, matchedCount: brandMatchedCount });
-        } catch {}
-
-        // Immersive presence **by brand** (this drives the UI tick for immersive)
-        const immersive = analyzeImmersiveByBrand([...immersiveBrands], companyDomain, competitorDomains);
-
-        await set(child(profileRef, `results/${p.id}/google`), {
-          status: "done",
-          // legacy fields (organic-only) — UI shows ALL URLs
-          top10: gTop10,
-          hasCompany: organic.hasCompany,
-          competitorsHit: organic.competitorsHit,
-          // new, additive blocks
-          shopping: {
-            sellers: [...shoppingHosts],
-            hasCompany: shopping.hasCompany,
-            competitorsHit: shopping.competitorsHit,
-          },
-          immersive: {
-            // keep sellers for visibility (not used for matching)
-            sellers: [...immersiveHosts],
-            // store brands and brand-based matching result
-            brands: Array.from(immersiveBrands),
-            hasCompany: immersive.hasCompany,           // BRAND-BASED (brand in company domain)
-            competitorsHit: immersive.competitorsHit,   // BRAND-BASED (brand in competitor domain)
-          },
-          updatedAt: Date.now(),
-        });
-      } catch (e: any) {
-        await set(child(profileRef, `results/${p.id}/google`), {
-          status: "error",
-          error: String(e?.message ?? e),
-          updatedAt: Date.now(),
-        });
-      }
+  const total = Math.max(1, prompts.length * engines.length * samples);
+  const tick = async () => {
+    done += 1;
+    const pct = 72 + Math.round((done / total) * 25); // 72→97
+    await updateProfile(profileId, { progress: Math.min(97, pct), updatedAt: serverTimestamp() });
+  };
 
-      // BING (unchanged)
-      try {
-        const bTop10 = await serpTop10(p.text, "bing", region);
-        const b = analyzeTop10(bTop10, companyDomain, competitorDomains);
-        await set(child(profileRef, `results/${p.id}/bing`), {
-          status: "done",
-          top10: bTop10,
-          hasCompany: b.hasCompany,
-          competitorsHit: b.competitorsHit,
-          updatedAt: Date.now(),
-        });
-      } catch (e: any) {
-        await set(child(profileRef, `results/${p.id}/bing`), {
-          status: "error",
-          error: String(e?.message ?? e),
-          updatedAt: Date.now(),
-        });
+  // Run with small concurrency (engines + samples run sequentially within a prompt)
+  await asyncPool(
+    4,
+    prompts,
+    async (p) => {
+      for (const engine of engines) {
+        await checkEngine(profileId, engine, p.text, { ...base, promptId: p.id, signal }, samples, tick);
       }
-    } finally {
-      done += 1;
-      const pct = 72 + Math.round((done / total) * 25); // 72→97
-      await update(profileRef, { progress: Math.min(97, pct), updatedAt: serverTimestamp() });
-    }
-  });
+    },
+    signal
+  );
+
+  const checked = pairsOf(prompts.map((p) => ({ prompt: p, engines })));
+  if (signal?.aborted) {
+    await markLeftoverCancelled(profileId);
+    await recordRunSnapshot(profileId, startedAt, "cancelled", checked);
+    await markProfileCancelled(profileId);
+    throw new AuditCancelledError();
+  }
 
-  await update(profileRef, {
+  await recordRunSnapshot(profileId, startedAt, "done", checked);
+  await updateProfile(profileId, {
     progress: 100,
     status: "done",
     updatedAt: serverTimestamp(),
   });
 
-  return { total: prompts.length };
+  return { total: prompts.length, engines: engines.map((e) => e.id), samples };
 }
 
-/** Run SERP for a single prompt key "category:key" */
-export async function runSerpForPrompt(profileId: string, promptId: string) {
-  const profileRef = ref(db, `profiles/${profileId}`);
-  const snap = await get(profileRef);
-  if (!snap.exists()) throw new Error("Profile not found");
-
-  const profile = snap.val() as {
-    websiteUrl: string;
-    competitorUrls?: string[];
-    region?: SerpRegionKey;
-  };
-
-  const companyDomain = hostnameFromUrl(profile.websiteUrl);
-  const competitorDomains = (profile.competitorUrls || []).map(hostnameFromUrl);
-  const region: SerpRegionKey = profile.region || "sg";
+type PromptWork = { prompt: PromptItem; engines: EngineMeta[] };
 
-  // lookup prompt text
-  const [category, key] = promptId.split(":");
-  const promptSnap = await get(child(profileRef, `prompts/${category}/${key}`));
-  if (!promptSnap.exists()) throw new Error("Prompt not found");
-  const text = (promptSnap.val() as any)?.text as string;
-
-  // set checking status
-  await update(child(profileRef, `results/${promptId}`), {
-    google: { status: "checking" },
-    bing: { status: "checking" },
-  });
+function pairsOf(work: PromptWork[]): CheckedPair[] {
+  return work.flatMap((w) => w.engines.map((e) => ({ promptId: w.prompt.id, engine: e.id })));
+}
 
-  // GOOGLE (enhanced)
+/**
+ * Mark + run a set of prompt/engine pairs (4 prompts at a time); cancelled
+ * leftovers are marked. The run is snapshotted however it ends.
+ */
+async function runPromptWork(
+  profileId: string,
+  base: Omit<EngineContext, "promptId">,
+  work: PromptWork[],
+  samples: number,
+  signal?: AbortSignal,
+  tick?: () => Promise<void>
+) {
+  const startedAt = Date.now();
+  let status: "done" | "cancelled" | "error" = "error";
   try {
-    const gData = await serpSearchRaw(text, region);
-
-    const gTop10 = extractOrganicTop10(gData);
-    const organic = analyzeTop10(gTop10, companyDomain, competitorDomains);
-
-    // Log search URLs & matched count (unchanged logic)
-    try {
-      console.log("[SERP][search][urls]", gTop10);
-      const searchMatches = gTop10.filter((u) => {
-        const h = hostnameFromUrl(u);
-        return h === companyDomain || h.endsWith("." + companyDomain);
-      }).length;
-      console.log("[SERP][search][matched-count]", { promptId, matchedCount: searchMatches });
-    } catch {}
-
-    const shoppingHosts = extractShoppingSellerHosts(gData);
-    const shopping = analyzePresence([...shoppingHosts], companyDomain, competitorDomains);
-
-    const { hosts: immersiveHosts, brands: immersiveBrands } = await fetchImmersiveStoresAndBrands(gData, region);
-
-    // Log all brands & matched count (brand→domain)
-    try {
-      const brandsArr = Array.from(immersiveBrands);
-      console.log("[SERP][immersive][brands][prompt]", { promptId, brands: brandsArr });
-      const brandMatchedCount = brandsArr.filter((b) => {
-        const normB = b && b.trim();
-        return normB ? companyDomain.toLowerCase().includes(
-          normB.toLowerCase()
-            .normalize("NFD")
-            .replace(/[\u0300-\u036f]/g, "")
-            .replace(/[^a-z0-9]+/g, "")
-        ) : false;
-      }).length;
-      console.log("[SERP][immersive][brands-matched-count]", { promptId, matchedCount: brandMatchedCount });
-    } catch {}
-
-    const immersive = analyzeImmersiveByBrand([...immersiveBrands], companyDomain, competitorDomains);
-
-    await set(child(profileRef, `results/${promptId}/google`), {
-      status: "done",
-      top10: gTop10, // legacy (ALL URLs for search)
-      hasCompany: organic.hasCompany,
-      competitorsHit: organic.competitorsHit,
-      shopping: {
-        sellers: [...shoppingHosts],
-        hasCompany: shopping.hasCompany,
-        competitorsHit: shopping.competitorsHit,
-      },
-      immersive: {
-        sellers: [...immersiveHosts],             // informational
-        brands: Array.from(immersiveBrands),      // authoritative for matching (UI shows ALL brands)
-        hasCompany: immersive.hasCompany,         // BRAND-BASED
-        competitorsHit: immersive.competitorsHit, // BRAND-BASED
+    for (const w of work) await markChecking(profileId, w.prompt.id, w.engines);
+
+    await asyncPool(
+      4,
+      work,
+      async ({ prompt, engines }) => {
+        for (const engine of engines) {
+          await checkEngine(profileId, engine, prompt.text, { ...base, promptId: prompt.id, signal }, samples, tick);
+        }
       },
-      updatedAt: Date.now(),
-    });
-  } catch (e: any) {
-    await set(child(profileRef, `results/${promptId}/google`), {
-      status: "error",
-      error: String(e?.message ?? e),
-      updatedAt: Date.now(),
-    });
+      signal
+    );
+
+    if (signal?.aborted) {
+      status = "cancelled";
+      await markLeftoverCancelled(profileId);
+      throw new AuditCancelledError();
+    }
+    status = "done";
+  } finally {
+    if (work.length) await recordRunSnapshot(profileId, startedAt, status, pairsOf(work));
   }
+}
+
+/**
+ * Re-run only the engine/prompt pairs whose last result is an error.
+ * Leaves the profile status alone (the rest of the audit is untouched).
+ */
+export async function retryFailedSerpForProfile(profileId: string, signal?: AbortSignal) {
+  const { base, engines, samples } = await loadSerpSetup(profileId);
+  const prompts = await loadPrompts(profileId);
+  const results = await getResults(profileId);
+
+  const failed = prompts
+    .map((p) => ({ prompt: p, engines: engines.filter((e) => results[p.id]?.[e.id]?.status === "error") }))
+    .filter((x) => x.engines.length > 0);
+
+  await runPromptWork(profileId, base, failed, samples, signal);
+
+  return { retried: failed.reduce((n, f) => n + f.engines.length, 0), prompts: failed.length };
+}
+
+export type RerunFilter = {
+  category?: string;       // one prompt category
+  engines?: EngineId[];    // subset of the profile's enabled engines
+  text?: string;           // case-insensitive substring of the prompt text
+  olderThanDays?: number;  // only pairs last checked more than N days ago (or never)
+  promptIds?: string[];    // explicit "category:key" list
+  forceRefresh?: boolean;  // bypass the shared SERP cache for this rerun
+};
+
+/** Live progress of a targeted rerun: profiles/{id}/rerun (profile status is untouched). */
+export type RerunProgress = {
+  runId: string;
+  status: "running" | "done" | "cancelled" | "error";
+  total: number; // engine/prompt/sample runs in the subset
+  done: number;
+  prompts: number;
+  filter: RerunFilter;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+};
+
+/**
+ * Re-run the engine/prompt pairs matching filter. All given criteria must hold.
+ * Progress goes to profiles/{id}/rerun instead of the profile's status/progress.
+ */
+export async function rerunSerpSubset(
+  profileId: string,
+  filter: RerunFilter,
+  runId: string,
+  signal?: AbortSignal
+) {
+  const { base, engines: enabled, samples } = await loadSerpSetup(profileId);
+  const prompts = await loadPrompts(profileId);
+  const results = await getResults(profileId);
+
+  const engines = filter.engines?.length ? enabled.filter((e) => filter.engines!.includes(e.id)) : enabled;
+  const ids = filter.promptIds?.length ? new Set(filter.promptIds) : null;
+  const text = filter.text?.trim().toLowerCase();
+  const cutoff = filter.olderThanDays ? Date.now() - filter.olderThanDays * 24 * 60 * 60_000 : null;
+
+  const work: PromptWork[] = prompts
+    .filter((p) => !ids || ids.has(p.id))
+    .filter((p) => !filter.category || p.category === filter.category)
+    .filter((p) => !text || (p.text || "").toLowerCase().includes(text))
+    .map((p) => ({
+      prompt: p,
+      engines:
+        cutoff === null
+          ? engines
+          : engines.filter((e) => (results[p.id]?.[e.id]?.updatedAt || 0) < cutoff),
+    }))
+    .filter((w) => w.engines.length > 0);
+
+  const progressPath = `profiles/${profileId}/rerun`;
+  const progress: RerunProgress = {
+    runId,
+    status: "running",
+    total: work.reduce((n, w) => n + w.engines.length, 0) * samples,
+    done: 0,
+    prompts: work.length,
+    filter,
+    startedAt: Date.now(),
+  };
+  await getStore().set(progressPath, progress);
+
+  const tick = async () => {
+    progress.done += 1;
+    await getStore().update(progressPath, { done: progress.done });
+  };
 
-  // BING (unchanged)
   try {
-    const bTop10 = await serpTop10(text, "bing", region);
-    const b = analyzeTop10(bTop10, companyDomain, competitorDomains);
-    await set(child(profileRef, `results/${promptId}/bing`), {
-      status: "done",
-      top10: bTop10,
-      hasCompany: b.hasCompany,
-      competitorsHit: b.competitorsHit,
-      updatedAt: Date.now(),
-    });
-  } catch (e: any) {
-    await set(child(profileRef, `results/${promptId}/bing`), {
-      status: "error",
-      error: String(e?.message ?? e),
-      updatedAt: Date.now(),
+    const ctx = filter.forceRefresh ? { ...base, forceRefresh: true } : base;
+    await runPromptWork(profileId, ctx, work, samples, signal, tick);
+    await getStore().update(progressPath, { status: "done", finishedAt: Date.now() });
+  } catch (e) {
+    const cancelled = isCancelError(e);
+    await getStore().update(progressPath, {
+      status: cancelled ? "cancelled" : "error",
+      finishedAt: Date.now(),
+      ...(cancelled ? {} : { error: e instanceof Error ? e.message : String(e) }),
     });
+    throw e;
+  }
+
+  return { runId, prompts: work.length, pairs: progress.total / samples, samples };
+}
+
+/**
+ * Re-match every stored result against the profile's current company and
+ * competitor terms (after an edit) without querying the engines again.
+ * Per-sample evidence is re-judged from the stored sources.
+ */
+export async function rematchStoredResults(profileId: string) {
+  const { base } = await loadSerpSetup(profileId);
+  const results = await getResults(profileId);
+
+  const patch: Record<string, StoredEngineResult> = {};
+  let samplesKept = 0;
+  for (const [promptId, perEngine] of Object.entries(results)) {
+    for (const [engineId, stored] of Object.entries(perEngine || {})) {
+      const adapter = ADAPTERS[engineId as EngineId];
+      if (!adapter || !stored) continue;
+      const record = rematchStored(adapter, stored, { ...base, promptId });
+      if (!record) continue;
+
+      // Samples stored before their full sources were kept can't be re-judged:
+      // they (and the rates) keep the judgement made with the old terms
+      if (record.samples?.length && record.samples.every((s) => s.rematchable)) {
+        record.samples = record.samples.map((s) => {
+          const hit = analyzeTop10(s.sources || [], base.companyDomain, base.competitorDomains);
+          return { ...s, present: hit.hasCompany, competitorsHit: hit.competitorsHit };
+        });
+        const n = record.samples.length;
+        if (typeof record.presenceRate === "number") record.presenceRate = record.samples.filter((s) => s.present).length / n;
+        record.competitorRate = record.samples.filter((s) => s.competitorsHit.length > 0).length / n;
+      } else if (record.samples?.length) {
+        samplesKept += 1;
+      }
+      patch[`${promptId}/${engineId}`] = record;
+    }
+  }
+  await updateResults(profileId, patch);
+
+  return { rematched: Object.keys(patch).length, samplesKept };
+}
+
+/** Run SERP for a single prompt key "category:key" */
+export async function runSerpForPrompt(profileId: string, promptId: string) {
+  const startedAt = Date.now();
+  const { base, engines, samples } = await loadSerpSetup(profileId);
+
+  // lookup prompt text
+  const prompt = await getPrompt(profileId, promptId);
+  if (!prompt) throw new Error("Prompt not found");
+  const text = prompt.text;
+
+  await markChecking(profileId, promptId, engines);
+
+  for (const engine of engines) {
+    await checkEngine(profileId, engine, text, { ...base, promptId }, samples);
   }
+  await recordRunSnapshot(profileId, startedAt, "done", engines.map((e) => ({ promptId, engine: e.id })));
 
   return { promptId };
 }
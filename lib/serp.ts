@@ -1,4 +1,6 @@
 // lib/serp.ts
+import { HttpError, withRetry } from "./retry";
+import { acquire } from "./rate-limit";
 
 const BASE = "https://serpapi.com/search.json";
 
@@ -9,11 +11,36 @@ export const REGION: Record<SerpRegionKey, { location: string; hl: string; gl: s
   us: { location: "United States", hl: "en", gl: "us", google_domain: "google.com"    },
 };
 
+// Optional response cache for SerpAPI calls. The server passes one in
+// (lib/serp-cache.ts); without it every call goes to SerpAPI.
+export type SerpCacheKey = { engine: string; query: string; region: SerpRegionKey; device: string };
+export type SerpCache = {
+  get(key: SerpCacheKey): Promise<unknown>; // SerpAPI JSON, or undefined on miss
+  put(key: SerpCacheKey, data: unknown): Promise<void>;
+};
+const DEVICE = "desktop"; // SerpAPI default; part of the cache key
+
 // Accept either SERP_API_KEY or SERPAPI_KEY
 function getKey() {
   return process.env.SERP_API_KEY || process.env.SERPAPI_KEY;
 }
 
+/** One SerpAPI GET (rate-limited), retried on transient failures; non-2xx throws HttpError. */
+function serpGet<T>(url: string, what: string, signal?: AbortSignal): Promise<T> {
+  return withRetry(
+    async () => {
+      await acquire("serpapi", signal);
+      const res = await fetch(url, { method: "GET", signal });
+      if (!res.ok) {
+        const t = await res.text().catch(() => "");
+        throw new HttpError(`SerpAPI ${what} failed: ${res.status} ${t}`, res.status);
+      }
+      return res.json() as Promise<T>;
+    },
+    { signal, label: `serp:${what}` }
+  );
+}
+
 export function hostnameFromUrl(u: string): string {
   try {
     const h = new URL(u).hostname.toLowerCase();
@@ -45,7 +72,8 @@ function matchesDomain(host: string, domain: string) {
 export async function serpTop10(
   query: string,
   engine?: "bing",
-  region: SerpRegionKey = "sg" // optional region, defaults to SG
+  region: SerpRegionKey = "sg", // optional region, defaults to SG
+  signal?: AbortSignal
 ): Promise<string[]> {
   const apiKey = getKey();
   if (!apiKey) throw new Error("Missing SERP_API_KEY (or SERPAPI_KEY)");
@@ -62,12 +90,7 @@ export async function serpTop10(
   });
   if (engine) params.set("engine", engine);
 
-  const res = await fetch(`${BASE}?${params.toString()}`, { method: "GET" });
-  if (!res.ok) {
-    const t = await res.text().catch(() => "");
-    throw new Error(`SerpAPI ${engine ?? "google"} failed: ${res.status} ${t}`);
-  }
-  const data = await res.json();
+  const data = await serpGet<SerpSearchJson>(`${BASE}?${params.toString()}`, engine ?? "google", signal);
   const organic = Array.isArray(data?.organic_results) ? data.organic_results : [];
   const links = organic
     .map((r: any) => r?.link)
@@ -100,15 +123,30 @@ export function analyzeTop10(
 // E-comm aware helpers (additive)
 // =====================================
 
+/** Google Search JSON (engine=google). Only the blocks read here are named; the rest passes through. */
+export type SerpSearchJson = {
+  organic_results?: unknown;
+  shopping_results?: unknown;
+  immersive_products?: unknown;
+  ai_overview?: unknown;
+  [key: string]: unknown;
+};
+
 /** Get the full Google Search JSON (engine=google). */
 export async function serpSearchRaw(
   query: string,
-  region: SerpRegionKey = "sg"
-): Promise<any> {
+  region: SerpRegionKey = "sg",
+  signal?: AbortSignal,
+  cache?: SerpCache
+): Promise<SerpSearchJson> {
   const apiKey = getKey();
   if (!apiKey) throw new Error("Missing SERP_API_KEY (or SERPAPI_KEY)");
   const r = REGION[region] || REGION.sg;
 
+  const cacheKey: SerpCacheKey = { engine: "google", query, region, device: DEVICE };
+  const cached = await cache?.get(cacheKey);
+  if (cached !== undefined) return cached as SerpSearchJson;
+
   const params = new URLSearchParams({
     q: query,
     location: r.location,
@@ -118,12 +156,8 @@ export async function serpSearchRaw(
     api_key: apiKey,
   });
 
-  const res = await fetch(`${BASE}?${params.toString()}`, { method: "GET" });
-  if (!res.ok) {
-    const t = await res.text().catch(() => "");
-    throw new Error(`SerpAPI google failed: ${res.status} ${t}`);
-  }
-  const json = await res.json();
+  const json = await serpGet<SerpSearchJson>(`${BASE}?${params.toString()}`, "google", signal);
+  await cache?.put(cacheKey, json);
   return json;
 }
 
@@ -202,9 +236,17 @@ export function urlHostnameContainsBrand(url: string, brand: string): boolean {
  * Correct method: start from the **Google Search API** response (results[:immersive_products]),
  * then follow each item's serpapi link or page_token with engine=google_immersive_product.
  */
+// engine=google_immersive_product payload (fields are checked before use)
+type SerpImmersiveJson = {
+  product_results?: { brand?: unknown; stores?: unknown; more_options?: unknown; variants?: unknown };
+  [key: string]: unknown;
+};
+
 export async function fetchImmersiveStoresAndBrands(
   data: any,
-  region: SerpRegionKey = "sg"
+  region: SerpRegionKey = "sg",
+  signal?: AbortSignal,
+  cache?: SerpCache
 ): Promise<{ hosts: Set<string>; brands: Set<string> }> {
   const apiKey = getKey();
   if (!apiKey) throw new Error("Missing SERP_API_KEY (or SERPAPI_KEY)");
@@ -215,10 +257,13 @@ export async function fetchImmersiveStoresAndBrands(
   const brands = new Set<string>();
 
   for (let idx = 0; idx < items.length; idx++) {
+    // Cancelled audit: stop following the remaining products
+    if (signal?.aborted) throw signal.reason ?? new Error("Aborted");
     const item = items[idx];
 
     // Build follow URL (prefer serpapi_immersive_product_api or serpapi_link; else page_token)
     let followUrl: string | null = null;
+    let followId: string | null = null; // stable identity of the product (cache key)
     const direct =
       (typeof item?.serpapi_immersive_product_api === "string" && item.serpapi_immersive_product_api) ||
       (typeof item?.serpapi_link === "string" && item.serpapi_link) ||
@@ -230,6 +275,8 @@ export async function fetchImmersiveStoresAndBrands(
       if (!u.searchParams.get("hl")) u.searchParams.set("hl", r.hl);
       if (!u.searchParams.get("gl")) u.searchParams.set("gl", r.gl);
       followUrl = u.toString();
+      u.searchParams.delete("api_key");
+      followId = u.toString();
     } else if (typeof item?.immersive_product_page_token === "string") {
       const params = new URLSearchParams({
         engine: "google_immersive_product",
@@ -239,28 +286,23 @@ export async function fetchImmersiveStoresAndBrands(
         gl: r.gl,
       });
       followUrl = `${BASE}?${params.toString()}`;
+      followId = item.immersive_product_page_token;
     }
 
-    if (!followUrl) continue;
+    if (!followUrl || !followId) continue;
 
-    // Log every immersive serpapi URL we call
-    try {
-      console.log("[SERP][immersive][follow-url]", { index: idx, url: followUrl });
-    } catch {}
-
-    const resp = await fetch(followUrl, { method: "GET" });
-    if (!resp.ok) {
+    const cacheKey: SerpCacheKey = { engine: "google_immersive_product", query: followId, region, device: DEVICE };
+    let imm = (await cache?.get(cacheKey)) as SerpImmersiveJson | undefined;
+    if (imm === undefined) {
       try {
-        console.log("[SERP][immersive][detail-nonok]", { index: idx, status: resp.status });
-      } catch {}
-      continue;
+        imm = await serpGet<SerpImmersiveJson>(followUrl, "google_immersive_product", signal);
+      } catch (e) {
+        // A product we could not follow (after retries) is skipped; network errors still fail the pair
+        if (!(e instanceof HttpError)) throw e;
+        continue;
+      }
+      await cache?.put(cacheKey, imm);
     }
-    const imm = await resp.json();
-
-    // Log the response payload root for this follow
-    try {
-      console.log("[SERP][immersive][follow-response]", { index: idx, url: followUrl, json: imm });
-    } catch {}
 
     // Collect brand (authoritative)
     const brand = imm?.product_results?.brand;
@@ -297,15 +339,113 @@ export async function fetchImmersiveStoresAndBrands(
     }
   }
 
-  // Log ALL immersive hosts and ALL brands we collected for this query
-  try {
-    console.log("[SERP][immersive][hosts]", Array.from(hosts));
-    console.log("[SERP][immersive][brands]", Array.from(brands));
-  } catch {}
-
   return { hosts, brands };
 }
 
+// =====================================
+// Google AI Overview
+// =====================================
+
+export type AIOverviewReference = { title: string; link: string; source: string };
+export type AIOverview = {
+  present: boolean;                 // Google showed an AI Overview for this query
+  textBlocks: string[];             // flattened paragraph/list/heading snippets, in display order
+  references: AIOverviewReference[]; // cited links, ordered by reference index
+};
+
+function emptyAIO(): AIOverview {
+  return { present: false, textBlocks: [], references: [] };
+}
+
+/** Flatten SerpAPI text_blocks (paragraph, heading, list, nested lists…) into plain strings. */
+// SerpAPI ai_overview payload (fields are checked before use)
+type SerpAIOTextBlock = { title?: unknown; snippet?: unknown; list?: unknown; text_blocks?: unknown };
+type SerpAIOReference = { title?: unknown; link?: unknown; source?: unknown; index?: unknown };
+type SerpAIOBlock = { text_blocks?: unknown; references?: unknown; page_token?: unknown };
+
+const asObject = <T>(v: unknown): T | null => (v && typeof v === "object" && !Array.isArray(v) ? (v as T) : null);
+
+function collectAIOText(blocks: unknown[], out: string[]) {
+  for (const item of blocks) {
+    const b = asObject<SerpAIOTextBlock>(item);
+    if (!b) continue;
+    const title = typeof b.title === "string" ? b.title.trim() : "";
+    const snippet = typeof b.snippet === "string" ? b.snippet.trim() : "";
+    const line = title && snippet ? `${title}: ${snippet}` : title || snippet;
+    if (line) out.push(line);
+    if (Array.isArray(b.list)) collectAIOText(b.list, out);
+    if (Array.isArray(b.text_blocks)) collectAIOText(b.text_blocks, out);
+  }
+}
+
+/** Parse an ai_overview block (inline on search.json or from engine=google_ai_overview). */
+export function extractAIOverview(value: unknown): AIOverview {
+  const block = asObject<SerpAIOBlock>(value);
+  const blocks = Array.isArray(block?.text_blocks) ? block.text_blocks : [];
+  if (!blocks.length) return emptyAIO();
+
+  const textBlocks: string[] = [];
+  collectAIOText(blocks, textBlocks);
+
+  const refs = (Array.isArray(block?.references) ? block.references : [])
+    .map((r) => asObject<SerpAIOReference>(r))
+    .filter((r): r is SerpAIOReference => r !== null);
+  refs.sort((a, b) => Number(a.index ?? 0) - Number(b.index ?? 0));
+
+  const seen = new Set<string>();
+  const references: AIOverviewReference[] = [];
+  for (const r of refs) {
+    if (typeof r.link !== "string" || seen.has(r.link)) continue;
+    seen.add(r.link);
+    references.push({
+      title: typeof r.title === "string" ? r.title : "",
+      link: r.link,
+      source: typeof r.source === "string" ? r.source : "",
+    });
+  }
+
+  return { present: true, textBlocks, references };
+}
+
+/**
+ * Read the AI Overview from the main SERP JSON. Google often defers it: the
+ * payload then only carries ai_overview.page_token, which we follow with
+ * engine=google_ai_overview (the token expires quickly, so do this right away).
+ */
+export async function fetchAIOverview(
+  data: SerpSearchJson,
+  region: SerpRegionKey = "sg",
+  signal?: AbortSignal,
+  cache?: SerpCache
+): Promise<AIOverview> {
+  const block = asObject<SerpAIOBlock>(data?.ai_overview);
+  if (!block) return emptyAIO();
+  if (Array.isArray(block.text_blocks)) return extractAIOverview(block);
+  if (typeof block.page_token !== "string") return emptyAIO();
+
+  const apiKey = getKey();
+  if (!apiKey) throw new Error("Missing SERP_API_KEY (or SERPAPI_KEY)");
+  const r = REGION[region] || REGION.sg;
+
+  // A cached SERP carries an old (expired) token, so the follow-up is cached with it
+  const cacheKey: SerpCacheKey = { engine: "google_ai_overview", query: block.page_token, region, device: DEVICE };
+  const cached = await cache?.get(cacheKey);
+  if (cached !== undefined) return extractAIOverview(asObject<SerpSearchJson>(cached)?.ai_overview);
+
+  const params = new URLSearchParams({
+    engine: "google_ai_overview",
+    page_token: block.page_token,
+    api_key: apiKey,
+    hl: r.hl,
+    gl: r.gl,
+  });
+
+  // An AIO we could not read is not "no AIO": a failure (after retries) marks the pair as an error
+  const json = await serpGet<SerpSearchJson>(`${BASE}?${params.toString()}`, "google_ai_overview", signal);
+  await cache?.put(cacheKey, json);
+  return extractAIOverview(json.ai_overview);
+}
+
 /** brand-set → hasCompany / competitorsHit for immersive only (brand→domain contains). */
 export function analyzeImmersiveByBrand(
   brands: string[],
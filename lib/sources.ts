@@ -0,0 +1,82 @@
+// lib/sources.ts
+// Third-party citation sources: which hosts AI answers rely on, by type.
+// Client-safe (no server imports) — the dashboard uses the labels.
+
+import type { StoredEngineResult } from "./engines";
+
+export type SourceType =
+  | "forum"
+  | "ugc_video"
+  | "review"
+  | "publisher"
+  | "marketplace"
+  | "directory"
+  | "other";
+
+export const SOURCE_TYPE_LABEL: Record<SourceType, string> = {
+  forum: "Forum",
+  ugc_video: "UGC video",
+  review: "Review platform",
+  publisher: "Publisher",
+  marketplace: "Marketplace",
+  directory: "Directory",
+  other: "Other",
+};
+
+// Known hosts (registrable domain, matched on suffix)
+const KNOWN: Record<Exclude<SourceType, "other">, string[]> = {
+  forum: [
+    "reddit.com", "quora.com", "stackexchange.com", "stackoverflow.com", "news.ycombinator.com",
+    "hardwarezone.com.sg", "discord.com", "producthunt.com",
+  ],
+  ugc_video: ["youtube.com", "youtu.be", "tiktok.com", "vimeo.com", "instagram.com", "twitch.tv"],
+  review: [
+    "g2.com", "capterra.com", "trustpilot.com", "trustradius.com", "getapp.com", "softwareadvice.com",
+    "yelp.com", "tripadvisor.com", "gartner.com", "consumerreports.org", "productreview.com.au",
+  ],
+  publisher: [
+    "wikipedia.org", "medium.com", "forbes.com", "nytimes.com", "techcrunch.com", "theverge.com",
+    "businessinsider.com", "cnbc.com", "bbc.com", "bbc.co.uk", "straitstimes.com", "cnet.com",
+    "zdnet.com", "wired.com", "investopedia.com", "substack.com",
+  ],
+  marketplace: [
+    "amazon.com", "amazon.sg", "ebay.com", "etsy.com", "walmart.com", "shopee.sg", "lazada.sg",
+    "aliexpress.com", "alibaba.com", "carousell.sg", "qoo10.sg", "bestbuy.com", "target.com",
+  ],
+  directory: [
+    "yellowpages.com", "crunchbase.com", "clutch.co", "linkedin.com", "glassdoor.com",
+    "bbb.org", "goodfirms.co", "apps.apple.com", "play.google.com", "github.com",
+  ],
+};
+
+// Fallback hints in the host itself
+const HINTS: Array<[RegExp, SourceType]> = [
+  [/(^|\.)(forum|forums|community|discuss|answers)\./, "forum"],
+  [/(review|reviews|compare|versus)/, "review"],
+  [/(^|\.)(news|blog|magazine|journal|times|post|media)\b/, "publisher"],
+  [/(^|\.)(shop|store)\.|marketplace/, "marketplace"],
+  [/(directory|listings|yellow)/, "directory"],
+];
+
+function matchesHost(host: string, domain: string): boolean {
+  return host === domain || host.endsWith("." + domain);
+}
+
+/** Classify a cited host (already normalized with hostnameFromUrl). */
+export function classifySource(host: string): SourceType {
+  for (const type of Object.keys(KNOWN) as Array<keyof typeof KNOWN>) {
+    if (KNOWN[type].some((entry) => matchesHost(host, entry))) return type;
+  }
+  for (const [re, type] of HINTS) if (re.test(host)) return type;
+  return "other";
+}
+
+/** Every URL an engine result cites or lists (answer citations, AIO references, organic top 10). */
+export function resultSourceUrls(r?: StoredEngineResult | null): string[] {
+  if (!r) return [];
+  return [
+    ...(r.citations || []),
+    ...(r.aiOverview?.references || []).map((x) => x.link),
+    ...(r.top10 || []),
+  ].filter((u): u is string => typeof u === "string" && !!u);
+}
@@ -0,0 +1,47 @@
+// lib/store-firebase.ts
+// Realtime Database implementation of the store (lib/store.ts).
+import {
+  ref,
+  get,
+  set,
+  update,
+  push,
+  remove,
+  runTransaction,
+  onValue,
+  query,
+  orderByChild,
+  equalTo,
+} from "firebase/database";
+import { firebaseDb } from "./firebase";
+import type { StoreBackend } from "./store";
+
+export function createFirebaseStore(): StoreBackend {
+  const at = (path: string) => ref(firebaseDb(), path);
+
+  return {
+    name: "firebase",
+    async get(path) {
+      return (await get(at(path))).val() ?? null;
+    },
+    set: (path, value) => set(at(path), value),
+    update: (path, patch) => update(at(path), patch),
+    newKey: (path) => push(at(path)).key!,
+    async push(path, value) {
+      const node = push(at(path));
+      await set(node, value);
+      return node.key!;
+    },
+    remove: (path) => remove(at(path)),
+    async transaction(path, fn) {
+      const res = await runTransaction(at(path), (cur) => fn(cur));
+      return { committed: res.committed, value: res.snapshot.val() ?? null };
+    },
+    async findByChild(path, key, value) {
+      return (await get(query(at(path), orderByChild(key), equalTo(value)))).val() || {};
+    },
+    subscribe(path, cb) {
+      return onValue(at(path), (snap) => cb(snap.val() ?? null));
+    },
+  };
+}
@@ -0,0 +1,213 @@
+// lib/store-local.ts
+// File-backed store (lib/store.ts) for offline development and self-hosting.
+// The whole tree is held in memory and written to one JSON file (temp file +
+// rename) shortly after each change. One server process per file: transactions
+// are atomic because they run synchronously.
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import path from "path";
+import type { StoreBackend } from "./store";
+
+type Node = Record<string, unknown>;
+type Listener = { segs: string[]; cb: (value: unknown) => void };
+
+const FLUSH_MS = 200;
+
+function segments(p: string): string[] {
+  return p.split("/").filter(Boolean);
+}
+
+function isObject(v: unknown): v is Node {
+  return typeof v === "object" && v !== null;
+}
+
+function isServerTimestamp(v: Node) {
+  return Object.keys(v).length === 1 && v[".sv"] === "timestamp";
+}
+
+/**
+ * Copy a value for storage: server timestamps resolved, nulls dropped, empty
+ * objects pruned. undefined is rejected, like the Realtime Database does.
+ */
+function normalize(value: unknown, where: string): unknown {
+  if (value === undefined) throw new Error(`store: undefined value at ${where}`);
+  if (value === null || !isObject(value)) return value;
+  if (isServerTimestamp(value)) return Date.now();
+  if (Array.isArray(value)) return value.map((v, i) => (v === null ? null : normalize(v, `${where}/${i}`)));
+  const out: Node = {};
+  for (const [k, v] of Object.entries(value)) {
+    if (v === null) continue;
+    const n = normalize(v, `${where}/${k}`);
+    if (n !== null && !(isObject(n) && !Object.keys(n).length)) out[k] = n;
+  }
+  return Object.keys(out).length ? out : null;
+}
+
+function clone<T>(v: T): T {
+  return v === undefined ? v : structuredClone(v);
+}
+
+// Time-ordered keys: 9 chars of ms + 3 of sequence + random suffix
+let lastMs = 0;
+let seq = 0;
+function pushKey() {
+  const now = Date.now();
+  seq = now === lastMs ? seq + 1 : 0;
+  lastMs = now;
+  return now.toString(36).padStart(9, "0") + seq.toString(36).padStart(3, "0") + Math.random().toString(36).slice(2, 8);
+}
+
+class LocalStore implements StoreBackend {
+  readonly name = "local" as const;
+  private root: Node;
+  private listeners = new Set<Listener>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private file: string) {
+    this.root = existsSync(file) ? (JSON.parse(readFileSync(file, "utf8") || "{}") as Node) : {};
+  }
+
+  private read(segs: string[]): unknown {
+    let cur: unknown = this.root;
+    for (const s of segs) {
+      if (!isObject(cur)) return null;
+      cur = cur[s];
+    }
+    return cur ?? null;
+  }
+
+  /** Write (or delete, for null) at segs and prune parents left empty. */
+  private write(segs: string[], value: unknown) {
+    const v = normalize(value, segs.join("/"));
+    if (!segs.length) {
+      this.root = isObject(v) ? v : {};
+      return;
+    }
+    const chain: Node[] = [this.root];
+    let cur = this.root;
+    for (const s of segs.slice(0, -1)) {
+      if (!isObject(cur[s])) {
+        if (v === null) return; // nothing to delete
+        cur[s] = {};
+      }
+      cur = cur[s] as Node;
+      chain.push(cur);
+    }
+    const leaf = segs[segs.length - 1];
+    if (v === null) delete cur[leaf];
+    else cur[leaf] = v;
+    for (let i = chain.length - 1; i > 0; i--) {
+      if (Object.keys(chain[i]).length) break;
+      delete chain[i - 1][segs[i - 1]];
+    }
+  }
+
+  private changed(paths: string[][]) {
+    this.scheduleFlush();
+    for (const l of this.listeners) {
+      const related = paths.some((p) => {
+        const n = Math.min(p.length, l.segs.length);
+        return p.slice(0, n).join("/") === l.segs.slice(0, n).join("/");
+      });
+      if (related) this.emit(l);
+    }
+  }
+
+  private emit(l: Listener) {
+    const value = clone(this.read(l.segs));
+    queueMicrotask(() => {
+      if (this.listeners.has(l)) l.cb(value);
+    });
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      try {
+        mkdirSync(path.dirname(this.file), { recursive: true });
+        const tmp = `${this.file}.tmp`;
+        writeFileSync(tmp, JSON.stringify(this.root));
+        renameSync(tmp, this.file);
+      } catch (e) {
+        console.error("[STORE][local][flush-error]", String(e));
+      }
+    }, FLUSH_MS);
+  }
+
+  async get<T>(p: string) {
+    return clone(this.read(segments(p))) as T | null;
+  }
+
+  async set(p: string, value: unknown) {
+    const segs = segments(p);
+    this.write(segs, value);
+    this.changed([segs]);
+  }
+
+  async update(p: string, patch: Record<string, unknown>) {
+    const base = segments(p);
+    const touched: string[][] = [];
+    // Validate the whole patch first so a bad value writes nothing
+    for (const [k, v] of Object.entries(patch)) normalize(v, [...base, k].join("/"));
+    for (const [k, v] of Object.entries(patch)) {
+      const segs = [...base, ...segments(k)];
+      this.write(segs, v);
+      touched.push(segs);
+    }
+    this.changed(touched);
+  }
+
+  newKey() {
+    return pushKey();
+  }
+
+  async push(p: string, value: unknown) {
+    const key = pushKey();
+    await this.set(`${p}/${key}`, value);
+    return key;
+  }
+
+  async remove(p: string) {
+    await this.set(p, null);
+  }
+
+  async transaction<T>(p: string, fn: (current: T | null) => T | null | undefined) {
+    const segs = segments(p);
+    const next = fn(clone(this.read(segs)) as T | null);
+    if (next === undefined) return { committed: false, value: clone(this.read(segs)) as T | null };
+    this.write(segs, next);
+    this.changed([segs]);
+    return { committed: true, value: clone(this.read(segs)) as T | null };
+  }
+
+  async findByChild<T>(p: string, key: string, value: string | number | boolean) {
+    const node = this.read(segments(p));
+    const out: Record<string, T> = {};
+    if (!isObject(node)) return out;
+    for (const [k, v] of Object.entries(node)) {
+      if (isObject(v) && v[key] === value) out[k] = clone(v) as T;
+    }
+    return out;
+  }
+
+  subscribe<T>(p: string, cb: (value: T | null) => void) {
+    const l: Listener = { segs: segments(p), cb: cb as (value: unknown) => void };
+    this.listeners.add(l);
+    this.emit(l);
+    return () => {
+      this.listeners.delete(l);
+    };
+  }
+}
+
+// Route bundles can load this module more than once; keep one store per file
+const instances = ((globalThis as { __localStores?: Map<string, LocalStore> }).__localStores ??= new Map());
+
+export function createLocalStore(file: string): StoreBackend {
+  let s = instances.get(file);
+  if (!s) {
+    s = new LocalStore(file);
+    instances.set(file, s);
+  }
+  return s;
+}
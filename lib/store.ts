@@ -0,0 +1,105 @@
+// lib/store.ts
+// Storage backend behind the repository (lib/repository.ts) and the pipeline
+// bookkeeping (jobs, run locks, run log, SERP cache). Semantics follow the
+// Realtime Database: "/"-separated paths, null means absent, update() takes
+// multi-path patches, and empty objects disappear.
+//
+// NEXT_PUBLIC_STORAGE_BACKEND=firebase (default) | local. The local backend
+// keeps the whole tree in one JSON file (LOCAL_STORE_PATH, default
+// .data/store.json), so audits run without a Firebase project. The browser
+// reads the same setting (see lib/client-store.ts).
+//
+// Writes are checked against the record schemas (lib/schema.ts) before they
+// reach the backend; an invalid record throws SchemaError and nothing is written.
+import path from "path";
+import { createFirebaseStore } from "./store-firebase";
+import { createLocalStore } from "./store-local";
+import { prepareWrite } from "./schema";
+
+export type StorageBackendName = "firebase" | "local";
+
+export type TransactionResult<T> = { committed: boolean; value: T | null };
+
+export interface StoreBackend {
+  readonly name: StorageBackendName;
+  get<T = unknown>(path: string): Promise<T | null>;
+  set(path: string, value: unknown): Promise<void>;
+  /** Patch children of path; keys may be nested paths ("a/b"). */
+  update(path: string, patch: Record<string, unknown>): Promise<void>;
+  /** New child key under path, ordered after every earlier key (like RTDB push IDs). */
+  newKey(path: string): string;
+  push(path: string, value: unknown): Promise<string>;
+  remove(path: string): Promise<void>;
+  /** Atomic read-modify-write; fn returning undefined aborts. */
+  transaction<T>(path: string, fn: (current: T | null) => T | null | undefined): Promise<TransactionResult<T>>;
+  /** Children of path whose `key` child equals value (orderByChild + equalTo). */
+  findByChild<T>(path: string, key: string, value: string | number | boolean): Promise<Record<string, T>>;
+  /** Current value now and after every change; returns the unsubscribe function. */
+  subscribe<T>(path: string, cb: (value: T | null) => void): () => void;
+}
+
+/** Write-time timestamp, resolved by the backend (same marker as RTDB serverTimestamp()). */
+export function serverTimestamp(): object {
+  return { ".sv": "timestamp" };
+}
+
+export function storageBackendName(): StorageBackendName {
+  return process.env.NEXT_PUBLIC_STORAGE_BACKEND === "local" ? "local" : "firebase";
+}
+
+/** Backend with every write (set/update/push/remove/transaction) validated (and stamped) by prepareWrite. */
+function withSchemas(backend: StoreBackend): StoreBackend {
+  const joined = (base: string, key: string) => `${base.replace(/\/+$/, "")}/${key}`;
+  return {
+    name: backend.name,
+    set: (p, value) => backend.set(p, prepareWrite(p, value)),
+    update(p, patch) {
+      const checked = Object.fromEntries(Object.entries(patch).map(([k, v]) => [k, prepareWrite(joined(p, k), v)]));
+      return backend.update(p, checked);
+    },
+    async push(p, value) {
+      const key = backend.newKey(p);
+      await backend.set(joined(p, key), prepareWrite(joined(p, key), value));
+      return key;
+    },
+    // bound: the local backend is a class instance
+    get: (p) => backend.get(p),
+    newKey: (p) => backend.newKey(p),
+    remove(p) {
+      prepareWrite(p, null); // required fields can't be removed on their own
+      return backend.remove(p);
+    },
+    async transaction<T>(p: string, fn: (current: T | null) => T | null | undefined) {
+      // The update function may run several times; only its last result counts
+      let invalid: unknown;
+      const res = await backend.transaction<T>(p, (cur) => {
+        invalid = undefined;
+        const next = fn(cur);
+        if (next === undefined) return next; // abort
+        try {
+          return prepareWrite(p, next) as T | null;
+        } catch (e) {
+          invalid = e;
+          return undefined;
+        }
+      });
+      if (invalid) throw invalid;
+      return res;
+    },
+    findByChild: (p, key, value) => backend.findByChild(p, key, value),
+    subscribe: (p, cb) => backend.subscribe(p, cb),
+  };
+}
+
+let store: StoreBackend | null = null;
+
+export function getStore(): StoreBackend {
+  if (!store) {
+    store = withSchemas(
+      storageBackendName() === "local"
+        ? createLocalStore(process.env.LOCAL_STORE_PATH || path.join(process.cwd(), ".data", "store.json"))
+        : createFirebaseStore()
+    );
+  }
+  return store;
+}
@@ -0,0 +1,237 @@
+// lib/trash.ts
+// Soft deletion for profiles and prompts. Deleting marks the record with
+// deletedAt/deletedBy and leaves its data (results, reports, history) where it
+// is; listings and report computations skip marked records (see listPrompts).
+// Restoring clears the mark. Marked records are purged for good once they are
+// older than the retention period (TRASH_RETENTION_DAYS, default 30).
+// Marks are also kept in a small index, trash/{profileId} = { deletedAt?,
+// prompts?: { promptId: deletedAt } }, so the purge sweep doesn't read every
+// profile; the mark on the record stays authoritative.
+import { getStore } from "./store";
+import { deleteHistory, getProfile, splitPromptId, updateProfile } from "./repository";
+import { clearCancel } from "./cancel";
+import { PROMPT_CATEGORIES } from "./pipeline";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const SWEEP_EVERY_MS = 60 * 60_000;
+
+export function trashRetentionMs(): number {
+  const d = Number(process.env.TRASH_RETENTION_DAYS);
+  return (Number.isFinite(d) && d > 0 ? d : DEFAULT_RETENTION_DAYS) * 24 * 60 * 60_000;
+}
+
+export type TrashedProfile = {
+  profileId: string;
+  companyName: string;
+  websiteUrl: string;
+  deletedAt: number;
+  deletedBy: string;
+  purgeAt: number;
+};
+
+export type TrashedPrompt = {
+  profileId: string;
+  companyName: string;
+  promptId: string;
+  text: string;
+  deletedAt: number;
+  deletedBy: string;
+  purgeAt: number;
+};
+
+export type TrashList = { retentionDays: number; profiles: TrashedProfile[]; prompts: TrashedPrompt[] };
+
+type Marked = { deletedAt?: number; deletedBy?: string };
+export type ProfileNode = Marked & {
+  owner?: string;
+  companyName?: string;
+  websiteUrl?: string;
+  prompts?: Record<string, Record<string, Marked & { text?: string }>>;
+};
+
+/** Stored at trash/{profileId}. */
+export type TrashIndexEntry = { deletedAt?: number; prompts?: Record<string, number> };
+
+const indexPath = (profileId: string) => `trash/${profileId}`;
+
+const promptPath = (profileId: string, promptId: string) => {
+  const [category, key] = splitPromptId(promptId);
+  return `profiles/${profileId}/prompts/${category}/${key}`;
+};
+
+async function requirePrompt(profileId: string, promptId: string) {
+  const prompt = await getStore().get<Marked>(promptPath(profileId, promptId));
+  if (!prompt) throw new Error("Prompt not found");
+  return prompt;
+}
+
+// ───────────────── Trash / restore ─────────────────
+
+export async function trashProfile(profileId: string, by: string) {
+  if (!(await getProfile(profileId))) throw new Error("Profile not found");
+  const deletedAt = Date.now();
+  await updateProfile(profileId, { deletedAt, deletedBy: by });
+  await getStore().set(`${indexPath(profileId)}/deletedAt`, deletedAt);
+}
+
+export async function restoreProfile(profileId: string) {
+  if (!(await getProfile(profileId))) throw new Error("Profile not found");
+  await clearCancel(profileId); // a run stopped by the delete shouldn't block the next one
+  await updateProfile(profileId, { deletedAt: null, deletedBy: null });
+  await getStore().remove(`${indexPath(profileId)}/deletedAt`);
+}
+
+export async function trashPrompt(profileId: string, promptId: string, by: string) {
+  await requirePrompt(profileId, promptId);
+  const deletedAt = Date.now();
+  await getStore().update(promptPath(profileId, promptId), { deletedAt, deletedBy: by });
+  await getStore().set(`${indexPath(profileId)}/prompts/${promptId}`, deletedAt);
+}
+
+export async function restorePrompt(profileId: string, promptId: string) {
+  await requirePrompt(profileId, promptId);
+  await getStore().update(promptPath(profileId, promptId), { deletedAt: null, deletedBy: null });
+  await getStore().remove(`${indexPath(profileId)}/prompts/${promptId}`);
+}
+
+// ───────────────── Purge ─────────────────
+
+/** Delete a trashed profile for good (every prompt, result, report and run). */
+export async function purgeProfile(profileId: string) {
+  const profile = (await getProfile(profileId)) as Marked | null;
+  if (!profile) throw new Error("Profile not found");
+  if (!profile.deletedAt) throw new Error("Profile is not in the trash");
+  await getStore().remove(`profiles/${profileId}`);
+  await deleteHistory(profileId);
+  await getStore().remove(indexPath(profileId));
+}
+
+/** Delete a trashed prompt for good, with its results and prompt report. */
+export async function purgePrompt(profileId: string, promptId: string) {
+  const prompt = await requirePrompt(profileId, promptId);
+  if (!prompt.deletedAt) throw new Error("Prompt is not in the trash");
+  const [category, key] = splitPromptId(promptId);
+  await getStore().update(`profiles/${profileId}`, {
+    [`prompts/${category}/${key}`]: null,
+    [`results/${promptId}`]: null,
+    [`reports/${promptId}`]: null,
+  });
+  await getStore().remove(`${indexPath(profileId)}/prompts/${promptId}`);
+}
+
+/** Trashed prompts of one profile node. */
+function markedPrompts(node: ProfileNode) {
+  const out: Array<{ promptId: string; text: string; mark: Required<Marked> }> = [];
+  for (const category of PROMPT_CATEGORIES) {
+    for (const [key, p] of Object.entries(node.prompts?.[category] || {})) {
+      if (!p?.deletedAt) continue;
+      out.push({
+        promptId: `${category}:${key}`,
+        text: p.text || "",
+        mark: { deletedAt: p.deletedAt, deletedBy: p.deletedBy || "unknown" },
+      });
+    }
+  }
+  return out;
+}
+
+/** The index entry for one profile node's marks (lib/migrations.ts backfills older trash with it). */
+export function trashIndexEntry(node: ProfileNode): TrashIndexEntry {
+  const prompts = Object.fromEntries(markedPrompts(node).map((p) => [p.promptId, p.mark.deletedAt]));
+  return {
+    ...(node.deletedAt ? { deletedAt: node.deletedAt } : {}),
+    ...(Object.keys(prompts).length ? { prompts } : {}),
+  };
+}
+
+/**
+ * Check an expired index entry against the record's own mark: true when the
+ * record is still marked past the cutoff. A restored record drops out of the
+ * index; one trashed again since gets its newer time.
+ */
+async function confirmExpired(markPath: string, entryPath: string, cutoff: number) {
+  const mark = await getStore().get<number>(`${markPath}/deletedAt`);
+  if (typeof mark === "number" && mark < cutoff) return true;
+  if (typeof mark === "number") await getStore().set(entryPath, mark);
+  else await getStore().remove(entryPath);
+  return false;
+}
+
+/** Purge everything trashed longer than the retention period (reads the trash index only). */
+export async function purgeExpiredTrash(now = Date.now()) {
+  const cutoff = now - trashRetentionMs();
+  const index = (await getStore().get<Record<string, TrashIndexEntry>>("trash")) || {};
+  let purgedProfiles = 0;
+  let purgedPrompts = 0;
+
+  for (const [profileId, entry] of Object.entries(index)) {
+    if (!entry) continue;
+    if (entry.deletedAt) {
+      if (
+        entry.deletedAt < cutoff &&
+        (await confirmExpired(`profiles/${profileId}`, `${indexPath(profileId)}/deletedAt`, cutoff))
+      ) {
+        await getStore().remove(`profiles/${profileId}`);
+        await deleteHistory(profileId);
+        await getStore().remove(indexPath(profileId));
+        purgedProfiles += 1;
+      }
+      continue; // prompts go with their profile
+    }
+    for (const [promptId, deletedAt] of Object.entries(entry.prompts || {})) {
+      if (deletedAt >= cutoff) continue;
+      const entryPath = `${indexPath(profileId)}/prompts/${promptId}`;
+      if (!(await confirmExpired(promptPath(profileId, promptId), entryPath, cutoff))) continue;
+      await purgePrompt(profileId, promptId);
+      purgedPrompts += 1;
+    }
+  }
+  if (purgedProfiles || purgedPrompts) console.log("[TRASH][purge]", { purgedProfiles, purgedPrompts });
+  return { purgedProfiles, purgedPrompts };
+}
+
+let lastSweep = 0;
+
+/** purgeExpiredTrash at most once an hour per process (best-effort). */
+export async function sweepExpiredTrash() {
+  if (Date.now() - lastSweep < SWEEP_EVERY_MS) return;
+  lastSweep = Date.now();
+  try {
+    await purgeExpiredTrash();
+  } catch (e) {
+    console.error("[TRASH][purge][error]", e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ───────────────── Listing ─────────────────
+
+/** Everything one user has in the trash, newest first. */
+export async function listTrash(owner: string): Promise<TrashList> {
+  const retention = trashRetentionMs();
+  const nodes = await getStore().findByChild<ProfileNode>("profiles", "owner", owner);
+  const profiles: TrashedProfile[] = [];
+  const prompts: TrashedPrompt[] = [];
+
+  for (const [profileId, node] of Object.entries(nodes)) {
+    if (!node) continue;
+    const companyName = node.companyName || "";
+    if (node.deletedAt) {
+      profiles.push({
+        profileId,
+        companyName,
+        websiteUrl: node.websiteUrl || "",
+        deletedAt: node.deletedAt,
+        deletedBy: node.deletedBy || "unknown",
+        purgeAt: node.deletedAt + retention,
+      });
+      continue; // its prompts come back with it
+    }
+    for (const p of markedPrompts(node)) {
+      prompts.push({ profileId, companyName, promptId: p.promptId, text: p.text, ...p.mark, purgeAt: p.mark.deletedAt + retention });
+    }
+  }
+
+  profiles.sort((a, b) => b.deletedAt - a.deletedAt);
+  prompts.sort((a, b) => b.deletedAt - a.deletedAt);
+  return { retentionDays: Math.round(retention / (24 * 60 * 60_000)), profiles, prompts };
+}
@@ -0,0 +1,59 @@
+// lib/volume.ts
+// Server-side AI search volume enrichment for a profile's prompts.
+import { listPrompts, requireProfile, setPromptVolume } from "./repository";
+
+// reuse the same logic as /api/volume by importing its handler directly
+import { POST as volumePOST } from "@/app/api/volume/route";
+
+export function resolveLocationCode(profile: { country?: string; region?: string } | null | undefined): number {
+  const c = String(profile?.country || profile?.region || "").toLowerCase();
+  if (c === "singapore" || c === "sg") return 2702;
+  return 2840; // USA default
+}
+
+type VolumeItem = { keyword: string; volume: number; monthly: unknown[] };
+
+/**
+ * Fetch + store volume for every prompt that has none (or has one for another
+ * location). Same stored shape as the dashboard / prompts/add writes.
+ */
+export async function enrichPromptVolumes(profileId: string) {
+  const profile = await requireProfile(profileId);
+  const location_code = resolveLocationCode(profile);
+  const language_name = "English";
+
+  const missing: Array<{ promptId: string; text: string }> = [];
+  for (const p of await listPrompts(profileId)) {
+    if (!p.text) continue;
+    if (p.volume && (!p.volume.location_code || p.volume.location_code === location_code)) continue;
+    missing.push({ promptId: p.promptId, text: p.text });
+  }
+  if (!missing.length) return { updated: 0 };
+
+  const volRes = await volumePOST(
+    new Request("http://local/api/volume", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ keywords: missing.map((m) => m.text), language_name, location_code }),
+    })
+  );
+  const volJson = (await volRes.json()) as { items?: VolumeItem[]; error?: string };
+  if (!volRes.ok && !volJson?.items) throw new Error(volJson?.error || `Volume failed: ${volRes.status}`);
+
+  // /api/volume dedupes keywords case-insensitively; match the same way
+  const norm = (k: string) => k.trim().replace(/\s+/g, " ").toLowerCase();
+  const byKeyword = new Map((volJson.items || []).map((it) => [norm(it.keyword), it]));
+  const now = Date.now();
+  for (const m of missing) {
+    const item = byKeyword.get(norm(m.text));
+    // Always write something so we don't re-hit the endpoint on next load
+    await setPromptVolume(profileId, m.promptId, {
+      value: typeof item?.volume === "number" ? item.volume : 0,
+      monthly: Array.isArray(item?.monthly) ? item.monthly : [],
+      language_name,
+      location_code,
+      updatedAt: now,
+    });
+  }
+  return { updated: missing.length };
+}